@@ -1,19 +1,34 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { getLogoMetrics } from './utils/analysis';
-import { analyzeLogoStructure } from './services/gemini';
-import { LogoMetrics, AnalysisResponse, AppState } from './types';
-import StructuralOverlay from './components/StructuralOverlay';
-import { jsPDF } from 'jspdf';
-
-interface ArchivedAnalysis {
-  id: string;
-  timestamp: number;
-  imageSrc: string;
-  score: number;
-  metrics: LogoMetrics;
-  analysis: AnalysisResponse;
-}
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { loadRaster, extractForeground } from './utils/analysis';
+import { toHex, withBackgrounds } from './utils/color';
+import { prepareSvgSource } from './utils/svg';
+import { computeHarmonyIndex } from './utils/scoring';
+import { DEFAULT_SEGMENTATION } from './utils/segmentation';
+import { DEFAULT_WEIGHTING } from './utils/optical';
+import { computeClearSpace } from './utils/clearspace';
+import { DEFAULT_PROVIDER_SETTINGS, ImagePart, narrateRevision, PROVIDER_OPTIONS, ProviderSettings } from './services/provider';
+import { LogoMetrics, AnalysisResponse, AppState, RasterImage, SegmentationMode, SegmentationOptions, WeightingMode, WeightingOptions, ClearSpaceUnit, ColorMetrics, SvgGeometry, ArchivedAnalysis, ArchivedFamily, ComparisonSubject, FamilyAnalysis, FamilyMember, MetricDelta, BatchItem } from './types';
+import TraceViewer from './components/TraceViewer';
+import MaskPreview from './components/MaskPreview';
+import LegibilityTable from './components/LegibilityTable';
+import PalettePanel from './components/PalettePanel';
+import HarmonyBreakdown from './components/HarmonyBreakdown';
+import ProviderSettingsPanel from './components/ProviderSettingsPanel';
+import ArchiveDrawer from './components/ArchiveDrawer';
+import CompareView from './components/CompareView';
+import BatchView from './components/BatchView';
+import FamilyView from './components/FamilyView';
+import CorrectionPanel from './components/CorrectionPanel';
+import ClearSpacePanel from './components/ClearSpacePanel';
+import { AnalysisError, ERROR_MESSAGES } from './services/errors';
+import { blobToDataUrl, createArchiveEntry, createThumbnail, dataUrlToBlob, deleteArchiveEntry, deleteFamily, generateFamilyId, listArchive, listFamilies, loadArchiveImage, loadFamilyImages, migrateLegacyArchive, saveArchiveEntry, saveFamily, updateArchiveEntry } from './services/archive';
+import { createBundle, downloadBundle, importBundle } from './services/bundle';
+import { describeScanError, scanArtifact, ScanResult } from './services/pipeline';
+import { downloadReportPdf } from './services/pdf';
+import { composeOverlaySvg, rasterizeOverlay, renderDownscaled, splitDataUrl } from './utils/canvas';
+import { createReportDocument, reportId, reportToHtml, reportToMarkdown, webLinks } from './utils/report';
+import { collectDroppedFiles, downloadBlob, isSvgFile } from './utils/files';
 
 const ANALYSIS_STEPS = [
   "Initializing AXIOM Core...",
@@ -24,9 +39,36 @@ const ANALYSIS_STEPS = [
   "Generating Structural Protocol..."
 ];
 
+const SVG_RESOLUTIONS = [512, 1024, 2048];
+
+
+const SEGMENTATION_MODES: { mode: SegmentationMode; label: string }[] = [
+  { mode: 'auto', label: 'Auto' },
+  { mode: 'alpha', label: 'Alpha' },
+  { mode: 'border', label: 'Border' },
+  { mode: 'luminance', label: 'Luma' },
+  { mode: 'otsu', label: 'Otsu' }
+];
+
+const WEIGHTING_MODES: { mode: WeightingMode; label: string }[] = [
+  { mode: 'alpha', label: 'Alpha' },
+  { mode: 'optical', label: 'Optical' }
+];
+
+type ReportExport = 'json' | 'md' | 'html' | 'svg' | 'png';
+
+const REPORT_EXPORTS: { kind: ReportExport; label: string; title: string }[] = [
+  { kind: 'json', label: 'JSON', title: 'Metrics and report as versioned JSON' },
+  { kind: 'md', label: 'MD', title: 'Markdown report; pair it with the PNG overlay for the figure' },
+  { kind: 'html', label: 'HTML', title: 'Self-contained HTML report with the overlay figure embedded' },
+  { kind: 'svg', label: 'SVG', title: 'Overlay annotations over the artifact, full resolution' },
+  { kind: 'png', label: 'PNG', title: 'Overlay annotations over the artifact, full resolution' }
+];
+
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>('landing');
   const [imageSrc, setImageSrc] = useState<string | null>(null);
+  const [artifactName, setArtifactName] = useState('');
   const [metrics, setMetrics] = useState<LogoMetrics | null>(null);
   const [analysis, setAnalysis] = useState<AnalysisResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -34,20 +76,89 @@ const App: React.FC = () => {
   const [analysisStep, setAnalysisStep] = useState(0);
   const [showArchive, setShowArchive] = useState(false);
   const [showManual, setShowManual] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(DEFAULT_PROVIDER_SETTINGS);
   const [archive, setArchive] = useState<ArchivedAnalysis[]>([]);
+  const [raster, setRaster] = useState<RasterImage | null>(null);
+  const [segmentation, setSegmentation] = useState<SegmentationOptions>(DEFAULT_SEGMENTATION);
+  const [weighting, setWeighting] = useState<WeightingOptions>(DEFAULT_WEIGHTING);
+  const [clearSpaceUnit, setClearSpaceUnit] = useState<ClearSpaceUnit | null>(null); // null: the scan's default
+  const [showMask, setShowMask] = useState(false);
+  const [color, setColor] = useState<ColorMetrics | null>(null);
+  const [brandBackgrounds, setBrandBackgrounds] = useState<string[]>([]);
+  const [svgSource, setSvgSource] = useState<string | null>(null);
+  const [svgResolution, setSvgResolution] = useState(1024);
+  const [svgGeometry, setSvgGeometry] = useState<SvgGeometry | null>(null);
+  const [batchFiles, setBatchFiles] = useState<File[] | null>(null); // null: batch view never opened
+  const [families, setFamilies] = useState<ArchivedFamily[]>([]);
+  const [familySession, setFamilySession] = useState<{ key: number; initial: { family: ArchivedFamily; images: string[] } | null } | null>(null);
+  const [comparison, setComparison] = useState<{ before: ComparisonSubject; after: ComparisonSubject } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    const saved = localStorage.getItem('axiom_archive_v1');
+    setRaster(null);
+    if (!imageSrc) return;
+    let cancelled = false;
+    loadRaster(imageSrc)
+      .then(decoded => { if (!cancelled) setRaster(decoded); })
+      .catch(() => { if (!cancelled) setError('FORMAT_ERROR: Artifact could not be decoded.'); });
+    return () => { cancelled = true; };
+  }, [imageSrc]);
+
+  const previewMask = useMemo(() => {
+    if (!raster) return null;
+    try {
+      return extractForeground(raster, segmentation);
+    } catch (e) {
+      return null;
+    }
+  }, [raster, segmentation]);
+
+  useEffect(() => {
+    migrateLegacyArchive()
+      .catch(() => console.error("Legacy archive migration failure."))
+      .then(() => listArchive())
+      .then(setArchive)
+      .catch(() => console.error("Archive data failure."));
+    listFamilies()
+      .then(setFamilies)
+      .catch(() => console.error("Family archive data failure."));
+  }, []);
+
+  useEffect(() => {
+    const saved = localStorage.getItem('axiom_brand_backgrounds_v1');
     if (saved) {
       try {
-        setArchive(JSON.parse(saved));
+        setBrandBackgrounds(JSON.parse(saved));
       } catch (e) {
-        console.error("Archive data failure.");
+        console.error("Brand surface data failure.");
       }
     }
   }, []);
 
+  useEffect(() => {
+    const saved = localStorage.getItem('axiom_provider_v1');
+    if (saved) {
+      try {
+        setProviderSettings({ ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(saved) });
+      } catch (e) {
+        console.error("Provider config failure.");
+      }
+    }
+  }, []);
+
+  const updateProviderSettings = (settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    localStorage.setItem('axiom_provider_v1', JSON.stringify(settings));
+  };
+
+  const updateBrandBackgrounds = (backgrounds: string[]) => {
+    setBrandBackgrounds(backgrounds);
+    localStorage.setItem('axiom_brand_backgrounds_v1', JSON.stringify(backgrounds));
+    setColor(prev => (prev ? withBackgrounds(prev, backgrounds) : prev));
+  };
+
   useEffect(() => {
     let interval: number;
     if (state === 'analyzing') {
@@ -59,29 +170,197 @@ const App: React.FC = () => {
     return () => clearInterval(interval);
   }, [state]);
 
-  const saveToArchive = (newEntry: ArchivedAnalysis) => {
-    const updated = [newEntry, ...archive].slice(0, 25);
-    setArchive(updated);
-    localStorage.setItem('axiom_archive_v1', JSON.stringify(updated));
+  // Archiving is best-effort: a storage failure is reported but never discards the finished analysis.
+  // Resolves to the new record's id, or null when nothing was stored.
+  const saveToArchive = async (name: string, source: string, scan: ScanResult): Promise<string | null> => {
+    try {
+      const newEntry = await createArchiveEntry(name, source, scan);
+      await saveArchiveEntry(newEntry, await dataUrlToBlob(source));
+      setArchive(prev => [newEntry, ...prev.filter(item => item.id !== newEntry.id)]);
+      return newEntry.id;
+    } catch (e) {
+      console.error("Archive write failure.", e);
+      setError(e instanceof DOMException && e.name === 'QuotaExceededError'
+        ? 'ARCHIVE_ERROR: Storage quota exceeded. Delete records to free space.'
+        : 'ARCHIVE_ERROR: Analysis could not be archived.');
+      return null;
+    }
+  };
+
+  const updateArchive = async (id: string, patch: Partial<Pick<ArchivedAnalysis, 'name' | 'tags'>>) => {
+    try {
+      const updated = await updateArchiveEntry(id, patch);
+      setArchive(prev => prev.map(item => (item.id === id ? updated : item)));
+    } catch (e) {
+      setError('ARCHIVE_ERROR: Record could not be updated.');
+    }
+  };
+
+  const removeFromArchive = async (id: string) => {
+    try {
+      await deleteArchiveEntry(id);
+      setArchive(prev => prev.filter(item => item.id !== id));
+    } catch (e) {
+      setError('ARCHIVE_ERROR: Record could not be deleted.');
+    }
   };
 
+  // Saving again under the same id replaces the stored family as a whole.
+  const saveFamilyToArchive = async (id: string | null, name: string, members: FamilyMember[], familyAnalysis: FamilyAnalysis, images: string[]) => {
+    const familyId = id ?? generateFamilyId(new Set(families.map(family => family.id)));
+    const family: ArchivedFamily = {
+      id: familyId,
+      name: name || familyId,
+      timestamp: Date.now(),
+      thumbnail: await createThumbnail(images[familyAnalysis.reference]).catch(() => ''),
+      members,
+      analysis: familyAnalysis
+    };
+    try {
+      await saveFamily(family, await Promise.all(images.map(dataUrlToBlob)));
+    } catch (e) {
+      console.error("Family archive write failure.", e);
+      throw e;
+    }
+    setFamilies(prev => [family, ...prev.filter(item => item.id !== familyId)]);
+    return familyId;
+  };
+
+  const openFamily = async (family: ArchivedFamily) => {
+    try {
+      const images = await Promise.all((await loadFamilyImages(family)).map(blobToDataUrl));
+      setFamilySession(prev => ({ key: (prev?.key ?? 0) + 1, initial: { family, images } }));
+      setShowArchive(false);
+      setState('family');
+    } catch (e) {
+      setError('ARCHIVE_ERROR: Stored family could not be read.');
+    }
+  };
+
+  const removeFamily = async (family: ArchivedFamily) => {
+    try {
+      await deleteFamily(family);
+      setFamilies(prev => prev.filter(item => item.id !== family.id));
+    } catch (e) {
+      setError('ARCHIVE_ERROR: Family could not be deleted.');
+    }
+  };
+
+  // Sides are ordered by time: the older analysis is the baseline, the newer the revision.
+  const openComparison = async (entries: ArchivedAnalysis[]) => {
+    try {
+      const subjects: ComparisonSubject[] = [];
+      for (const entry of entries) {
+        subjects.push({
+          name: entry.name,
+          timestamp: entry.timestamp,
+          imageSrc: await blobToDataUrl(await loadArchiveImage(entry.id)),
+          metrics: entry.metrics,
+          analysis: entry.analysis
+        });
+      }
+      if (subjects.length === 1 && metrics && analysis && imageSrc) {
+        subjects.push({ name: artifactName || 'Current', timestamp: Date.now(), imageSrc, metrics, analysis });
+      }
+      if (subjects.length !== 2) return;
+      subjects.sort((a, b) => a.timestamp - b.timestamp);
+      setComparison({ before: subjects[0], after: subjects[1] });
+      setShowArchive(false);
+      setState('compare');
+    } catch (e) {
+      setError('ARCHIVE_ERROR: Stored artifact could not be read.');
+    }
+  };
+
+  const narrateComparison = async (deltas: MetricDelta[]) => {
+    if (!comparison) return '';
+    const { before, after } = comparison;
+    const images: ImagePart[] = providerSettings.sendImages && providerSettings.provider !== 'offline'
+      ? [
+          { label: `Earlier version: ${before.name}`, ...splitDataUrl(await renderDownscaled(before.imageSrc, providerSettings.imageMaxSize)) },
+          { label: `Revision: ${after.name}`, ...splitDataUrl(await renderDownscaled(after.imageSrc, providerSettings.imageMaxSize)) }
+        ]
+      : [];
+    try {
+      return await narrateRevision(providerSettings, { beforeName: before.name, afterName: after.name, deltas, images });
+    } catch (err) {
+      throw new Error(err instanceof AnalysisError ? ERROR_MESSAGES[err.kind] : 'SYSTEM_FAULT: Narrative failed.');
+    }
+  };
+
+  const exitComparison = () => {
+    setComparison(null);
+    setState(metrics && analysis ? 'results' : 'landing');
+  };
+
+  const exportArchive = async (entries: ArchivedAnalysis[], fileName: string) => {
+    downloadBundle(await createBundle(entries), fileName);
+  };
+
+  const importArchive = async (file: File, mode: 'merge' | 'replace') => {
+    const summary = await importBundle(JSON.parse(await file.text()), archive, mode);
+    setArchive(await listArchive());
+    return summary;
+  };
+
+  // Re-rasterize vector masters whenever the chosen analysis resolution changes.
+  useEffect(() => {
+    if (!svgSource) return;
+    const prepared = prepareSvgSource(svgSource, svgResolution);
+    setSvgGeometry(prepared.geometry);
+    setImageSrc(prepared.src);
+  }, [svgSource, svgResolution]);
+
   const processFile = (file: File) => {
-    if (!file.type.startsWith('image/')) {
+    const svg = isSvgFile(file);
+    if (!svg && !file.type.startsWith('image/')) {
       setError('FORMAT_ERROR: Analysis requires high-fidelity image artifacts.');
       return;
     }
     const reader = new FileReader();
     reader.onload = (e) => {
-      setImageSrc(e.target?.result as string);
+      setArtifactName(file.name.replace(/\.[^.]+$/, ''));
+      if (svg) {
+        setSvgSource(e.target?.result as string);
+      } else {
+        setSvgSource(null);
+        setSvgGeometry(null);
+        setImageSrc(e.target?.result as string);
+      }
       setState('upload');
       setError(null);
     };
-    reader.readAsDataURL(file);
+    if (svg) reader.readAsText(file);
+    else reader.readAsDataURL(file);
+  };
+
+  // More than one file switches to the batch queue; a single file keeps the interactive flow.
+  const routeFiles = (files: File[]) => {
+    if (files.length > 1) {
+      setBatchFiles(files);
+      setState('batch');
+    } else if (files[0]) {
+      processFile(files[0]);
+    }
   };
 
   const handleUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) processFile(file);
+    routeFiles(Array.from(event.target.files ?? []));
+    event.target.value = '';
+  };
+
+  const archiveBatchItem = (item: BatchItem, scan: ScanResult) => saveToArchive(item.name, item.imageSrc, scan);
+
+  const openBatchItem = (item: BatchItem) => {
+    if (!item.metrics || !item.analysis) return;
+    setSvgSource(null);
+    setSvgGeometry(item.svgGeometry);
+    setArtifactName(item.name);
+    setImageSrc(item.imageSrc);
+    setMetrics(item.metrics);
+    setAnalysis(item.analysis);
+    setColor(item.color ?? null);
+    setState('results');
   };
 
   const startAnalysis = async () => {
@@ -89,97 +368,130 @@ const App: React.FC = () => {
     setState('analyzing');
     setError(null);
     try {
-      const extractedMetrics = await getLogoMetrics(imageSrc);
-      setMetrics(extractedMetrics);
-      const aiResponse = await analyzeLogoStructure(extractedMetrics);
-      setAnalysis(aiResponse);
-      
-      const newEntry: ArchivedAnalysis = {
-        id: `AX-${Math.floor(Math.random() * 99999).toString().padStart(5, '0')}`,
-        timestamp: Date.now(),
-        imageSrc,
-        score: aiResponse.score,
-        metrics: extractedMetrics,
-        analysis: aiResponse
-      };
-      saveToArchive(newEntry);
-      
+      const scan = await scanArtifact(imageSrc, {
+        segmentation,
+        weighting,
+        brandBackgrounds,
+        providerSettings,
+        svgGeometry,
+        raster,
+        onMetrics: (extractedMetrics, extractedColor) => {
+          setMetrics(extractedMetrics);
+          setColor(extractedColor);
+        }
+      });
+      setAnalysis(scan.analysis);
       setState('results');
+      saveToArchive(artifactName, imageSrc, scan); // never throws; failures surface as an archive error
     } catch (err) {
-      setError('SYSTEM_FAULT: Diagnostic connection timeout.');
+      if (err instanceof AnalysisError) console.error(`Analysis failed [${err.kind}]:`, err.message);
+      setError(describeScanError(err));
       setState('upload');
     }
   };
 
-  const loadFromArchive = (item: ArchivedAnalysis) => {
-    setImageSrc(item.imageSrc);
+  const loadFromArchive = async (item: ArchivedAnalysis) => {
+    let source: string;
+    try {
+      source = await blobToDataUrl(await loadArchiveImage(item.id));
+    } catch (e) {
+      setError('ARCHIVE_ERROR: Stored artifact could not be read.');
+      return;
+    }
+    setSvgSource(null);
+    setSvgGeometry(item.metrics.vector ?? null);
+    setArtifactName(item.name);
+    setImageSrc(source);
     setMetrics(item.metrics);
     setAnalysis(item.analysis);
+    setColor(item.color ? withBackgrounds(item.color, brandBackgrounds) : null);
     setState('results');
     setShowArchive(false);
   };
 
-  const generatePDF = () => {
-    if (!analysis || !metrics) return;
-    const doc = new jsPDF();
-    const pageWidth = doc.internal.pageSize.getWidth();
-    let y = 20;
-    doc.setFont("helvetica", "bold");
-    doc.setFontSize(14);
-    doc.text("AXIOM STRUCTURAL REPORT", 20, y);
-    y += 8;
-    doc.setFontSize(7);
-    doc.setFont("helvetica", "normal");
-    doc.text(`DATE: ${new Date().toLocaleString()}`, 20, y);
-    doc.text(`SYSTEM: AXIOM CORE v2.1`, pageWidth - 50, y);
-    y += 10;
-    doc.setDrawColor(0);
-    doc.setLineWidth(0.1);
-    doc.line(20, y, pageWidth - 20, y);
-    y += 12;
-    doc.setFontSize(8);
-    doc.text("STRUCTURAL HARMONY INDEX (SHI)", 20, y);
-    y += 10;
-    doc.setFontSize(36);
-    doc.setFont("helvetica", "bold");
-    doc.text(String(analysis.score), 20, y);
-    y += 15;
-    const sections = [
-      { title: "MORPHOLOGICAL INTEGRITY", text: analysis.structural_summary },
-      { title: "VOLUMETRIC LOGIC", text: analysis.balance_analysis },
-      { title: "GEOMETRIC TENSION", text: analysis.geometry_analysis },
-      { title: "AXIAL CRITIQUE", text: analysis.alignment_analysis },
-      { title: "MARKET CONTEXT", text: analysis.market_context }
-    ];
-    doc.setFontSize(8);
-    sections.forEach(s => {
-      doc.setFont("helvetica", "bold");
-      doc.text(s.title, 20, y);
-      y += 5;
-      doc.setFont("helvetica", "normal");
-      const lines = doc.splitTextToSize(s.text || "", pageWidth - 40);
-      doc.text(lines, 20, y);
-      y += (lines.length * 4) + 8;
-      if (y > 280) { doc.addPage(); y = 20; }
+  const generatePDF = async () => {
+    if (!analysis || !metrics || !imageSrc) return;
+    const svg = overlayRef.current?.querySelector('svg');
+    const scale = Math.min(1, 1600 / Math.max(metrics.width, metrics.height));
+    const overlay = svg
+      ? await rasterizeOverlay(svg, imageSrc, Math.round(metrics.width * scale), Math.round(metrics.height * scale), 0.15).catch(() => null)
+      : null;
+    await downloadReportPdf({
+      name: artifactName,
+      reportId: reportId(metrics, analysis),
+      imageSrc,
+      metrics,
+      analysis,
+      harmony: analysis.harmony ?? computeHarmonyIndex(metrics),
+      color,
+      overlay
     });
-    doc.save(`AXIOM-REPORT-${Date.now()}.pdf`);
+  };
+
+  const exportReport = async (kind: ReportExport) => {
+    if (!analysis || !metrics || !imageSrc) return;
+    const report = createReportDocument(artifactName, metrics, analysis, color);
+    const base = `AXIOM-${report.report_id}`;
+    const svg = overlayRef.current?.querySelector('svg');
+    // Full-resolution trace over the artifact; the figure in the Markdown/HTML reports is the same image.
+    const overlayPng = () => (svg ? rasterizeOverlay(svg, imageSrc, metrics.width, metrics.height).catch(() => null) : Promise.resolve(null));
+    if (kind === 'json') {
+      downloadBlob(new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }), `${base}.json`);
+    } else if (kind === 'md') {
+      downloadBlob(new Blob([reportToMarkdown(report, svg ? `${base}-overlay.png` : undefined)], { type: 'text/markdown' }), `${base}.md`);
+    } else if (kind === 'html') {
+      downloadBlob(new Blob([reportToHtml(report, (await overlayPng()) ?? undefined)], { type: 'text/html' }), `${base}.html`);
+    } else if (kind === 'svg' && svg) {
+      downloadBlob(new Blob([composeOverlaySvg(svg, imageSrc, metrics.width, metrics.height)], { type: 'image/svg+xml' }), `${base}-overlay.svg`);
+    } else if (kind === 'png') {
+      const png = await overlayPng();
+      if (png) downloadBlob(await dataUrlToBlob(png), `${base}-overlay.png`);
+      else setError('EXPORT_ERROR: Overlay could not be rendered.');
+    }
   };
 
   const reset = () => {
     setImageSrc(null);
+    setArtifactName('');
     setMetrics(null);
     setAnalysis(null);
+    setColor(null);
+    setSvgSource(null);
+    setSvgGeometry(null);
     setError(null);
+    setShowMask(false);
+    setComparison(null);
     setState('landing');
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  // Records archived before the local rubric carry no breakdown; derive it from their metrics.
+  const harmony = metrics && analysis ? (analysis.harmony ?? computeHarmonyIndex(metrics)) : null;
+  // The mask the metrics were measured on, for the trace's mask layer.
+  const traceMask = useMemo(() => {
+    if (!raster || !metrics || raster.width !== metrics.width || raster.height !== metrics.height) return null;
+    const used = metrics.segmentation ? { mode: metrics.segmentation.mode, threshold: metrics.segmentation.threshold } : segmentation;
+    try {
+      return extractForeground(raster, used);
+    } catch (e) {
+      return null;
+    }
+  }, [raster, metrics, segmentation]);
+  // Older records carry no clear-space reading; derive it, and re-derive for a chosen unit.
+  const clearSpace = useMemo(() => {
+    if (!metrics) return null;
+    if (!clearSpaceUnit && metrics.clear_space) return metrics.clear_space;
+    return computeClearSpace(metrics, metrics.boundingBox, metrics.topology?.components ?? [], clearSpaceUnit ?? undefined);
+  }, [metrics, clearSpaceUnit]);
+  useEffect(() => { setClearSpaceUnit(null); }, [metrics]);
+  const dataRef = useMemo(() => (metrics && analysis ? reportId(metrics, analysis) : null), [metrics, analysis]);
+
   return (
     <div 
       className={`min-h-screen bg-[#fafafa] text-black transition-all duration-700 ease-in-out ${isDragging ? 'bg-[#f0f0f0]' : ''}`}
       onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
       onDragLeave={() => setIsDragging(false)}
-      onDrop={(e) => { e.preventDefault(); setIsDragging(false); const file = e.dataTransfer.files?.[0]; if (file) processFile(file); }}
+      onDrop={async (e) => { e.preventDefault(); setIsDragging(false); routeFiles(await collectDroppedFiles(e.dataTransfer)); }}
     >
       <div className="fixed inset-0 pointer-events-none opacity-[0.02] select-none" 
            style={{ backgroundImage: 'linear-gradient(#000 0.5px, transparent 0.5px), linear-gradient(90deg, #000 0.5px, transparent 0.5px)', backgroundSize: '24px 24px' }} 
@@ -198,8 +510,8 @@ const App: React.FC = () => {
               </section>
               <section>
                 <h3 className="mono text-[8px] text-neutral-400 mb-2 tracking-[0.4em] uppercase font-bold">02 / Euclidean Symmetry</h3>
-                <p className="text-sm font-light leading-relaxed mb-2">Calculation of bilateral pixel density across planes.</p>
-                <p className="text-neutral-500 text-[9px] leading-relaxed">Identifies balance relative to horizontal and vertical axes.</p>
+                <p className="text-sm font-light leading-relaxed mb-2">Pixel-wise mirror overlap of the mask against its own reflection.</p>
+                <p className="text-neutral-500 text-[9px] leading-relaxed">Scored about canvas and centroid axes, with n-fold rotation and best-fit axis detection.</p>
               </section>
               <section>
                 <h3 className="mono text-[8px] text-neutral-400 mb-2 tracking-[0.4em] uppercase font-bold">03 / Morphological Density</h3>
@@ -216,42 +528,33 @@ const App: React.FC = () => {
         </div>
       )}
 
-      {showArchive && (
-        <div className="fixed inset-0 z-[100] flex justify-end">
-          <div className="absolute inset-0 bg-black/5 backdrop-blur-sm" onClick={() => setShowArchive(false)} />
-          <div className="relative w-full max-w-[280px] bg-white border-l border-black shadow-2xl h-full flex flex-col animate-in slide-in-from-right duration-500">
-            <div className="p-6 border-b border-neutral-100 flex justify-between items-center bg-neutral-50">
-              <h3 className="heading-archivo font-black text-[10px] uppercase tracking-widest italic">Archive_Index</h3>
-              <button onClick={() => setShowArchive(false)} className="mono text-[8px] hover:text-black transition-colors uppercase font-bold tracking-widest border border-black/10 px-2 py-1">Exit</button>
-            </div>
-            <div className="flex-grow overflow-y-auto p-3 space-y-2 no-scrollbar">
-              {archive.length === 0 ? (
-                <div className="flex flex-col items-center justify-center h-full text-neutral-300 mono text-[8px] uppercase tracking-[0.4em] gap-2">
-                  <div className="w-5 h-5 border border-dashed border-neutral-200"></div>
-                  Records empty
-                </div>
-              ) : (
-                archive.map((item) => (
-                  <button 
-                    key={item.timestamp}
-                    onClick={() => loadFromArchive(item)}
-                    className="w-full text-left bg-white p-3 border border-neutral-100 hover:border-black transition-all group flex items-center gap-4 shadow-sm"
-                  >
-                    <div className="w-8 h-8 bg-neutral-50 border border-neutral-100 flex items-center justify-center p-1 group-hover:bg-white transition-colors">
-                      <img src={item.imageSrc} className="max-w-full max-h-full grayscale group-hover:grayscale-0 transition-all duration-500" alt="Archive Artifact" />
-                    </div>
-                    <div>
-                      <div className="mono text-[7px] text-neutral-400 mb-0.5 font-bold">{new Date(item.timestamp).toLocaleDateString()}</div>
-                      <div className="heading-archivo font-black text-sm uppercase italic leading-none">{item.score} <span className="text-[7px] opacity-20 not-italic">SHI</span></div>
-                    </div>
-                  </button>
-                ))
-              )}
-            </div>
+      {showSettings && (
+        <div className="fixed inset-0 z-[100] bg-white/98 backdrop-blur-2xl animate-in fade-in duration-300 overflow-y-auto px-6 py-20">
+          <div className="max-w-xl mx-auto">
+            <button onClick={() => setShowSettings(false)} className="fixed top-6 right-6 text-[8px] mono border border-black px-3 py-1.5 hover:bg-black hover:text-white transition-all uppercase font-bold tracking-[0.1em] bg-white">Close_Config</button>
+            <h2 className="text-3xl md:text-5xl font-black mb-8 heading-archivo uppercase tracking-tighter border-b-2 border-black pb-4">Analysis<br/>Provider</h2>
+            <ProviderSettingsPanel settings={providerSettings} onChange={updateProviderSettings} />
           </div>
         </div>
       )}
 
+      {showArchive && (
+        <ArchiveDrawer
+          entries={archive}
+          families={families}
+          onOpen={loadFromArchive}
+          onOpenFamily={openFamily}
+          onDeleteFamily={removeFamily}
+          onUpdate={updateArchive}
+          onDelete={removeFromArchive}
+          onExport={exportArchive}
+          onImport={importArchive}
+          onCompare={openComparison}
+          canCompareCurrent={!!(metrics && analysis && imageSrc)}
+          onClose={() => setShowArchive(false)}
+        />
+      )}
+
       <div className="relative z-10 max-w-5xl mx-auto px-6 py-6 md:py-8 flex flex-col min-h-screen">
         <header className="flex flex-col md:flex-row justify-between items-start md:items-baseline border-b border-black pb-4 mb-10 md:mb-12 gap-4">
           <div className="flex flex-col cursor-pointer group" onClick={reset}>
@@ -265,13 +568,25 @@ const App: React.FC = () => {
               <span className="w-1 h-1 bg-neutral-200 rounded-full"></span>
               Archive
             </button>
+            <button onClick={() => { setBatchFiles(prev => prev ?? []); setState('batch'); }} className="flex items-center gap-1.5 hover:text-black text-neutral-400 transition-colors">
+              <span className={`w-1 h-1 rounded-full ${state !== 'batch' && batchFiles ? 'bg-black animate-pulse' : 'bg-neutral-200'}`}></span>
+              Batch
+            </button>
+            <button onClick={() => { setFamilySession(prev => prev ?? { key: 1, initial: null }); setState('family'); }} className="flex items-center gap-1.5 hover:text-black text-neutral-400 transition-colors">
+              <span className={`w-1 h-1 rounded-full ${state !== 'family' && familySession ? 'bg-black' : 'bg-neutral-200'}`}></span>
+              Family
+            </button>
             <button onClick={() => setShowManual(true)} className="flex items-center gap-1.5 hover:text-black text-neutral-400 transition-colors">
               <span className="w-1 h-1 bg-neutral-200 rounded-full"></span>
               Protocol
             </button>
-            <span className="flex items-center gap-1.5 text-green-600 ml-auto md:ml-0">
-              <span className="w-1 h-1 rounded-full bg-green-500 animate-pulse"></span>
-              Live
+            <button onClick={() => setShowSettings(true)} className="flex items-center gap-1.5 hover:text-black text-neutral-400 transition-colors">
+              <span className="w-1 h-1 bg-neutral-200 rounded-full"></span>
+              Config
+            </button>
+            <span className={`flex items-center gap-1.5 ml-auto md:ml-0 ${providerSettings.provider === 'offline' ? 'text-neutral-500' : 'text-green-600'}`}>
+              <span className={`w-1 h-1 rounded-full ${providerSettings.provider === 'offline' ? 'bg-neutral-400' : 'bg-green-500 animate-pulse'}`}></span>
+              {providerSettings.provider === 'offline' ? 'Offline' : `Live / ${PROVIDER_OPTIONS.find(o => o.id === providerSettings.provider)?.label}`}
             </span>
           </nav>
         </header>
@@ -288,7 +603,7 @@ const App: React.FC = () => {
               <div className="flex flex-col sm:flex-row gap-4 items-center w-full sm:w-auto">
                 <label className="group relative w-full sm:w-auto overflow-hidden bg-black text-white px-6 py-3.5 cursor-pointer border border-black transition-all hover:shadow-[6px_6px_0_rgba(0,0,0,0.05)]">
                   <span className="relative z-10 text-[9px] mono uppercase tracking-[0.3em] font-black">Mount Artifact</span>
-                  <input ref={fileInputRef} type="file" className="hidden" accept="image/*" onChange={handleUpload} />
+                  <input ref={fileInputRef} type="file" className="hidden" accept="image/*,.svg" multiple onChange={handleUpload} />
                   <div className="absolute inset-0 bg-neutral-800 translate-y-full group-hover:translate-y-0 transition-transform duration-500 ease-in-out" />
                 </label>
                 <div className="text-[7px] mono uppercase text-neutral-300 tracking-[0.2em] font-black animate-pulse hidden sm:block">
@@ -307,10 +622,111 @@ const App: React.FC = () => {
                 <div className="absolute bottom-4 right-4 w-4 h-4 border-b border-r border-black/10" />
                 
                 <div className="border border-neutral-100 p-8 md:p-16 flex items-center justify-center bg-neutral-50/20 min-h-[300px] md:min-h-[450px] relative">
-                  <img src={imageSrc} alt="Preview" className="max-w-full max-h-full object-contain grayscale mix-blend-multiply transition-all duration-1000 group-hover:scale-[1.01]" />
+                  {showMask && previewMask ? (
+                    <MaskPreview mask={previewMask} className="max-w-full max-h-[420px] object-contain" />
+                  ) : (
+                    <img src={imageSrc} alt="Preview" className="max-w-full max-h-full object-contain grayscale mix-blend-multiply transition-all duration-1000 group-hover:scale-[1.01]" />
+                  )}
                 </div>
                 <div className="absolute bottom-2 right-2 text-[6px] mono text-neutral-400 tracking-[0.1em] font-black uppercase">Buffer_Status: Artifact_Ready</div>
               </div>
+
+              {svgGeometry && (
+                <div className="w-full max-w-xl border border-neutral-100 bg-white p-3 mb-2 flex flex-col gap-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="text-[7px] mono uppercase tracking-[0.3em] text-neutral-400 font-black">Vector_Master</span>
+                    <div className="flex gap-1">
+                      {SVG_RESOLUTIONS.map(resolution => (
+                        <button
+                          key={resolution}
+                          onClick={() => setSvgResolution(resolution)}
+                          className={`px-2 py-1 text-[7px] mono uppercase font-black tracking-widest border transition-all ${svgResolution === resolution ? 'bg-black text-white border-black' : 'border-neutral-100 text-neutral-400 hover:border-black hover:text-black'}`}
+                        >
+                          {resolution}px
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="text-[7px] mono uppercase tracking-[0.2em] text-neutral-500 font-bold">
+                    {svgGeometry.path_count} path(s) / {svgGeometry.shape_count} shape(s)
+                    {svgGeometry.viewBox && <> / viewBox {svgGeometry.viewBox.width}×{svgGeometry.viewBox.height}</>}
+                  </div>
+                  {svgGeometry.warnings.map(warning => (
+                    <div key={warning.code} className="text-[7px] mono uppercase tracking-[0.1em] text-red-600 font-bold">⚠ {warning.message}</div>
+                  ))}
+                </div>
+              )}
+
+              <div className="w-full max-w-xl border border-neutral-100 bg-white p-3 mb-2 flex flex-col gap-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="text-[7px] mono uppercase tracking-[0.3em] text-neutral-400 font-black">Segmentation</span>
+                  <div className="flex gap-1">
+                    {SEGMENTATION_MODES.map(({ mode, label }) => (
+                      <button
+                        key={mode}
+                        onClick={() => setSegmentation(prev => ({ ...prev, mode }))}
+                        className={`px-2 py-1 text-[7px] mono uppercase font-black tracking-widest border transition-all ${segmentation.mode === mode ? 'bg-black text-white border-black' : 'border-neutral-100 text-neutral-400 hover:border-black hover:text-black'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-[7px] mono uppercase tracking-[0.2em] text-neutral-400 font-black w-16">Threshold</span>
+                  <input
+                    type="range" min={0} max={254} value={segmentation.threshold}
+                    disabled={segmentation.mode === 'otsu'}
+                    onChange={(e) => setSegmentation(prev => ({ ...prev, threshold: Number(e.target.value) }))}
+                    className="flex-grow accent-black disabled:opacity-20"
+                  />
+                  <span className="text-[8px] mono font-black w-8 text-right">{previewMask ? previewMask.threshold : segmentation.threshold}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-[6px] mono uppercase tracking-[0.2em] text-neutral-300 font-black">
+                    {previewMask ? `Resolved: ${previewMask.mode}` : 'Decoding buffer...'}
+                  </span>
+                  <button
+                    onClick={() => setShowMask(prev => !prev)}
+                    disabled={!previewMask}
+                    className="text-[7px] mono uppercase font-black tracking-widest border border-black/10 px-2 py-1 hover:border-black transition-all disabled:opacity-20"
+                  >
+                    {showMask ? 'View_Artifact' : 'View_Mask'}
+                  </button>
+                </div>
+                <div className="flex flex-wrap items-center justify-between gap-2 border-t border-neutral-50 pt-3">
+                  <span className="text-[7px] mono uppercase tracking-[0.3em] text-neutral-400 font-black">Weighting</span>
+                  <div className="flex items-center gap-1">
+                    {weighting.mode === 'optical' && (
+                      <>
+                        <span className="text-[6px] mono uppercase tracking-[0.2em] text-neutral-300 font-black mr-1">Ground</span>
+                        <input
+                          type="color"
+                          value={weighting.ground ?? (previewMask?.background ? toHex(previewMask.background) : '#FFFFFF')}
+                          onChange={(e) => setWeighting(prev => ({ ...prev, ground: e.target.value.toUpperCase() }))}
+                          className="w-5 h-5 border border-neutral-100 cursor-pointer"
+                          title="Ground the contrast is judged against"
+                        />
+                        <button
+                          onClick={() => setWeighting(prev => ({ ...prev, ground: null }))}
+                          className={`px-2 py-1 text-[7px] mono uppercase font-black tracking-widest border transition-all mr-2 ${weighting.ground === null ? 'bg-black text-white border-black' : 'border-neutral-100 text-neutral-400 hover:border-black hover:text-black'}`}
+                        >
+                          Detected
+                        </button>
+                      </>
+                    )}
+                    {WEIGHTING_MODES.map(({ mode, label }) => (
+                      <button
+                        key={mode}
+                        onClick={() => setWeighting(prev => ({ ...prev, mode }))}
+                        className={`px-2 py-1 text-[7px] mono uppercase font-black tracking-widest border transition-all ${weighting.mode === mode ? 'bg-black text-white border-black' : 'border-neutral-100 text-neutral-400 hover:border-black hover:text-black'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
               
               <div className="flex flex-col sm:flex-row gap-2 w-full max-w-xl">
                 <button onClick={reset} className="flex-1 px-4 py-2.5 text-[8px] mono uppercase border border-neutral-100 text-neutral-400 hover:text-black hover:border-black transition-all font-black tracking-widest">Purge</button>
@@ -350,6 +766,37 @@ const App: React.FC = () => {
             </div>
           )}
 
+          {/* Kept mounted once opened, so a running queue survives a detour to a result. */}
+          {batchFiles && (
+            <div className={state === 'batch' ? '' : 'hidden'}>
+              <BatchView
+                incoming={batchFiles}
+                scanOptions={{ segmentation, weighting, brandBackgrounds, providerSettings }}
+                svgResolution={svgResolution}
+                onArchive={archiveBatchItem}
+                onOpen={openBatchItem}
+                onExit={() => setState(metrics && analysis ? 'results' : 'landing')}
+              />
+            </div>
+          )}
+
+          {familySession && (
+            <div className={state === 'family' ? '' : 'hidden'}>
+              <FamilyView
+                key={familySession.key}
+                initial={familySession.initial}
+                scanOptions={{ segmentation, weighting, brandBackgrounds }}
+                svgResolution={svgResolution}
+                onSave={saveFamilyToArchive}
+                onExit={() => setState(metrics && analysis ? 'results' : 'landing')}
+              />
+            </div>
+          )}
+
+          {state === 'compare' && comparison && (
+            <CompareView before={comparison.before} after={comparison.after} onNarrate={narrateComparison} onExit={exitComparison} />
+          )}
+
           {state === 'results' && metrics && analysis && imageSrc && (
             <div className="animate-in fade-in duration-1000 pb-12">
               <div className="flex flex-col md:flex-row items-end justify-between mb-8 gap-4">
@@ -361,15 +808,15 @@ const App: React.FC = () => {
                 </div>
                 <div className="flex flex-col text-right gap-1 border-r border-black pr-3">
                   <span className="text-[6px] mono uppercase text-neutral-300 tracking-[0.3em] font-black">DATA_REF</span>
-                  <span className="text-[10px] mono font-black bg-neutral-100 px-2 py-1">AX-{Math.floor(Math.random() * 99999).toString().padStart(5, '0')}</span>
+                  <span className="text-[10px] mono font-black bg-neutral-100 px-2 py-1">{dataRef}</span>
                 </div>
               </div>
 
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-5 mb-10">
-                <div className="bg-white border border-black p-3 flex flex-col aspect-square relative">
-                  <span className="absolute top-3 left-3 text-[6px] mono uppercase text-neutral-300 tracking-[0.3em] font-black bg-white px-1">Fig.01 / Euclidean Trace</span>
-                  <div className="flex-grow flex items-center justify-center">
-                    <StructuralOverlay metrics={metrics} imageSrc={imageSrc} />
+                <div className="bg-white border border-black p-3 flex flex-col gap-2 relative">
+                  <span className="text-[6px] mono uppercase text-neutral-300 tracking-[0.3em] font-black">Fig.01 / Euclidean Trace</span>
+                  <div ref={overlayRef}>
+                    <TraceViewer metrics={metrics} imageSrc={imageSrc} regions={analysis.regions_of_interest} mask={traceMask} clearSpace={clearSpace} />
                   </div>
                 </div>
                 <div className="grid grid-cols-1 gap-5">
@@ -378,12 +825,64 @@ const App: React.FC = () => {
                       <div className="grid grid-cols-2 gap-x-4 gap-y-3 text-[8px] mono uppercase tracking-[0.2em]">
                         <div className="flex flex-col gap-1">
                           <span className="text-neutral-500 font-bold">Symmetry_V</span>
-                          <span className="text-base font-black italic">{metrics.symmetry_vertical}</span>
+                          <span className="text-base font-black italic">{metrics.symmetry_vertical}{metrics.symmetry && <span className="text-[8px] not-italic text-neutral-500 ml-1">{(metrics.symmetry.mirror_vertical * 100).toFixed(0)}%</span>}</span>
                         </div>
                         <div className="flex flex-col gap-1">
                           <span className="text-neutral-500 font-bold">Symmetry_H</span>
-                          <span className="text-base font-black italic">{metrics.symmetry_horizontal}</span>
+                          <span className="text-base font-black italic">{metrics.symmetry_horizontal}{metrics.symmetry && <span className="text-[8px] not-italic text-neutral-500 ml-1">{(metrics.symmetry.mirror_horizontal * 100).toFixed(0)}%</span>}</span>
                         </div>
+                        {metrics.symmetry && (
+                          <>
+                            <div className="flex flex-col gap-1">
+                              <span className="text-neutral-500 font-bold">Axis_θ</span>
+                              <span className="text-base font-black italic">{metrics.symmetry.axis_angle.toFixed(1)}°</span>
+                            </div>
+                            <div className="flex flex-col gap-1">
+                              <span className="text-neutral-500 font-bold">Rot_Order</span>
+                              <span className="text-base font-black italic">{metrics.symmetry.rotational_order}-fold</span>
+                            </div>
+                          </>
+                        )}
+                        {metrics.shape && (
+                          <>
+                            <div className="flex flex-col gap-1">
+                              <span className="text-neutral-500 font-bold">Solidity</span>
+                              <span className="text-base font-black italic">{(metrics.shape.solidity * 100).toFixed(1)}%</span>
+                            </div>
+                            <div className="flex flex-col gap-1">
+                              <span className="text-neutral-500 font-bold">Corners</span>
+                              <span className="text-base font-black italic">{metrics.shape.corner_count}</span>
+                            </div>
+                          </>
+                        )}
+                        {metrics.topology && (
+                          <>
+                            <div className="flex flex-col gap-1">
+                              <span className="text-neutral-500 font-bold">Components</span>
+                              <span className="text-base font-black italic">{metrics.topology.component_count}</span>
+                            </div>
+                            <div className="flex flex-col gap-1">
+                              <span className="text-neutral-500 font-bold">Counters</span>
+                              <span className="text-base font-black italic">{metrics.topology.hole_count} <span className="text-[8px] not-italic text-neutral-500">χ={metrics.topology.euler_number}</span></span>
+                            </div>
+                          </>
+                        )}
+                        {metrics.vector && (
+                          <>
+                            <div className="flex flex-col gap-1">
+                              <span className="text-neutral-500 font-bold">Vec_Paths</span>
+                              <span className="text-base font-black italic">{metrics.vector.path_count}</span>
+                            </div>
+                            <div className="flex flex-col gap-1">
+                              <span className="text-neutral-500 font-bold">Vec_Bounds</span>
+                              <span className="text-base font-black italic">
+                                {metrics.vector.bounds
+                                  ? `${(metrics.vector.bounds.width * metrics.vector.raster_scale).toFixed(1)}×${(metrics.vector.bounds.height * metrics.vector.raster_scale).toFixed(1)}`
+                                  : '—'}
+                              </span>
+                            </div>
+                          </>
+                        )}
                         <div className="flex flex-col gap-1">
                           <span className="text-neutral-500 font-bold">Density</span>
                           <span className="text-base font-black italic">{metrics.density.toFixed(1)}%</span>
@@ -404,19 +903,84 @@ const App: React.FC = () => {
                           </li>
                         ))}
                       </ul>
+                      {analysis.regions_of_interest && analysis.regions_of_interest.length > 0 && (
+                        <>
+                          <h3 className="text-[8px] mono uppercase tracking-[0.4em] text-neutral-300 border-b border-neutral-100 pb-2 mb-3 mt-5 font-black">Regions of Interest</h3>
+                          <ul className="space-y-2">
+                            {analysis.regions_of_interest.map((region, i) => (
+                              <li key={i} className="flex gap-3 items-start">
+                                <span className="text-[8px] mono font-black bg-orange-600 text-white px-1 py-0.5 leading-none">R{i + 1}</span>
+                                <p className="text-[10px] leading-relaxed text-neutral-800 font-light"><span className="mono uppercase text-[8px] font-black tracking-widest mr-2">{region.label}</span>{region.note}</p>
+                              </li>
+                            ))}
+                          </ul>
+                        </>
+                      )}
                    </div>
                 </div>
               </div>
 
+              {harmony && (
+                <div className="bg-white border border-black p-5 mb-10 shadow-[6px_6px_0_rgba(0,0,0,0.01)]">
+                  <div className="flex justify-between items-baseline border-b border-neutral-100 pb-2 mb-3">
+                    <h3 className="text-[8px] mono uppercase tracking-[0.4em] text-neutral-300 font-black">Harmony Breakdown</h3>
+                    <span className="text-[7px] mono uppercase tracking-[0.2em] text-neutral-400 font-black">SHI {harmony.score}</span>
+                  </div>
+                  <HarmonyBreakdown harmony={harmony} />
+                </div>
+              )}
+
+              {clearSpace && (
+                <div className="bg-white border border-black p-5 mb-10 shadow-[6px_6px_0_rgba(0,0,0,0.01)]">
+                  <div className="flex justify-between items-baseline border-b border-neutral-100 pb-2 mb-3">
+                    <h3 className="text-[8px] mono uppercase tracking-[0.4em] text-neutral-300 font-black">Clear Space / Safe Zone</h3>
+                    <span className="text-[7px] mono uppercase tracking-[0.2em] text-neutral-400 font-black">Zone: {clearSpace.zone.width.toFixed(0)}×{clearSpace.zone.height.toFixed(0)}px</span>
+                  </div>
+                  <ClearSpacePanel name={artifactName} raster={raster} metrics={metrics} clearSpace={clearSpace} onUnitChange={setClearSpaceUnit} />
+                </div>
+              )}
+
+              {harmony && (
+                <div className="bg-white border border-black p-5 mb-10 shadow-[6px_6px_0_rgba(0,0,0,0.01)]">
+                  <div className="flex justify-between items-baseline border-b border-neutral-100 pb-2 mb-3">
+                    <h3 className="text-[8px] mono uppercase tracking-[0.4em] text-neutral-300 font-black">Correction Engine</h3>
+                    <span className="text-[7px] mono uppercase tracking-[0.2em] text-neutral-400 font-black">Geometric fixes, re-measured</span>
+                  </div>
+                  <CorrectionPanel name={artifactName} imageSrc={imageSrc} raster={raster} metrics={metrics} harmony={harmony} />
+                </div>
+              )}
+
+              {color && color.palette.length > 0 && (
+                <div className="bg-white border border-black p-5 mb-10 shadow-[6px_6px_0_rgba(0,0,0,0.01)]">
+                  <div className="flex justify-between items-baseline border-b border-neutral-100 pb-2 mb-3">
+                    <h3 className="text-[8px] mono uppercase tracking-[0.4em] text-neutral-300 font-black">Chromatic Register</h3>
+                    {color.background && (
+                      <span className="text-[7px] mono uppercase tracking-[0.2em] text-neutral-400 font-black">Ground: {color.background}</span>
+                    )}
+                  </div>
+                  <PalettePanel color={color} brandBackgrounds={brandBackgrounds} onBackgroundsChange={updateBrandBackgrounds} />
+                </div>
+              )}
+
+              {metrics.legibility && (
+                <div className="bg-white border border-black p-5 mb-10 shadow-[6px_6px_0_rgba(0,0,0,0.01)]">
+                  <div className="flex justify-between items-baseline border-b border-neutral-100 pb-2 mb-3">
+                    <h3 className="text-[8px] mono uppercase tracking-[0.4em] text-neutral-300 font-black">Micro-Scale Legibility</h3>
+                    <span className="text-[7px] mono uppercase tracking-[0.2em] text-neutral-400 font-black">Thinnest stroke: {metrics.legibility.stroke_width.toFixed(1)}px</span>
+                  </div>
+                  <LegibilityTable legibility={metrics.legibility} imageSrc={imageSrc} />
+                </div>
+              )}
+
               <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 border-t border-black pt-6 mb-12">
                 <div className="lg:col-span-5 flex flex-col gap-6">
                    <section>
                       <h4 className="text-[7px] mono uppercase tracking-[0.5em] text-neutral-400 mb-4 font-black">Market Context</h4>
                       <p className="text-sm leading-relaxed text-neutral-600 italic font-light">"{analysis.market_context}"</p>
-                      {analysis.groundingUrls && analysis.groundingUrls.length > 0 && (
+                      {webLinks(analysis.groundingUrls).length > 0 && (
                         <div className="mt-4 pt-3 border-t border-neutral-100 space-y-1.5">
                           <span className="text-[6px] mono uppercase text-neutral-300 tracking-widest font-bold block mb-1">Citations:</span>
-                          {analysis.groundingUrls.map((link, i) => (
+                          {webLinks(analysis.groundingUrls).map((link, i) => (
                             <a 
                               key={i} href={link.uri} target="_blank" rel="noopener noreferrer" 
                               className="group flex items-center gap-1.5 text-[8px] mono uppercase truncate hover:text-black text-neutral-400 transition-all font-bold"
@@ -457,12 +1021,31 @@ const App: React.FC = () => {
                   >
                     Reset_Scan
                   </button>
+                  <button
+                    onClick={() => setShowArchive(true)}
+                    title="Select one archived record to compare against this scan"
+                    className="flex-1 md:flex-none px-6 py-3 text-[8px] mono uppercase bg-white text-black border border-black hover:bg-neutral-50 transition-all tracking-[0.3em] font-black shadow-[4px_4px_0_rgba(0,0,0,0.02)] active:translate-y-0.5 active:shadow-none"
+                  >
+                    Compare
+                  </button>
                   <button 
                     onClick={generatePDF}
                     className="flex-1 md:flex-none px-6 py-3 text-[8px] mono uppercase bg-black text-white hover:bg-neutral-800 transition-all shadow-lg tracking-[0.3em] font-black active:translate-y-0.5"
                   >
                     Export_PDF
                   </button>
+                  <div className="flex border border-black divide-x divide-black">
+                    {REPORT_EXPORTS.map(option => (
+                      <button
+                        key={option.kind}
+                        onClick={() => exportReport(option.kind)}
+                        title={option.title}
+                        className="flex-1 px-3 py-3 text-[8px] mono uppercase bg-white text-black hover:bg-neutral-50 transition-all tracking-[0.2em] font-black active:translate-y-0.5"
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
                 </div>
                 <div className="flex flex-col items-center md:items-end gap-1 text-center md:text-right">
                   <span className="text-[6px] mono text-neutral-400 uppercase tracking-widest leading-loose font-bold">
@@ -0,0 +1,199 @@
+import { parseArgs } from 'node:util';
+import { AnalysisResponse, ColorMetrics, HarmonyIndex, LogoMetrics, SegmentationMode, WeightingMode } from '../types';
+import { computeLogoMetrics, extractForeground, MetricsError } from '../utils/analysis';
+import { computeColorMetrics } from '../utils/color';
+import { computeHarmonyIndex } from '../utils/scoring';
+import { DEFAULT_SEGMENTATION } from '../utils/segmentation';
+import { parseHex } from '../utils/color';
+import { analyzeLogoStructure, DEFAULT_PROVIDER_SETTINGS, PROVIDER_OPTIONS, ProviderId, ProviderSettings } from '../services/provider';
+import { describeScanError } from '../services/pipeline';
+import { AnalysisError } from '../services/errors';
+import { decodeArtifact } from './decode';
+
+// Exit codes: 0 every file passed, 1 a gate failed, 2 usage error or a file could not be analyzed.
+const EXIT_GATE = 1;
+const EXIT_ERROR = 2;
+
+const USAGE = `Usage: axiom analyze <files...> [options]
+
+Options:
+  --json                     Print machine-readable JSON instead of a table
+  --provider <id>            Also write the report with gemini | openai | offline (default: metrics only)
+  --model <name>             Provider model
+  --base-url <url>           OpenAI-compatible endpoint root
+  --api-key <key>            Provider key (default: AXIOM_API_KEY, then GEMINI_API_KEY / OPENAI_API_KEY)
+  --segmentation <mode>      auto | alpha | border | luminance | otsu (default: auto)
+  --threshold <n>            Segmentation threshold for alpha/border/luminance (default: ${DEFAULT_SEGMENTATION.threshold})
+  --weighting <mode>         alpha | optical: mass by coverage, or by contrast against the ground (default: alpha)
+  --ground <hex>             Ground for optical weighting (default: the detected ground, else white)
+  --resolution <px>          SVG rasterization size, longest side (default: 1024)
+  --background <hex>         Extra brand surface for contrast checks; repeatable
+  --min-score <n>            Fail when the Structural Harmony Index is below n
+  --max-center-offset <pct>  Fail when the centroid sits more than pct % from the canvas centre
+  -h, --help                 Show this help`;
+
+interface FileResult {
+  file: string;
+  metrics?: LogoMetrics;
+  color?: ColorMetrics;
+  harmony?: HarmonyIndex;
+  analysis?: AnalysisResponse;
+  failures: string[]; // gate violations
+  error?: string;
+}
+
+const SEGMENTATION_MODES: SegmentationMode[] = ['auto', 'alpha', 'border', 'luminance', 'otsu'];
+const WEIGHTING_MODES: WeightingMode[] = ['alpha', 'optical'];
+
+const fail = (message: string): never => {
+  console.error(`axiom: ${message}\n\n${USAGE}`);
+  process.exit(EXIT_ERROR);
+};
+
+const parseNumber = (value: string | undefined, flag: string) => {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!isFinite(n)) fail(`${flag} expects a number, got "${value}"`);
+  return n;
+};
+
+const providerSettings = (id: string, values: Record<string, string | undefined>): ProviderSettings => {
+  const option = PROVIDER_OPTIONS.find(o => o.id === id);
+  if (!option) fail(`unknown provider "${id}"`);
+  const envKey = id === 'openai' ? process.env.OPENAI_API_KEY : process.env.GEMINI_API_KEY;
+  return {
+    ...DEFAULT_PROVIDER_SETTINGS,
+    provider: id as ProviderId,
+    model: values.model ?? option!.defaultModel,
+    apiKey: values['api-key'] ?? process.env.AXIOM_API_KEY ?? envKey ?? '',
+    baseUrl: values['base-url'] ?? DEFAULT_PROVIDER_SETTINGS.baseUrl,
+    sendImages: false // no canvas in Node; the provider works from the metrics alone
+  };
+};
+
+const centerOffset = (m: LogoMetrics) => Math.hypot(m.center_offset_x, m.center_offset_y);
+
+const pad = (text: string, width: number) => (text.length >= width ? text : text + ' '.repeat(width - text.length));
+
+const printTable = (results: FileResult[]) => {
+  const header = ['FILE', 'SIZE', 'SHI', 'OFFSET%', 'AXIS_IOU', 'DENSITY%', 'COMPLEX', 'COMPS', 'GATE'];
+  const rows = results.map(r => r.metrics && r.harmony
+    ? [
+        r.file,
+        `${r.metrics.width}x${r.metrics.height}`,
+        String(r.harmony.score),
+        centerOffset(r.metrics).toFixed(2),
+        r.metrics.symmetry ? r.metrics.symmetry.axis_score.toFixed(3) : '-',
+        r.metrics.density.toFixed(1),
+        r.metrics.complexity_index.toFixed(3),
+        String(r.metrics.topology?.component_count ?? '-'),
+        r.failures.length > 0 ? 'FAIL' : 'PASS'
+      ]
+    : [r.file, '-', '-', '-', '-', '-', '-', '-', 'ERROR']);
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(row => row[i].length)));
+  const line = (cells: string[]) => cells.map((cell, i) => pad(cell, widths[i])).join('  ').trimEnd();
+  console.log(line(header));
+  rows.forEach(row => console.log(line(row)));
+
+  results.forEach(r => {
+    if (r.error) console.log(`\n${r.file}: ${r.error}`);
+    r.failures.forEach(f => console.log(`\n${r.file}: ${f}`));
+    if (r.analysis) {
+      console.log(`\n${r.file}\n  ${r.analysis.structural_summary}`);
+      r.analysis.remedial_actions.forEach((action, i) => console.log(`  ${i + 1}. ${action}`));
+    }
+  });
+};
+
+const analyze = async (files: string[], values: Record<string, unknown>) => {
+  const str = (key: string) => values[key] as string | undefined;
+  const mode = (str('segmentation') ?? DEFAULT_SEGMENTATION.mode) as SegmentationMode;
+  if (!SEGMENTATION_MODES.includes(mode)) fail(`unknown segmentation mode "${mode}"`);
+  const segmentation = { mode, threshold: parseNumber(str('threshold'), '--threshold') ?? DEFAULT_SEGMENTATION.threshold };
+  const weightingMode = (str('weighting') ?? 'alpha') as WeightingMode;
+  if (!WEIGHTING_MODES.includes(weightingMode)) fail(`unknown weighting mode "${weightingMode}"`);
+  const ground = str('ground') ?? null;
+  if (ground !== null && !parseHex(ground)) fail(`--ground expects a hex colour, got "${ground}"`);
+  const weighting = { mode: weightingMode, ground };
+  const resolution = parseNumber(str('resolution'), '--resolution') ?? 1024;
+  if (!Number.isInteger(resolution) || resolution <= 0) fail(`--resolution expects a positive integer, got "${str('resolution')}"`);
+  const minScore = parseNumber(str('min-score'), '--min-score');
+  const maxOffset = parseNumber(str('max-center-offset'), '--max-center-offset');
+  const backgrounds = (values.background as string[] | undefined) ?? [];
+  const settings = str('provider') ? providerSettings(str('provider')!, values as Record<string, string | undefined>) : null;
+
+  const results: FileResult[] = [];
+  for (const file of files) {
+    const result: FileResult = { file, failures: [] };
+    try {
+      const { raster, vector } = await decodeArtifact(file, resolution);
+      const pixelMetrics = computeLogoMetrics(raster, segmentation, weighting);
+      result.metrics = vector ? { ...pixelMetrics, vector } : pixelMetrics;
+      result.color = computeColorMetrics(raster, extractForeground(raster, segmentation), backgrounds);
+      result.harmony = computeHarmonyIndex(result.metrics);
+      if (settings) result.analysis = await analyzeLogoStructure(settings, result.metrics, result.color);
+
+      if (minScore !== undefined && result.harmony.score < minScore) {
+        result.failures.push(`SHI ${result.harmony.score} is below --min-score ${minScore}`);
+      }
+      const offset = centerOffset(result.metrics);
+      if (maxOffset !== undefined && offset > maxOffset) {
+        result.failures.push(`centroid offset ${offset.toFixed(2)}% exceeds --max-center-offset ${maxOffset}%`);
+      }
+    } catch (err) {
+      // Unknown errors (unreadable path and the like) keep their own message rather than the UI's generic fault.
+      result.error = err instanceof MetricsError || err instanceof AnalysisError || !(err instanceof Error) ? describeScanError(err) : err.message;
+    }
+    results.push(result);
+  }
+
+  const passed = results.every(r => !r.error && r.failures.length === 0);
+  if (values.json) {
+    console.log(JSON.stringify({ passed, results }, null, 2));
+  } else {
+    printTable(results);
+  }
+  if (results.some(r => r.error)) process.exit(EXIT_ERROR);
+  if (!passed) process.exit(EXIT_GATE);
+};
+
+const main = async () => {
+  let parsed: ReturnType<typeof parseArgs>;
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        json: { type: 'boolean' },
+        provider: { type: 'string' },
+        model: { type: 'string' },
+        'base-url': { type: 'string' },
+        'api-key': { type: 'string' },
+        segmentation: { type: 'string' },
+        threshold: { type: 'string' },
+        weighting: { type: 'string' },
+        ground: { type: 'string' },
+        resolution: { type: 'string' },
+        background: { type: 'string', multiple: true },
+        'min-score': { type: 'string' },
+        'max-center-offset': { type: 'string' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    });
+  } catch (err) {
+    return fail(err instanceof Error ? err.message : String(err));
+  }
+
+  const [command, ...files] = parsed.positionals;
+  if (parsed.values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+  if (command !== 'analyze') fail(`unknown command "${command}"`);
+  if (files.length === 0) fail('no files given');
+  await analyze(files, parsed.values);
+};
+
+main().catch(err => {
+  console.error(`axiom: ${err instanceof Error ? err.message : String(err)}`);
+  process.exit(EXIT_ERROR);
+});
@@ -0,0 +1,43 @@
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { PNG } from 'pngjs';
+import jpeg from 'jpeg-js';
+import { Resvg } from '@resvg/resvg-js';
+import { RasterImage, SvgGeometry } from '../types';
+import { MetricsError } from '../utils/analysis';
+import { resizeSvgSource } from '../utils/svg';
+
+export interface DecodedArtifact {
+  raster: RasterImage;
+  vector: SvgGeometry | null;
+}
+
+const isPng = (bytes: Buffer) => bytes.length > 8 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+const isJpeg = (bytes: Buffer) => bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+const isSvg = (path: string, bytes: Buffer) =>
+  extname(path).toLowerCase() === '.svg' || /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<svg\b/i.test(bytes.subarray(0, 1024).toString('utf8'));
+
+const decodePng = (bytes: Buffer): RasterImage => {
+  const png = PNG.sync.read(bytes);
+  return { width: png.width, height: png.height, data: new Uint8ClampedArray(png.data) };
+};
+
+// Node counterpart of `loadRaster`: same RGBA buffer, decoded from disk instead of through a canvas.
+export const decodeArtifact = async (path: string, svgResolution: number): Promise<DecodedArtifact> => {
+  const bytes = await readFile(path);
+  try {
+    if (isPng(bytes)) return { raster: decodePng(bytes), vector: null };
+    if (isJpeg(bytes)) {
+      const image = jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true });
+      return { raster: { width: image.width, height: image.height, data: new Uint8ClampedArray(image.data) }, vector: null };
+    }
+    if (isSvg(path, bytes)) {
+      const prepared = resizeSvgSource(bytes.toString('utf8'), svgResolution);
+      const rendered = new Resvg(prepared.source, { font: { loadSystemFonts: false } }).render();
+      return { raster: decodePng(rendered.asPng()), vector: prepared.geometry };
+    }
+  } catch (err) {
+    throw new MetricsError('DECODE_FAILURE', `${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  throw new MetricsError('DECODE_FAILURE', `${path}: unsupported format (expected PNG, JPEG or SVG)`);
+};
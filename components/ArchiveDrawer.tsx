@@ -0,0 +1,272 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ArchivedAnalysis, ArchivedFamily, ArchiveQuery, ArchiveSort, ImportSummary } from '../types';
+import { archiveTags, DEFAULT_ARCHIVE_QUERY, queryArchive } from '../services/archive';
+
+interface Props {
+  entries: ArchivedAnalysis[];
+  families: ArchivedFamily[];
+  onOpen: (entry: ArchivedAnalysis) => void;
+  onOpenFamily: (family: ArchivedFamily) => void;
+  onDeleteFamily: (family: ArchivedFamily) => void;
+  onUpdate: (id: string, patch: Partial<Pick<ArchivedAnalysis, 'name' | 'tags'>>) => void;
+  onDelete: (id: string) => void;
+  onExport: (entries: ArchivedAnalysis[], fileName: string) => Promise<void>;
+  onImport: (file: File, mode: 'merge' | 'replace') => Promise<ImportSummary>;
+  onCompare: (entries: ArchivedAnalysis[]) => void;
+  canCompareCurrent: boolean; // a finished scan is on screen and can stand in as one side
+  onClose: () => void;
+}
+
+const SORTS: { sort: ArchiveSort; label: string }[] = [
+  { sort: 'date_desc', label: 'Newest' },
+  { sort: 'date_asc', label: 'Oldest' },
+  { sort: 'score_desc', label: 'SHI ↓' },
+  { sort: 'score_asc', label: 'SHI ↑' }
+];
+
+const PERIODS: { days: number | null; label: string }[] = [
+  { days: null, label: 'All' },
+  { days: 7, label: '7D' },
+  { days: 30, label: '30D' }
+];
+
+const chipClass = (active: boolean) =>
+  `px-1.5 py-0.5 text-[6px] mono uppercase font-black tracking-widest border transition-all ${active ? 'bg-black text-white border-black' : 'border-neutral-200 text-neutral-400 hover:border-black hover:text-black'}`;
+
+const describeImport = (summary: ImportSummary) =>
+  [`${summary.imported} imported`, summary.duplicates && `${summary.duplicates} duplicate`, summary.renamed && `${summary.renamed} re-keyed`, summary.rejected.length && `${summary.rejected.length} rejected`]
+    .filter(Boolean)
+    .join(' / ');
+
+const ArchiveDrawer: React.FC<Props> = ({ entries, families, onOpen, onOpenFamily, onDeleteFamily, onUpdate, onDelete, onExport, onImport, onCompare, canCompareCurrent, onClose }) => {
+  const [query, setQuery] = useState<ArchiveQuery>(DEFAULT_ARCHIVE_QUERY);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [draftTag, setDraftTag] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [confirmRestore, setConfirmRestore] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const importMode = useRef<'merge' | 'replace'>('merge');
+
+  const tags = useMemo(() => archiveTags(entries), [entries]);
+  const visible = useMemo(() => queryArchive(entries, query), [entries, query]);
+  const update = (patch: Partial<ArchiveQuery>) => setQuery(prev => ({ ...prev, ...patch }));
+
+  const startEditing = (entry: ArchivedAnalysis) => {
+    setEditing(entry.id);
+    setDraftName(entry.name);
+    setDraftTag('');
+    setConfirmDelete(null);
+  };
+
+  const toggleSelected = (id: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const runExport = async (chosen: ArchivedAnalysis[], fileName: string) => {
+    setStatus('Packing...');
+    try {
+      await onExport(chosen, fileName);
+      setStatus(`${chosen.length} record(s) exported`);
+    } catch (e) {
+      setStatus('Export failed');
+    }
+  };
+
+  const pickImport = (mode: 'merge' | 'replace') => {
+    importMode.current = mode;
+    setConfirmRestore(false);
+    fileInputRef.current?.click();
+  };
+
+  const runImport = async (file: File) => {
+    setStatus('Reading bundle...');
+    try {
+      const summary = await onImport(file, importMode.current);
+      setSelected(new Set());
+      setStatus(describeImport(summary));
+      summary.rejected.forEach(reason => console.warn(`Bundle entry rejected: ${reason}`));
+    } catch (e) {
+      setStatus(`Import failed: ${e instanceof Error ? e.message : 'unreadable file'}`);
+    }
+  };
+
+  const stamp = new Date().toISOString().slice(0, 10);
+  const selectedEntries = entries.filter(entry => selected.has(entry.id));
+  const canCompare = selectedEntries.length === 2 || (selectedEntries.length === 1 && canCompareCurrent);
+
+  const commitEdit = (entry: ArchivedAnalysis) => {
+    const tag = draftTag.trim().toLowerCase();
+    const name = draftName.trim() || entry.name;
+    const nextTags = tag && !entry.tags.includes(tag) ? [...entry.tags, tag] : entry.tags;
+    if (name !== entry.name || nextTags !== entry.tags) onUpdate(entry.id, { name, tags: nextTags });
+    setEditing(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex justify-end">
+      <div className="absolute inset-0 bg-black/5 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative w-full max-w-[320px] bg-white border-l border-black shadow-2xl h-full flex flex-col animate-in slide-in-from-right duration-500">
+        <div className="p-6 border-b border-neutral-100 flex justify-between items-center bg-neutral-50">
+          <h3 className="heading-archivo font-black text-[10px] uppercase tracking-widest italic">Archive_Index <span className="mono not-italic text-neutral-300 ml-1">{visible.length}/{entries.length}</span></h3>
+          <button onClick={onClose} className="mono text-[8px] hover:text-black transition-colors uppercase font-bold tracking-widest border border-black/10 px-2 py-1">Exit</button>
+        </div>
+
+        <div className="p-3 border-b border-neutral-100 flex flex-col gap-2">
+          <input
+            value={query.search}
+            onChange={(e) => update({ search: e.target.value })}
+            placeholder="Search name / tag"
+            className="w-full border border-neutral-200 px-2 py-1.5 text-[9px] mono focus:outline-none focus:border-black"
+          />
+          <div className="flex flex-wrap gap-1">
+            {SORTS.map(option => (
+              <button key={option.sort} onClick={() => update({ sort: option.sort })} className={chipClass(query.sort === option.sort)}>{option.label}</button>
+            ))}
+            <span className="w-px bg-neutral-100 mx-0.5" />
+            {PERIODS.map(option => (
+              <button key={option.label} onClick={() => update({ sinceDays: option.days })} className={chipClass(query.sinceDays === option.days)}>{option.label}</button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-[6px] mono uppercase tracking-[0.2em] text-neutral-400 font-black w-12">SHI ≥ {query.minScore}</span>
+            <input type="range" min={0} max={100} step={5} value={query.minScore} onChange={(e) => update({ minScore: Number(e.target.value) })} className="flex-grow accent-black" />
+          </div>
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {tags.map(tag => (
+                <button key={tag} onClick={() => update({ tag: query.tag === tag ? null : tag })} className={chipClass(query.tag === tag)}>#{tag}</button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="px-3 py-2 border-b border-neutral-100 flex flex-col gap-1.5 bg-neutral-50">
+          <div className="flex flex-wrap gap-1">
+            <button
+              disabled={selected.size === 0}
+              onClick={() => runExport(selectedEntries, `axiom-export-${stamp}.json`)}
+              className={`${chipClass(false)} disabled:opacity-30`}
+            >
+              Export ({selected.size})
+            </button>
+            <button disabled={entries.length === 0} onClick={() => runExport(entries, `axiom-backup-${stamp}.json`)} className={`${chipClass(false)} disabled:opacity-30`}>Backup</button>
+            <button
+              disabled={!canCompare}
+              onClick={() => onCompare(selectedEntries)}
+              title={selectedEntries.length === 1 ? 'Compare with the current scan' : 'Select two records'}
+              className={`${chipClass(false)} disabled:opacity-30`}
+            >
+              {selectedEntries.length === 1 ? 'Compare w/ Current' : 'Compare'}
+            </button>
+            <button onClick={() => pickImport('merge')} className={chipClass(false)}>Import</button>
+            <button
+              onClick={() => (confirmRestore ? pickImport('replace') : setConfirmRestore(true))}
+              className={`${chipClass(false)} ${confirmRestore ? 'text-red-600 border-red-600' : ''}`}
+            >
+              {confirmRestore ? 'Replace all?' : 'Restore'}
+            </button>
+          </div>
+          {status && <span className="text-[6px] mono uppercase tracking-[0.2em] text-neutral-500 font-black">{status}</span>}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) runImport(file);
+            }}
+          />
+        </div>
+
+        {families.length > 0 && (
+          <div className="px-3 py-2 border-b border-neutral-100 flex flex-col gap-1.5 max-h-40 overflow-y-auto no-scrollbar">
+            <span className="text-[6px] mono uppercase tracking-[0.2em] text-neutral-400 font-black">Families {families.length}</span>
+            {families.map(family => (
+              <div key={family.id} className="flex items-center gap-3 group">
+                <button onClick={() => onOpenFamily(family)} className="w-6 h-6 shrink-0 bg-neutral-50 border border-neutral-100 flex items-center justify-center p-0.5">
+                  {family.thumbnail && <img src={family.thumbnail} className="max-w-full max-h-full grayscale group-hover:grayscale-0 transition-all" alt="Family reference" />}
+                </button>
+                <button onClick={() => onOpenFamily(family)} className="flex-grow min-w-0 text-left mono text-[7px] font-bold truncate">
+                  {family.name} <span className="text-neutral-400">/ {family.members.length} lockups / {family.analysis.consistency}%</span>
+                </button>
+                <button
+                  onClick={() => (confirmDelete === family.id ? onDeleteFamily(family) : setConfirmDelete(family.id))}
+                  className={`text-[6px] mono uppercase font-black tracking-widest opacity-0 group-hover:opacity-100 transition-opacity ${confirmDelete === family.id ? 'text-red-600' : 'text-neutral-400 hover:text-red-600'}`}
+                >
+                  {confirmDelete === family.id ? 'Confirm' : 'Delete'}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex-grow overflow-y-auto p-3 space-y-2 no-scrollbar">
+          {visible.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-full text-neutral-300 mono text-[8px] uppercase tracking-[0.4em] gap-2">
+              <div className="w-5 h-5 border border-dashed border-neutral-200"></div>
+              {entries.length === 0 ? 'Records empty' : 'No matches'}
+            </div>
+          ) : (
+            visible.map((item) => (
+              <div key={item.id} className="w-full bg-white p-3 border border-neutral-100 hover:border-black transition-all group shadow-sm">
+                <div className="flex items-center gap-4">
+                  <input type="checkbox" checked={selected.has(item.id)} onChange={() => toggleSelected(item.id)} className="accent-black shrink-0" aria-label={`Select ${item.name}`} />
+                  <button onClick={() => onOpen(item)} className="w-8 h-8 shrink-0 bg-neutral-50 border border-neutral-100 flex items-center justify-center p-1 group-hover:bg-white transition-colors">
+                    {item.thumbnail && <img src={item.thumbnail} className="max-w-full max-h-full grayscale group-hover:grayscale-0 transition-all duration-500" alt="Archive Artifact" />}
+                  </button>
+                  <button onClick={() => onOpen(item)} className="flex-grow min-w-0 text-left">
+                    <div className="mono text-[7px] text-neutral-400 mb-0.5 font-bold truncate">{new Date(item.timestamp).toLocaleDateString()} / {item.name}</div>
+                    <div className="heading-archivo font-black text-sm uppercase italic leading-none">{item.score} <span className="text-[7px] opacity-20 not-italic">SHI</span></div>
+                  </button>
+                  <div className="flex flex-col gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => (editing === item.id ? setEditing(null) : startEditing(item))} className="text-[6px] mono uppercase font-black tracking-widest text-neutral-400 hover:text-black">Edit</button>
+                    <button
+                      onClick={() => (confirmDelete === item.id ? onDelete(item.id) : setConfirmDelete(item.id))}
+                      className={`text-[6px] mono uppercase font-black tracking-widest ${confirmDelete === item.id ? 'text-red-600' : 'text-neutral-400 hover:text-red-600'}`}
+                    >
+                      {confirmDelete === item.id ? 'Confirm' : 'Delete'}
+                    </button>
+                  </div>
+                </div>
+                {item.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {item.tags.map(tag => (
+                      <span key={tag} className="text-[6px] mono uppercase font-black tracking-widest bg-neutral-50 border border-neutral-100 px-1 py-0.5 flex items-center gap-1">
+                        #{tag}
+                        {editing === item.id && (
+                          <button onClick={() => onUpdate(item.id, { tags: item.tags.filter(t => t !== tag) })} className="text-neutral-400 hover:text-red-600">×</button>
+                        )}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {editing === item.id && (
+                  <form
+                    className="flex flex-col gap-1.5 mt-2"
+                    onSubmit={(e) => { e.preventDefault(); commitEdit(item); }}
+                  >
+                    <input value={draftName} onChange={(e) => setDraftName(e.target.value)} placeholder="Name" className="border border-neutral-200 px-2 py-1 text-[9px] mono focus:outline-none focus:border-black" autoFocus />
+                    <div className="flex gap-1.5">
+                      <input value={draftTag} onChange={(e) => setDraftTag(e.target.value)} placeholder="Add tag" className="flex-grow min-w-0 border border-neutral-200 px-2 py-1 text-[9px] mono focus:outline-none focus:border-black" />
+                      <button type="submit" className="px-2 text-[7px] mono uppercase font-black tracking-widest bg-black text-white">Save</button>
+                    </div>
+                  </form>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ArchiveDrawer;
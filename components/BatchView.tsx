@@ -0,0 +1,263 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { BatchItem, BatchSettings, BatchStatus } from '../types';
+import { ScanOptions, ScanResult, describeScanError, readArtifactFile, scanArtifact } from '../services/pipeline';
+import { Throttle } from '../services/provider';
+import { BATCH_COLUMNS, BatchSortKey, batchToCsv, batchToJson, createRateLimiter, runQueue, sortBatch } from '../utils/batch';
+import { collectDroppedFiles, downloadBlob, isArtifactFile } from '../utils/files';
+
+interface Props {
+  incoming: File[]; // files routed here from a multi-file drop elsewhere in the app
+  scanOptions: Pick<ScanOptions, 'segmentation' | 'weighting' | 'brandBackgrounds' | 'providerSettings'>;
+  svgResolution: number;
+  onArchive: (item: BatchItem, scan: ScanResult) => Promise<string | null>;
+  onOpen: (item: BatchItem) => void;
+  onExit: () => void;
+}
+
+const DEFAULT_BATCH_SETTINGS: BatchSettings = { concurrency: 2, requestsPerMinute: 10 };
+
+const STATUS_CLASS: Record<BatchStatus, string> = {
+  queued: 'text-neutral-400 border-neutral-200',
+  running: 'text-black border-black animate-pulse',
+  done: 'text-green-600 border-green-600',
+  failed: 'text-red-600 border-red-600'
+};
+
+const formatCell = (value: number | string | null) =>
+  value === null ? '—' : typeof value === 'number' ? (Number.isInteger(value) ? String(value) : value.toFixed(2)) : value;
+
+const BatchView: React.FC<Props> = ({ incoming, scanOptions, svgResolution, onArchive, onOpen, onExit }) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [settings, setSettings] = useState<BatchSettings>(DEFAULT_BATCH_SETTINGS);
+  const [running, setRunning] = useState(false);
+  const [sort, setSort] = useState<{ key: BatchSortKey; ascending: boolean }>({ key: 'name', ascending: true });
+  const [skipped, setSkipped] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
+
+  // Workers outlive renders, so they read everything through refs.
+  const itemsRef = useRef<Map<string, BatchItem>>(new Map());
+  const pendingRef = useRef<string[]>([]);
+  const runningRef = useRef(false);
+  // One limiter per rate, so its schedule carries across queue restarts instead of resetting.
+  const offline = scanOptions.providerSettings.provider === 'offline';
+  const throttle = useMemo<Throttle | null>(
+    // The offline provider is local; only remote providers are rate limited.
+    () => (offline ? null : createRateLimiter(settings.requestsPerMinute)),
+    [offline, settings.requestsPerMinute]
+  );
+  const throttleRef = useRef(throttle);
+  throttleRef.current = throttle;
+  const optionsRef = useRef({ scanOptions, settings, onArchive });
+  optionsRef.current = { scanOptions, settings, onArchive };
+  const nextId = useRef(1);
+  const ingested = useRef<File[] | null>(null);
+
+  const patchItem = (id: string, patch: Partial<BatchItem>) => {
+    const updated = { ...itemsRef.current.get(id)!, ...patch };
+    itemsRef.current.set(id, updated);
+    setItems(prev => prev.map(item => (item.id === id ? updated : item)));
+  };
+
+  const worker = async (id: string) => {
+    const item = itemsRef.current.get(id);
+    if (!item) return;
+    patchItem(id, { status: 'running', attempts: item.attempts + 1, error: undefined });
+    const { scanOptions: options, onArchive: archive } = optionsRef.current;
+    let scan: ScanResult;
+    try {
+      scan = await scanArtifact(item.imageSrc, { ...options, svgGeometry: item.svgGeometry, throttle: throttleRef.current ?? undefined });
+    } catch (err) {
+      patchItem(id, { status: 'failed', error: describeScanError(err) });
+      return;
+    }
+    patchItem(id, { status: 'done', metrics: scan.metrics, color: scan.color, analysis: scan.analysis });
+    // Archiving is best-effort; a storage failure must not send a finished scan back to the provider.
+    const archiveId = await archive(itemsRef.current.get(id)!, scan).catch(() => null);
+    if (archiveId) patchItem(id, { archiveId });
+  };
+
+  const ensureRunning = () => {
+    if (runningRef.current || pendingRef.current.length === 0) return;
+    const { settings: current } = optionsRef.current;
+    runningRef.current = true;
+    setRunning(true);
+    runQueue(() => pendingRef.current.shift(), worker, current.concurrency).finally(() => {
+      runningRef.current = false;
+      setRunning(false);
+      ensureRunning(); // picks up retries queued after the last lane went idle
+    });
+  };
+
+  const enqueue = (ids: string[]) => {
+    ids.forEach(id => {
+      if (!pendingRef.current.includes(id)) pendingRef.current.push(id);
+    });
+    ensureRunning();
+  };
+
+  const ingest = async (files: File[]) => {
+    const accepted = files.filter(isArtifactFile);
+    setSkipped(prev => prev + files.length - accepted.length);
+    const added: BatchItem[] = [];
+    for (const file of accepted) {
+      const id = `B${nextId.current++}`;
+      try {
+        const source = await readArtifactFile(file, svgResolution);
+        added.push({ id, ...source, status: 'queued', attempts: 0 });
+      } catch (e) {
+        added.push({ id, name: file.name, imageSrc: '', svgGeometry: null, status: 'failed', attempts: 0, error: 'FORMAT_ERROR: Artifact could not be read.' });
+      }
+    }
+    added.forEach(item => itemsRef.current.set(item.id, item));
+    setItems(prev => [...prev, ...added]);
+    enqueue(added.filter(item => item.status === 'queued').map(item => item.id));
+  };
+
+  useEffect(() => {
+    if (incoming.length === 0 || ingested.current === incoming) return;
+    ingested.current = incoming; // effects run twice under StrictMode
+    ingest(incoming);
+  }, [incoming]);
+
+  const retry = (ids: string[]) => {
+    const retryable = ids.filter(id => itemsRef.current.get(id)?.imageSrc);
+    retryable.forEach(id => patchItem(id, { status: 'queued', error: undefined }));
+    enqueue(retryable);
+  };
+
+  const stop = () => {
+    pendingRef.current = [];
+  };
+
+  const clearFinished = () => {
+    const keep = items.filter(item => item.status === 'queued' || item.status === 'running');
+    itemsRef.current = new Map(keep.map(item => [item.id, item]));
+    setItems(keep);
+  };
+
+  const sorted = useMemo(() => sortBatch(items, sort.key, sort.ascending), [items, sort]);
+  const counts = useMemo(() => ({
+    done: items.filter(item => item.status === 'done').length,
+    failed: items.filter(item => item.status === 'failed').length,
+    queued: items.filter(item => item.status === 'queued').length
+  }), [items]);
+  const idleQueued = items.filter(item => item.status === 'queued' && !pendingRef.current.includes(item.id)).map(item => item.id);
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  const toggleSort = (key: BatchSortKey) =>
+    setSort(prev => (prev.key === key ? { key, ascending: !prev.ascending } : { key, ascending: key === 'name' || key === 'status' }));
+
+  const chip = "px-3 py-1.5 text-[7px] mono uppercase font-black tracking-widest border border-black/10 hover:border-black transition-all disabled:opacity-20";
+
+  return (
+    <div
+      className={`animate-in fade-in duration-1000 pb-12 ${isDragging ? 'outline outline-1 outline-dashed outline-black' : ''}`}
+      onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); setIsDragging(true); }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={async (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setIsDragging(false);
+        ingest(await collectDroppedFiles(e.dataTransfer));
+      }}
+    >
+      <div className="flex flex-col md:flex-row items-end justify-between mb-8 gap-4">
+        <div className="flex flex-col">
+          <h2 className="text-[40px] sm:text-[60px] md:text-[80px] font-black tracking-tighter leading-[0.8] uppercase italic heading-archivo select-none">
+            {counts.done}<span className="opacity-20 mx-2">/</span>{items.length}
+          </h2>
+          <span className="text-[7px] mono uppercase tracking-[0.4em] text-neutral-400 mt-2 font-black">
+            Batch Queue / {counts.queued} queued / <span className="text-red-600">{counts.failed} failed</span>{skipped > 0 ? ` / ${skipped} skipped (not an image)` : ''}
+          </span>
+        </div>
+        <button onClick={onExit} className="px-6 py-3 text-[8px] mono uppercase bg-white text-black border border-black hover:bg-neutral-50 transition-all tracking-[0.3em] font-black">Exit_Batch</button>
+      </div>
+
+      <div className="bg-white border border-black p-5 mb-5 flex flex-wrap items-center gap-6">
+        <label className="flex items-center gap-2 text-[7px] mono uppercase font-black tracking-widest text-neutral-400">
+          Concurrency
+          <input
+            type="number" min={1} max={8} value={settings.concurrency}
+            onChange={(e) => setSettings(prev => ({ ...prev, concurrency: Math.max(1, Math.min(8, Number(e.target.value) || 1)) }))}
+            className="w-12 border border-neutral-200 px-2 py-1 text-[9px] text-black focus:outline-none focus:border-black"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-[7px] mono uppercase font-black tracking-widest text-neutral-400">
+          Req / Min
+          <input
+            type="number" min={0} max={600} value={settings.requestsPerMinute}
+            onChange={(e) => setSettings(prev => ({ ...prev, requestsPerMinute: Math.max(0, Number(e.target.value) || 0) }))}
+            className="w-14 border border-neutral-200 px-2 py-1 text-[9px] text-black focus:outline-none focus:border-black"
+          />
+        </label>
+        <span className="text-[6px] mono uppercase tracking-[0.2em] text-neutral-300 font-black">Applies from the next run{running ? ' (running)' : ''}. 0 = unlimited.</span>
+        <div className="flex flex-wrap gap-2 ml-auto">
+          <button onClick={() => enqueue(idleQueued)} disabled={idleQueued.length === 0} className={chip}>Run ({idleQueued.length})</button>
+          <button onClick={stop} disabled={!running} className={chip}>Stop</button>
+          <button onClick={() => retry(items.filter(item => item.status === 'failed').map(item => item.id))} disabled={counts.failed === 0} className={chip}>Retry_Failed</button>
+          <button onClick={clearFinished} disabled={counts.done + counts.failed === 0} className={chip}>Clear_Finished</button>
+          <button onClick={() => downloadBlob(new Blob([batchToCsv(sorted)], { type: 'text/csv' }), `axiom-batch-${stamp}.csv`)} disabled={items.length === 0} className={chip}>Export_CSV</button>
+          <button onClick={() => downloadBlob(new Blob([batchToJson(sorted)], { type: 'application/json' }), `axiom-batch-${stamp}.json`)} disabled={items.length === 0} className={chip}>Export_JSON</button>
+        </div>
+      </div>
+
+      <div className="bg-white border border-black p-5 shadow-[6px_6px_0_rgba(0,0,0,0.01)] overflow-x-auto">
+        {items.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-neutral-300 mono text-[8px] uppercase tracking-[0.4em] gap-2">
+            <div className="w-5 h-5 border border-dashed border-neutral-200"></div>
+            Drop files or a folder here
+          </div>
+        ) : (
+          <table className="w-full text-[8px] mono uppercase">
+            <thead>
+              <tr className="text-neutral-400 text-left">
+                <th className="py-1 w-8"></th>
+                {BATCH_COLUMNS.map(column => (
+                  <th key={column.key} className="font-black py-1 pr-3 cursor-pointer select-none hover:text-black" onClick={() => toggleSort(column.key)}>
+                    {column.label}{sort.key === column.key ? (sort.ascending ? ' ↑' : ' ↓') : ''}
+                  </th>
+                ))}
+                <th className="py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map(item => (
+                <tr key={item.id} className="border-t border-neutral-50 align-middle">
+                  <td className="py-1">
+                    <div className="w-6 h-6 bg-neutral-50 border border-neutral-100 flex items-center justify-center p-0.5">
+                      {item.imageSrc && <img src={item.imageSrc} className="max-w-full max-h-full grayscale" alt="" />}
+                    </div>
+                  </td>
+                  {BATCH_COLUMNS.map(column => (
+                    <td key={column.key} className="py-1 pr-3">
+                      {column.key === 'status' ? (
+                        <span className={`border px-1 py-0.5 font-black ${STATUS_CLASS[item.status]}`} title={item.error}>
+                          {item.status}{item.attempts > 1 ? ` ×${item.attempts}` : ''}
+                        </span>
+                      ) : column.key === 'name' ? (
+                        <span className="font-bold normal-case">{item.name}</span>
+                      ) : formatCell(column.value(item))}
+                    </td>
+                  ))}
+                  <td className="py-1 text-right whitespace-nowrap">
+                    {item.status === 'done' && <button onClick={() => onOpen(item)} className="font-black hover:underline mr-2">Open</button>}
+                    {item.status === 'failed' && item.imageSrc && <button onClick={() => retry([item.id])} className="font-black text-red-600 hover:underline">Retry</button>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {counts.failed > 0 && (
+          <ul className="mt-4 space-y-1">
+            {items.filter(item => item.status === 'failed').map(item => (
+              <li key={item.id} className="text-[7px] mono uppercase text-red-600"><span className="font-black">{item.name}</span>: {item.error}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchView;
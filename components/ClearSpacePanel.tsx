@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { ClearSpaceMetrics, ClearSpaceUnit, LogoMetrics, RasterImage } from '../types';
+import { PADDED_PRESETS, PaddedPreset, paddedPlacement } from '../utils/clearspace';
+import { correctionFill } from '../utils/correction';
+import { renderPadded } from '../utils/canvas';
+import { downloadBlob } from '../utils/files';
+import { dataUrlToBlob } from '../services/archive';
+
+interface Props {
+  name: string;
+  raster: RasterImage | null; // decoded pixels the metrics were taken from
+  metrics: LogoMetrics;
+  clearSpace: ClearSpaceMetrics;
+  onUnitChange: (unit: ClearSpaceUnit) => void;
+}
+
+const SIDES: (keyof ClearSpaceMetrics['margins'])[] = ['top', 'right', 'bottom', 'left'];
+
+const chip = (active: boolean) =>
+  `px-2 py-1 text-[7px] mono uppercase font-black tracking-widest border transition-all disabled:opacity-20 ${active ? 'bg-black text-white border-black' : 'border-neutral-100 text-neutral-400 hover:border-black hover:text-black'}`;
+
+const ClearSpacePanel: React.FC<Props> = ({ name, raster, metrics, clearSpace, onUnitChange }) => {
+  const [error, setError] = useState<string | null>(null);
+  const { unit } = clearSpace;
+  const components = metrics.topology?.components ?? [];
+  const ready = !!raster && raster.width === metrics.width && raster.height === metrics.height;
+
+  // The zone, not just the mark, is fitted to the preset, so the clear space survives every crop.
+  const exportPreset = async (preset: PaddedPreset) => {
+    if (!ready) return;
+    setError(null);
+    try {
+      const { frame, target } = paddedPlacement(clearSpace.zone, preset);
+      const ground = correctionFill(metrics);
+      const fill: [number, number, number, number] = preset.opaque && ground[3] === 0 ? [255, 255, 255, 255] : ground;
+      const png = renderPadded(raster!, frame, target, preset.width, preset.height, fill);
+      const base = (name || 'artifact').replace(/\.[^.]+$/, '');
+      downloadBlob(await dataUrlToBlob(png), `${base}-${preset.id}-${preset.width}x${preset.height}.png`);
+    } catch (e) {
+      setError('EXPORT_ERROR: Padded asset could not be rendered.');
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div className="flex flex-col gap-2">
+        <table className="w-full text-[8px] mono uppercase">
+          <thead>
+            <tr className="text-neutral-400 text-left">
+              <th className="font-black py-1">Side</th>
+              <th className="font-black py-1 text-right">Margin</th>
+              <th className="font-black py-1 text-right">× Mark_H</th>
+            </tr>
+          </thead>
+          <tbody>
+            {SIDES.map(side => (
+              <tr key={side} className="border-t border-neutral-50">
+                <td className="py-1 font-bold">{side}</td>
+                <td className="py-1 text-right">{clearSpace.margins[side].toFixed(0)}px</td>
+                <td className="py-1 text-right">{clearSpace.relative[side].toFixed(3)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex flex-wrap gap-2 text-[7px] mono uppercase tracking-[0.2em] font-black">
+          <span className={clearSpace.uneven ? 'text-red-600' : 'text-green-600'}>{clearSpace.uneven ? 'Uneven padding' : 'Even padding'}</span>
+          <span className={clearSpace.zone_fits ? 'text-neutral-400' : 'text-red-600'}>{clearSpace.zone_fits ? 'Zone inside canvas' : 'Zone exceeds canvas'}</span>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-3">
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-[7px] mono uppercase tracking-[0.2em] text-neutral-400 font-black mr-2">Unit</span>
+          <button onClick={() => onUnitChange({ ...unit, source: 'mark', component: null })} className={chip(unit.source === 'mark')}>Mark_H</button>
+          {components.length > 1 && components.map(c => (
+            <button
+              key={c.id}
+              onClick={() => onUnitChange({ ...unit, source: 'component', component: c.id })}
+              className={chip(unit.source === 'component' && unit.component === c.id)}
+            >
+              C{c.id}_H
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-[7px] mono uppercase tracking-[0.2em] text-neutral-400 font-black">Multiple</span>
+          <input
+            type="range" min={0.1} max={2} step={0.05} value={unit.multiple}
+            onChange={(e) => onUnitChange({ ...unit, multiple: Number(e.target.value) })}
+            className="flex-grow accent-black"
+          />
+          <span className="text-[8px] mono font-black w-24 text-right">{unit.multiple.toFixed(2)} × {clearSpace.unit_px.toFixed(0)}px</span>
+        </div>
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-[7px] mono uppercase tracking-[0.2em] text-neutral-400 font-black mr-2">Padded</span>
+          {PADDED_PRESETS.map(preset => (
+            <button key={preset.id} onClick={() => exportPreset(preset)} disabled={!ready} className={chip(false)} title={`${preset.width}×${preset.height}`}>
+              {preset.label.replace(/ /g, '_')}
+            </button>
+          ))}
+        </div>
+        {error && <p className="text-[8px] mono uppercase tracking-[0.2em] text-red-600 font-black">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ClearSpacePanel;
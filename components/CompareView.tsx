@@ -0,0 +1,196 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ComparisonSubject, ForegroundMask, MetricDelta } from '../types';
+import { extractForeground, loadRaster } from '../utils/analysis';
+import { DEFAULT_SEGMENTATION } from '../utils/segmentation';
+import { compareAnalyses, rubricChange, summarizeDeltas } from '../utils/compare';
+import { formatReading } from '../utils/report';
+import StructuralOverlay from './StructuralOverlay';
+import MaskDiff, { MaskDiffMode } from './MaskDiff';
+
+interface Props {
+  before: ComparisonSubject;
+  after: ComparisonSubject;
+  onNarrate: (deltas: MetricDelta[]) => Promise<string>;
+  onExit: () => void;
+}
+
+export const VERDICT_CLASS: Record<MetricDelta['verdict'], string> = {
+  improved: 'text-green-600',
+  regressed: 'text-red-600',
+  unchanged: 'text-neutral-300',
+  neutral: 'text-neutral-500'
+};
+
+
+export const formatDelta = (d: MetricDelta) =>
+  d.delta === null || d.verdict === 'unchanged' ? '—' : `${d.delta > 0 ? '+' : ''}${Number.isInteger(d.delta) ? d.delta : d.delta.toFixed(3)}`;
+
+// Re-segments a subject with the settings its metrics were taken with, so the masks match the numbers.
+const useSubjectMask = (subject: ComparisonSubject) => {
+  const [mask, setMask] = useState<ForegroundMask | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    setMask(null);
+    const options = subject.metrics.segmentation
+      ? { mode: subject.metrics.segmentation.mode, threshold: subject.metrics.segmentation.threshold }
+      : DEFAULT_SEGMENTATION;
+    loadRaster(subject.imageSrc)
+      .then(raster => { if (!cancelled) setMask(extractForeground(raster, options)); })
+      .catch(() => { if (!cancelled) setMask(null); });
+    return () => { cancelled = true; };
+  }, [subject]);
+  return mask;
+};
+
+const CompareView: React.FC<Props> = ({ before, after, onNarrate, onExit }) => {
+  const [mode, setMode] = useState<MaskDiffMode>('difference');
+  const [mix, setMix] = useState(0.5);
+  const [changedOnly, setChangedOnly] = useState(true);
+  const [narrative, setNarrative] = useState<string | null>(null);
+  const [narrating, setNarrating] = useState(false);
+  const [narrativeError, setNarrativeError] = useState<string | null>(null);
+  const beforeMask = useSubjectMask(before);
+  const afterMask = useSubjectMask(after);
+
+  const deltas = useMemo(
+    () => compareAnalyses(before.metrics, after.metrics, before.analysis.harmony, after.analysis.harmony),
+    [before, after]
+  );
+  const counts = summarizeDeltas(deltas);
+  const shi = deltas[0];
+  const rubric = rubricChange(deltas);
+  const rows = changedOnly ? deltas.filter(d => d.verdict !== 'unchanged') : deltas;
+
+  const narrate = async () => {
+    setNarrating(true);
+    setNarrativeError(null);
+    try {
+      setNarrative(await onNarrate(deltas));
+    } catch (e) {
+      setNarrativeError(e instanceof Error ? e.message : 'Narrative failed.');
+    } finally {
+      setNarrating(false);
+    }
+  };
+
+  const figure = (subject: ComparisonSubject, tag: string) => (
+    <div className="bg-white border border-black p-3 flex flex-col aspect-square relative">
+      <span className="absolute top-3 left-3 text-[6px] mono uppercase text-neutral-300 tracking-[0.3em] font-black bg-white px-1 z-10">
+        {tag} / {subject.name} / {new Date(subject.timestamp).toLocaleDateString()}
+      </span>
+      <span className="absolute top-3 right-3 text-[10px] heading-archivo font-black italic z-10">{subject.analysis.score} <span className="text-[6px] not-italic opacity-30">SHI</span></span>
+      <div className="flex-grow flex items-center justify-center">
+        <StructuralOverlay metrics={subject.metrics} imageSrc={subject.imageSrc} regions={subject.analysis.regions_of_interest} />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="animate-in fade-in duration-1000 pb-12">
+      <div className="flex flex-col md:flex-row items-end justify-between mb-8 gap-4">
+        <div className="flex flex-col">
+          <h2 className="text-[40px] sm:text-[60px] md:text-[80px] font-black tracking-tighter leading-[0.8] uppercase italic heading-archivo select-none">
+            {formatReading(shi.before)}<span className="opacity-20 mx-2">→</span>{formatReading(shi.after)}
+          </h2>
+          <span className="text-[7px] mono uppercase tracking-[0.4em] text-neutral-400 mt-2 font-black">
+            Revision Delta / <span className="text-green-600">{counts.improved} improved</span> / <span className="text-red-600">{counts.regressed} regressed</span>
+            {rubric && <> / <span className="text-orange-600">Rubric v{rubric.before} → v{rubric.after}: SHI not comparable</span></>}
+          </span>
+        </div>
+        <button onClick={onExit} className="px-6 py-3 text-[8px] mono uppercase bg-white text-black border border-black hover:bg-neutral-50 transition-all tracking-[0.3em] font-black">Exit_Compare</button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-5 mb-10">
+        {figure(before, 'Fig.A')}
+        {figure(after, 'Fig.B')}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-5 mb-10">
+        <div className="bg-white border border-black p-5 flex flex-col gap-3">
+          <div className="flex justify-between items-baseline border-b border-neutral-100 pb-2">
+            <h3 className="text-[8px] mono uppercase tracking-[0.4em] text-neutral-300 font-black">Mask Registration</h3>
+            <div className="flex gap-1">
+              {(['difference', 'onion'] as MaskDiffMode[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setMode(option)}
+                  className={`px-2 py-1 text-[7px] mono uppercase font-black tracking-widest border transition-all ${mode === option ? 'bg-black text-white border-black' : 'border-neutral-200 text-neutral-400 hover:border-black hover:text-black'}`}
+                >
+                  {option === 'onion' ? 'Onion_Skin' : 'Difference'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="aspect-square bg-neutral-50 border border-neutral-100 flex items-center justify-center">
+            {beforeMask && afterMask
+              ? <MaskDiff before={beforeMask} after={afterMask} mode={mode} mix={mix} className="max-w-full max-h-full" />
+              : <span className="text-[7px] mono uppercase tracking-[0.3em] text-neutral-300 font-black">Decoding buffers...</span>}
+          </div>
+          {mode === 'onion' ? (
+            <div className="flex items-center gap-3">
+              <span className="text-[7px] mono uppercase font-black text-neutral-400">A</span>
+              <input type="range" min={0} max={1} step={0.05} value={mix} onChange={(e) => setMix(Number(e.target.value))} className="flex-grow accent-black" />
+              <span className="text-[7px] mono uppercase font-black text-neutral-400">B</span>
+            </div>
+          ) : (
+            <div className="flex gap-4 text-[7px] mono uppercase font-black tracking-widest">
+              <span className="flex items-center gap-1"><span className="w-2 h-2 bg-black" />Shared</span>
+              <span className="flex items-center gap-1 text-red-600"><span className="w-2 h-2 bg-red-600" />Removed</span>
+              <span className="flex items-center gap-1 text-blue-600"><span className="w-2 h-2 bg-blue-600" />Added</span>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-black text-white p-5 flex flex-col gap-3 shadow-lg">
+          <h3 className="text-[8px] mono uppercase tracking-[0.4em] text-neutral-600 border-b border-white/10 pb-2 font-black">Revision Narrative</h3>
+          {narrative ? (
+            <p className="text-[11px] leading-relaxed font-light whitespace-pre-line">{narrative}</p>
+          ) : (
+            <p className="text-[9px] mono uppercase tracking-[0.2em] text-neutral-500">Ask the analysis provider what the revision fixed and what it broke.</p>
+          )}
+          {narrativeError && <p className="text-[8px] mono uppercase tracking-[0.2em] text-red-400">{narrativeError}</p>}
+          <button
+            onClick={narrate}
+            disabled={narrating}
+            className="self-start mt-auto px-4 py-2 text-[8px] mono uppercase bg-white text-black font-black tracking-[0.3em] disabled:opacity-30"
+          >
+            {narrating ? 'Narrating...' : narrative ? 'Regenerate' : 'Generate_Narrative'}
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white border border-black p-5 shadow-[6px_6px_0_rgba(0,0,0,0.01)]">
+        <div className="flex justify-between items-baseline border-b border-neutral-100 pb-2 mb-3">
+          <h3 className="text-[8px] mono uppercase tracking-[0.4em] text-neutral-300 font-black">Delta Table</h3>
+          <button onClick={() => setChangedOnly(prev => !prev)} className="text-[7px] mono uppercase font-black tracking-widest border border-black/10 px-2 py-1 hover:border-black transition-all">
+            {changedOnly ? 'Show_All' : 'Changed_Only'}
+          </button>
+        </div>
+        <table className="w-full text-[8px] mono uppercase">
+          <thead>
+            <tr className="text-neutral-400 text-left">
+              <th className="font-black py-1">Group</th>
+              <th className="font-black py-1">Field</th>
+              <th className="font-black py-1 text-right">A</th>
+              <th className="font-black py-1 text-right">B</th>
+              <th className="font-black py-1 text-right">Δ</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(d => (
+              <tr key={d.key} className="border-t border-neutral-50">
+                <td className="py-1 text-neutral-400">{d.group}</td>
+                <td className="py-1 font-bold">{d.label}</td>
+                <td className="py-1 text-right">{formatReading(d.before)}</td>
+                <td className="py-1 text-right">{formatReading(d.after)}</td>
+                <td className={`py-1 text-right font-black ${VERDICT_CLASS[d.verdict]}`}>{formatDelta(d)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { Correction, HarmonyIndex, LogoMetrics, MetricDelta, RasterImage } from '../types';
+import { getLogoMetrics } from '../utils/analysis';
+import { applyCorrection, CORRECTION_LABELS } from '../utils/correction';
+import { compareAnalyses } from '../utils/compare';
+import { computeHarmonyIndex } from '../utils/scoring';
+import { DEFAULT_SEGMENTATION } from '../utils/segmentation';
+import { renderRaster } from '../utils/canvas';
+import { formatReading } from '../utils/report';
+import { downloadBlob } from '../utils/files';
+import { dataUrlToBlob } from '../services/archive';
+import { describeScanError } from '../services/pipeline';
+import { formatDelta, VERDICT_CLASS } from './CompareView';
+
+interface Props {
+  name: string;
+  imageSrc: string;
+  raster: RasterImage | null; // decoded pixels of imageSrc
+  metrics: LogoMetrics;
+  harmony: HarmonyIndex;
+}
+
+interface Preview {
+  correction: Correction;
+  src: string;
+  metrics: LogoMetrics;
+  harmony: HarmonyIndex;
+  deltas: MetricDelta[];
+}
+
+const ASPECTS: { label: string; ratio: number }[] = [
+  { label: '1:1', ratio: 1 },
+  { label: '4:3', ratio: 4 / 3 },
+  { label: '3:2', ratio: 3 / 2 },
+  { label: '16:9', ratio: 16 / 9 },
+  { label: '2:1', ratio: 2 },
+  { label: '4:5', ratio: 4 / 5 }
+];
+
+const KINDS: Correction['kind'][] = ['recentre', 'padding', 'aspect', 'trim', 'extend'];
+
+const chip = (active: boolean) =>
+  `px-2 py-1 text-[7px] mono uppercase font-black tracking-widest border transition-all disabled:opacity-20 ${active ? 'bg-black text-white border-black' : 'border-neutral-100 text-neutral-400 hover:border-black hover:text-black'}`;
+
+// Transparent areas show as a checkerboard so added canvas is visible either way.
+const CHECKER: React.CSSProperties = {
+  backgroundImage: 'repeating-conic-gradient(#f5f5f5 0% 25%, #ffffff 0% 50%)',
+  backgroundSize: '12px 12px'
+};
+
+const CorrectionPanel: React.FC<Props> = ({ name, imageSrc, raster, metrics, harmony }) => {
+  const [kind, setKind] = useState<Correction['kind']>('recentre');
+  const [target, setTarget] = useState<'geometric' | 'optical'>('geometric');
+  const [padding, setPadding] = useState(0.1);
+  const [aspect, setAspect] = useState(1);
+  const [margin, setMargin] = useState(0.05);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new scan or a different archive item invalidates the preview.
+  useEffect(() => {
+    setPreview(null);
+    setError(null);
+  }, [metrics]);
+
+  const ready = !!raster && raster.width === metrics.width && raster.height === metrics.height;
+
+  const correction = (): Correction => {
+    switch (kind) {
+      case 'recentre': return { kind, target: target === 'optical' && metrics.optical ? 'optical' : 'geometric' };
+      case 'padding': return { kind, ratio: padding };
+      case 'aspect': return { kind, ratio: aspect };
+      case 'trim': return { kind };
+      case 'extend': return { kind, ratio: margin };
+    }
+  };
+
+  // Measured the way the original was, so the delta reflects the correction and nothing else.
+  const run = async () => {
+    if (!ready) return;
+    setRunning(true);
+    setError(null);
+    try {
+      const applied = correction();
+      const src = renderRaster(applyCorrection(raster!, metrics, applied).raster);
+      const segmentation = metrics.segmentation
+        ? { mode: metrics.segmentation.mode, threshold: metrics.segmentation.threshold }
+        : DEFAULT_SEGMENTATION;
+      const weighting = { mode: metrics.weighting ?? 'alpha', ground: metrics.optical?.ground ?? null };
+      const corrected = await getLogoMetrics(src, segmentation, weighting);
+      const correctedHarmony = computeHarmonyIndex(corrected);
+      setPreview({
+        correction: applied,
+        src,
+        metrics: corrected,
+        harmony: correctedHarmony,
+        deltas: compareAnalyses(metrics, corrected, harmony, correctedHarmony).filter(d => d.verdict !== 'unchanged')
+      });
+    } catch (err) {
+      setPreview(null);
+      setError(describeScanError(err));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const download = async () => {
+    if (!preview) return;
+    const base = (name || 'artifact').replace(/\.[^.]+$/, '');
+    downloadBlob(await dataUrlToBlob(preview.src), `${base}-${preview.correction.kind}.png`);
+  };
+
+  const figure = (src: string, tag: string, m: LogoMetrics, score: number) => (
+    <div className="flex flex-col gap-1">
+      <div className="flex justify-between text-[6px] mono uppercase tracking-[0.3em] text-neutral-300 font-black">
+        <span>{tag} / {m.width}×{m.height}</span>
+        <span className="text-black">{score} SHI</span>
+      </div>
+      <div className="aspect-square border border-neutral-100 flex items-center justify-center p-2" style={CHECKER}>
+        <img src={src} alt={tag} className="max-w-full max-h-full object-contain" />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-1">
+        {KINDS.map(option => (
+          <button key={option} onClick={() => setKind(option)} className={chip(kind === option)}>{CORRECTION_LABELS[option]}</button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 min-h-[24px]">
+        {kind === 'recentre' && (
+          <div className="flex gap-1">
+            <button onClick={() => setTarget('geometric')} className={chip(target === 'geometric')}>Geometric</button>
+            <button onClick={() => setTarget('optical')} disabled={!metrics.optical} className={chip(target === 'optical' && !!metrics.optical)}>Optical</button>
+          </div>
+        )}
+        {kind === 'padding' && (
+          <>
+            <span className="text-[7px] mono uppercase tracking-[0.2em] text-neutral-400 font-black">Per side</span>
+            <input type="range" min={0} max={0.5} step={0.01} value={padding} onChange={(e) => setPadding(Number(e.target.value))} className="flex-grow accent-black" />
+            <span className="text-[8px] mono font-black w-20 text-right">{(padding * 100).toFixed(0)}% of mark</span>
+          </>
+        )}
+        {kind === 'aspect' && (
+          <div className="flex gap-1">
+            {ASPECTS.map(option => (
+              <button key={option.label} onClick={() => setAspect(option.ratio)} className={chip(aspect === option.ratio)}>{option.label}</button>
+            ))}
+          </div>
+        )}
+        {kind === 'trim' && (
+          <span className="text-[7px] mono uppercase tracking-[0.2em] text-neutral-400 font-black">Crops the canvas to the mark's bounding box</span>
+        )}
+        {kind === 'extend' && (
+          <>
+            <span className="text-[7px] mono uppercase tracking-[0.2em] text-neutral-400 font-black">Per side</span>
+            <input type="range" min={0.01} max={0.5} step={0.01} value={margin} onChange={(e) => setMargin(Number(e.target.value))} className="flex-grow accent-black" />
+            <span className="text-[8px] mono font-black w-20 text-right">{(margin * 100).toFixed(0)}% of canvas</span>
+          </>
+        )}
+        <button
+          onClick={run}
+          disabled={!ready || running}
+          className="ml-auto px-4 py-2 text-[8px] mono uppercase bg-black text-white font-black tracking-[0.3em] disabled:opacity-30"
+        >
+          {running ? 'Measuring...' : 'Preview'}
+        </button>
+      </div>
+
+      {error && <p className="text-[8px] mono uppercase tracking-[0.2em] text-red-600 font-black">{error}</p>}
+
+      {preview && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            {figure(imageSrc, 'Before', metrics, harmony.score)}
+            {figure(preview.src, 'After', preview.metrics, preview.harmony.score)}
+          </div>
+          <table className="w-full text-[8px] mono uppercase">
+            <thead>
+              <tr className="text-neutral-400 text-left">
+                <th className="font-black py-1">Field</th>
+                <th className="font-black py-1 text-right">Before</th>
+                <th className="font-black py-1 text-right">After</th>
+                <th className="font-black py-1 text-right">Δ</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.deltas.map(d => (
+                <tr key={d.key} className="border-t border-neutral-50">
+                  <td className="py-1 font-bold"><span className="text-neutral-400 font-normal mr-2">{d.group}</span>{d.label}</td>
+                  <td className="py-1 text-right">{formatReading(d.before)}</td>
+                  <td className="py-1 text-right">{formatReading(d.after)}</td>
+                  <td className={`py-1 text-right font-black ${VERDICT_CLASS[d.verdict]}`}>{formatDelta(d)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button onClick={download} className="self-start px-4 py-2 text-[8px] mono uppercase border border-black font-black tracking-[0.3em] hover:bg-black hover:text-white transition-all">
+            Download_PNG
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CorrectionPanel;
@@ -0,0 +1,294 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArchivedFamily, FamilyAnalysis, FamilyIssueKind, FamilyMember, FamilyRole, SvgGeometry } from '../types';
+import { describeScanError, measureArtifact, readArtifactFile, ScanOptions } from '../services/pipeline';
+import { analyzeFamily, ComponentSignatures, FAMILY_ROLES, guessFamilyRole } from '../utils/family';
+import { createFamilyDocument, familyToMarkdown } from '../utils/report';
+import { collectDroppedFiles, downloadBlob, isArtifactFile } from '../utils/files';
+
+interface Props {
+  initial: { family: ArchivedFamily; images: string[] } | null; // reopened from the archive
+  scanOptions: Pick<ScanOptions, 'segmentation' | 'weighting' | 'brandBackgrounds'>;
+  svgResolution: number;
+  onSave: (id: string | null, name: string, members: FamilyMember[], analysis: FamilyAnalysis, images: string[]) => Promise<string>;
+  onExit: () => void;
+}
+
+interface Entry {
+  key: number;
+  name: string;
+  role: FamilyRole;
+  imageSrc: string;
+  svgGeometry: SvgGeometry | null;
+  member?: FamilyMember;
+  signatures?: ComponentSignatures;
+  error?: string;
+}
+
+const ISSUE_LABELS: Record<FamilyIssueKind, string> = {
+  missing: 'Missing',
+  redrawn: 'Redrawn',
+  proportion: 'Proportion',
+  density: 'Stroke density',
+  counters: 'Counters'
+};
+
+const FamilyView: React.FC<Props> = ({ initial, scanOptions, svgResolution, onSave, onExit }) => {
+  const [entries, setEntries] = useState<Entry[]>([]);
+  const [name, setName] = useState(initial?.family.name ?? '');
+  const [familyId, setFamilyId] = useState<string | null>(initial?.family.id ?? null);
+  const [measuring, setMeasuring] = useState(0);
+  const [skipped, setSkipped] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const nextKey = useRef(1);
+  const opened = useRef<Props['initial']>(null);
+
+  const patchEntry = (key: number, patch: Partial<Entry>) =>
+    setEntries(prev => prev.map(entry => (entry.key === key ? { ...entry, ...patch } : entry)));
+
+  // Members are measured one after another; each keeps the segmentation it was first measured with.
+  const measure = async (added: Entry[], settings: (entry: Entry, index: number) => Pick<ScanOptions, 'segmentation' | 'weighting'>) => {
+    setEntries(prev => [...prev, ...added]);
+    setMeasuring(prev => prev + added.length);
+    for (const [index, entry] of added.entries()) {
+      try {
+        const { metrics, color, harmony, signatures } = await measureArtifact(entry.imageSrc, {
+          ...settings(entry, index),
+          brandBackgrounds: scanOptions.brandBackgrounds,
+          svgGeometry: entry.svgGeometry
+        });
+        patchEntry(entry.key, { signatures, member: { name: entry.name, role: entry.role, metrics, harmony, color } });
+      } catch (err) {
+        patchEntry(entry.key, { error: describeScanError(err) });
+      } finally {
+        setMeasuring(prev => prev - 1);
+      }
+    }
+  };
+
+  const ingest = async (files: File[]) => {
+    const accepted = files.filter(isArtifactFile);
+    setSkipped(prev => prev + files.length - accepted.length);
+    const added: Entry[] = [];
+    for (const file of accepted) {
+      try {
+        const source = await readArtifactFile(file, svgResolution);
+        added.push({ key: nextKey.current++, name: source.name, role: guessFamilyRole(source.name), imageSrc: source.imageSrc, svgGeometry: source.svgGeometry });
+      } catch (e) {
+        setSkipped(prev => prev + 1);
+      }
+    }
+    measure(added, () => scanOptions);
+  };
+
+  useEffect(() => {
+    if (!initial || opened.current === initial) return;
+    opened.current = initial; // effects run twice under StrictMode
+    const added = initial.family.members.map((member, i) => ({
+      key: nextKey.current++,
+      name: member.name,
+      role: member.role,
+      imageSrc: initial.images[i],
+      svgGeometry: member.metrics.vector ?? null
+    }));
+    measure(added, (_, i) => {
+      const { metrics } = initial.family.members[i];
+      return {
+        segmentation: metrics.segmentation ? { mode: metrics.segmentation.mode, threshold: metrics.segmentation.threshold } : scanOptions.segmentation,
+        weighting: { mode: metrics.weighting ?? 'alpha', ground: metrics.optical?.ground ?? null }
+      };
+    });
+  }, [initial]);
+
+  const measured = entries.filter(entry => entry.member && entry.signatures);
+  const members = useMemo(() => measured.map(entry => ({ ...entry.member!, role: entry.role })), [entries]);
+  const analysis = useMemo(
+    () => (measured.length >= 2 ? analyzeFamily(measured.map((entry, i) => ({ role: entry.role, metrics: members[i].metrics, signatures: entry.signatures! }))) : null),
+    [members]
+  );
+
+  const issuesFor = (index: number) => analysis?.issues.filter(issue => issue.member === index) ?? [];
+  const stamp = new Date().toISOString().slice(0, 10);
+  const base = (name.trim() || 'family').replace(/\s+/g, '-').toLowerCase();
+
+  const save = async () => {
+    if (!analysis) return;
+    setStatus('Saving...');
+    try {
+      setFamilyId(await onSave(familyId, name.trim(), members, analysis, measured.map(entry => entry.imageSrc)));
+      setStatus('Saved to archive');
+    } catch (e) {
+      setStatus('Save failed');
+    }
+  };
+
+  const exportDocument = (format: 'json' | 'md') => {
+    if (!analysis) return;
+    const report = createFamilyDocument(name.trim(), members, analysis);
+    if (format === 'json') downloadBlob(new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }), `${base}-family-${stamp}.json`);
+    else downloadBlob(new Blob([familyToMarkdown(report)], { type: 'text/markdown' }), `${base}-family-${stamp}.md`);
+  };
+
+  const chip = "px-3 py-1.5 text-[7px] mono uppercase font-black tracking-widest border border-black/10 hover:border-black transition-all disabled:opacity-20";
+
+  return (
+    <div
+      className={`animate-in fade-in duration-1000 pb-12 ${isDragging ? 'outline outline-1 outline-dashed outline-black' : ''}`}
+      onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); setIsDragging(true); }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={async (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setIsDragging(false);
+        ingest(await collectDroppedFiles(e.dataTransfer));
+      }}
+    >
+      <div className="flex flex-col md:flex-row items-end justify-between mb-8 gap-4">
+        <div className="flex flex-col">
+          <h2 className="text-[40px] sm:text-[60px] md:text-[80px] font-black tracking-tighter leading-[0.8] uppercase italic heading-archivo select-none">
+            {analysis ? analysis.consistency : '—'}<span className="text-xs not-italic ml-2 opacity-10 font-bold">CONSISTENCY</span>
+          </h2>
+          <span className="text-[7px] mono uppercase tracking-[0.4em] text-neutral-400 mt-2 font-black">
+            Brand Family / {measured.length} measured{measuring > 0 ? ` / ${measuring} pending` : ''} / <span className="text-red-600">{analysis?.issues.length ?? 0} issues</span>{skipped > 0 ? ` / ${skipped} skipped (not an image)` : ''}
+          </span>
+        </div>
+        <button onClick={onExit} className="px-6 py-3 text-[8px] mono uppercase bg-white text-black border border-black hover:bg-neutral-50 transition-all tracking-[0.3em] font-black">Exit_Family</button>
+      </div>
+
+      <div className="bg-white border border-black p-5 mb-5 flex flex-wrap items-center gap-4">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Family name"
+          className="border border-neutral-200 px-2 py-1.5 text-[9px] mono focus:outline-none focus:border-black w-48"
+        />
+        {familyId && <span className="text-[6px] mono uppercase tracking-[0.2em] text-neutral-300 font-black">{familyId}</span>}
+        {status && <span className="text-[6px] mono uppercase tracking-[0.2em] text-neutral-500 font-black">{status}</span>}
+        <div className="flex flex-wrap gap-2 ml-auto">
+          <button onClick={() => fileInputRef.current?.click()} className={chip}>Add_Lockups</button>
+          <button onClick={save} disabled={!analysis || measuring > 0} className={chip}>Save_To_Archive</button>
+          <button onClick={() => exportDocument('json')} disabled={!analysis} className={chip}>Export_JSON</button>
+          <button onClick={() => exportDocument('md')} disabled={!analysis} className={chip}>Export_MD</button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept="image/*,.svg"
+          className="hidden"
+          onChange={(e) => {
+            const files: File[] = Array.from(e.target.files ?? []);
+            e.target.value = '';
+            ingest(files);
+          }}
+        />
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="bg-white border border-black p-5 flex flex-col items-center justify-center py-16 text-neutral-300 mono text-[8px] uppercase tracking-[0.4em] gap-2">
+          <div className="w-5 h-5 border border-dashed border-neutral-200"></div>
+          Drop every lockup of one brand here
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-5">
+          {entries.map(entry => {
+            const index = measured.indexOf(entry);
+            const found = index >= 0 ? analysis?.instances.find(s => s.member === index) : undefined;
+            const flagged = index >= 0 && issuesFor(index).length > 0;
+            const m = entry.member?.metrics;
+            return (
+              <div key={entry.key} className={`bg-white border p-3 flex flex-col gap-2 ${flagged ? 'border-red-600' : 'border-black'}`}>
+                <div className="aspect-square bg-neutral-50 border border-neutral-100 flex items-center justify-center p-2">
+                  {m ? (
+                    <svg viewBox={`0 0 ${m.width} ${m.height}`} className="max-w-full max-h-full">
+                      <image href={entry.imageSrc} width={m.width} height={m.height} />
+                      {found && (
+                        <rect
+                          x={found.boundingBox.x} y={found.boundingBox.y} width={found.boundingBox.width} height={found.boundingBox.height}
+                          fill="none" stroke={index === analysis!.reference ? '#000' : flagged ? '#dc2626' : '#16a34a'}
+                          strokeWidth={Math.max(m.width, m.height) / 150} strokeDasharray={index === analysis!.reference ? undefined : `${Math.max(m.width, m.height) / 60}`}
+                        />
+                      )}
+                    </svg>
+                  ) : (
+                    <img src={entry.imageSrc} className="max-w-full max-h-full opacity-30" alt="" />
+                  )}
+                </div>
+                <div className="flex justify-between items-baseline gap-2">
+                  <span className="text-[8px] mono font-bold truncate">{entry.name}</span>
+                  <span className="text-[8px] mono font-black shrink-0">{entry.member ? `${entry.member.harmony.score} SHI` : entry.error ? '' : '...'}</span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <select
+                    value={entry.role}
+                    onChange={(e) => patchEntry(entry.key, { role: e.target.value as FamilyRole })}
+                    className="flex-grow border border-neutral-200 px-1 py-0.5 text-[7px] mono uppercase font-black focus:outline-none focus:border-black"
+                  >
+                    {FAMILY_ROLES.map(option => <option key={option.role} value={option.role}>{option.label}</option>)}
+                  </select>
+                  <button onClick={() => setEntries(prev => prev.filter(e => e.key !== entry.key))} className="text-[7px] mono uppercase font-black text-neutral-400 hover:text-red-600 px-1">×</button>
+                </div>
+                {index === analysis?.reference && <span className="text-[6px] mono uppercase tracking-[0.2em] font-black">Reference symbol</span>}
+                {entry.error && <span className="text-[6px] mono uppercase tracking-[0.2em] text-red-600 font-black">{entry.error}</span>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {analysis && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+          <div className="bg-white border border-black p-5 overflow-x-auto">
+            <h3 className="text-[7px] mono uppercase tracking-[0.4em] text-neutral-400 font-black mb-3">Symbol Across Lockups</h3>
+            <table className="w-full text-[8px] mono uppercase">
+              <thead>
+                <tr className="text-neutral-400 text-left">
+                  <th className="font-black py-1">Member</th>
+                  <th className="font-black py-1 text-right">Match</th>
+                  <th className="font-black py-1 text-right">Scale</th>
+                  <th className="font-black py-1 text-right">Density</th>
+                  <th className="font-black py-1 text-right">Aspect</th>
+                  <th className="font-black py-1 text-right">Counters</th>
+                </tr>
+              </thead>
+              <tbody>
+                {members.map((member, i) => {
+                  const found = analysis.instances.find(s => s.member === i);
+                  return (
+                    <tr key={i} className="border-t border-neutral-50">
+                      <td className="py-1 font-bold normal-case truncate max-w-[120px]">{member.name}<span className="text-neutral-400 font-normal ml-2 uppercase">{member.role}</span></td>
+                      <td className="py-1 text-right">{found ? `${(found.similarity * 100).toFixed(1)}%` : '—'}</td>
+                      <td className="py-1 text-right">{found ? found.scale.toFixed(3) : '—'}</td>
+                      <td className="py-1 text-right">{found ? `${found.density.toFixed(1)}%` : '—'}</td>
+                      <td className="py-1 text-right">{found ? found.aspect_ratio.toFixed(3) : '—'}</td>
+                      <td className="py-1 text-right">{found ? found.holes : '—'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div className="bg-white border border-black p-5">
+            <h3 className="text-[7px] mono uppercase tracking-[0.4em] text-neutral-400 font-black mb-3">Inconsistencies</h3>
+            {analysis.issues.length === 0 ? (
+              <p className="text-[8px] mono uppercase tracking-[0.2em] text-green-600 font-black">Symbol consistent across every lockup</p>
+            ) : (
+              <ul className="space-y-2">
+                {analysis.issues.map((issue, i) => (
+                  <li key={i} className="text-[8px] mono leading-relaxed">
+                    <span className="uppercase font-black text-red-600 mr-2">{ISSUE_LABELS[issue.kind]}</span>
+                    <span className="font-bold mr-2">{members[issue.member].name}</span>
+                    <span className="text-neutral-500">{issue.detail}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FamilyView;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { HarmonyIndex } from '../types';
+
+interface Props {
+  harmony: HarmonyIndex;
+}
+
+// Per-criterion sub-scores of the SHI; bar length is the sub-score, bar weight label its share of the index.
+const HarmonyBreakdown: React.FC<Props> = ({ harmony }) => (
+  <div className="space-y-2">
+    {harmony.criteria.map(criterion => (
+      <div key={criterion.id} className="grid grid-cols-[1fr_2fr_auto] items-center gap-3 text-[8px] mono uppercase tracking-[0.15em]">
+        <span className="font-black truncate">{criterion.label}</span>
+        <div className="h-1.5 bg-neutral-100 relative overflow-hidden">
+          <div
+            className={`absolute inset-y-0 left-0 transition-all duration-1000 ${criterion.score < 50 ? 'bg-red-600' : 'bg-black'}`}
+            style={{ width: `${criterion.score}%` }}
+          />
+        </div>
+        <span className="font-black w-16 text-right">
+          {criterion.score.toFixed(0)} <span className="text-neutral-300">×{criterion.weight}</span>
+        </span>
+      </div>
+    ))}
+    <div className="text-[6px] mono uppercase tracking-[0.3em] text-neutral-300 font-black pt-1">Rubric v{harmony.version} / weighted mean</div>
+  </div>
+);
+
+export default HarmonyBreakdown;
@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { LegibilityMetrics } from '../types';
+import { renderThumbnail } from '../utils/canvas';
+
+interface Props {
+  legibility: LegibilityMetrics;
+  imageSrc: string;
+}
+
+const LegibilityTable: React.FC<Props> = ({ legibility, imageSrc }) => {
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(legibility.samples.map(async sample => [sample.size, await renderThumbnail(imageSrc, sample.width, sample.height)] as const))
+      .then(entries => { if (!cancelled) setThumbnails(Object.fromEntries(entries)); })
+      .catch(() => { if (!cancelled) setThumbnails({}); });
+    return () => { cancelled = true; };
+  }, [legibility, imageSrc]);
+
+  return (
+    <table className="w-full text-[8px] mono uppercase tracking-[0.1em]">
+      <thead>
+        <tr className="text-neutral-400 text-left border-b border-neutral-100">
+          <th className="py-2 font-black">Size</th>
+          <th className="py-2 font-black">Render</th>
+          <th className="py-2 font-black text-right">IoU</th>
+          <th className="py-2 font-black text-right">Shapes</th>
+          <th className="py-2 font-black text-right">Min_Stroke</th>
+          <th className="py-2 font-black pl-4">Loss</th>
+        </tr>
+      </thead>
+      <tbody>
+        {legibility.samples.map(sample => {
+          const losses = [
+            ...sample.vanished_components.map(id => `C${id} vanishes`),
+            ...sample.merged_components.map(group => `${group.map(id => `C${id}`).join('+')} merge`)
+          ];
+          return (
+            <tr key={sample.size} className="border-b border-neutral-50 align-middle">
+              <td className="py-2 font-black">{sample.size}px</td>
+              <td className="py-2">
+                <div className="w-12 h-12 bg-neutral-50 border border-neutral-100 flex items-center justify-center">
+                  {thumbnails[sample.size] && (
+                    <img src={thumbnails[sample.size]} alt={`${sample.size}px render`} className="max-w-full max-h-full" style={{ imageRendering: 'pixelated' }} />
+                  )}
+                </div>
+              </td>
+              <td className={`py-2 text-right font-black ${sample.iou < 0.7 ? 'text-red-600' : ''}`}>{(sample.iou * 100).toFixed(1)}%</td>
+              <td className="py-2 text-right">{sample.component_count}</td>
+              <td className={`py-2 text-right ${sample.min_stroke_px < 1 ? 'text-red-600 font-black' : ''}`}>{sample.min_stroke_px.toFixed(2)}px</td>
+              <td className="py-2 pl-4 text-neutral-500 normal-case">{losses.length > 0 ? losses.join(', ') : '—'}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+};
+
+export default LegibilityTable;
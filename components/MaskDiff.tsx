@@ -0,0 +1,72 @@
+import React, { useEffect, useRef } from 'react';
+import { ForegroundMask } from '../types';
+
+export type MaskDiffMode = 'onion' | 'difference';
+
+interface Props {
+  before: ForegroundMask;
+  after: ForegroundMask;
+  mode: MaskDiffMode;
+  mix: number; // onion-skin opacity of the revision, 0-1
+  size?: number;
+  className?: string;
+}
+
+// Both masks are fitted into one square frame (aspect kept, centred), so canvases of different
+// sizes still register by relative position.
+const fitMask = (mask: ForegroundMask, size: number): Uint8Array => {
+  const scale = Math.min(size / mask.width, size / mask.height);
+  const offsetX = (size - mask.width * scale) / 2;
+  const offsetY = (size - mask.height * scale) / 2;
+  const out = new Uint8Array(size * size);
+  for (let y = 0; y < size; y++) {
+    const sy = Math.floor((y - offsetY) / scale);
+    if (sy < 0 || sy >= mask.height) continue;
+    for (let x = 0; x < size; x++) {
+      const sx = Math.floor((x - offsetX) / scale);
+      if (sx < 0 || sx >= mask.width) continue;
+      out[y * size + x] = mask.data[sy * mask.width + sx] > 0 ? 1 : 0;
+    }
+  }
+  return out;
+};
+
+// Difference: shared ink black, removed ink red, added ink blue. Onion: earlier mask grey, revision
+// layered over it at the chosen opacity.
+const MaskDiff: React.FC<Props> = ({ before, after, mode, mix, size = 512, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    canvas.width = size;
+    canvas.height = size;
+    const a = fitMask(before, size);
+    const b = fitMask(after, size);
+    const image = ctx.createImageData(size, size);
+    for (let i = 0; i < a.length; i++) {
+      let r = 255, g = 255, bl = 255;
+      if (mode === 'difference') {
+        if (a[i] && b[i]) { r = 0; g = 0; bl = 0; }
+        else if (a[i]) { r = 220; g = 38; bl = 38; }
+        else if (b[i]) { r = 37; g = 99; bl = 235; }
+      } else {
+        const base = a[i] ? 160 : 255;
+        const top = b[i] ? 0 : base;
+        r = g = bl = Math.round(base + (top - base) * mix);
+      }
+      const idx = i * 4;
+      image.data[idx] = r;
+      image.data[idx + 1] = g;
+      image.data[idx + 2] = bl;
+      image.data[idx + 3] = 255;
+    }
+    ctx.putImageData(image, 0, 0);
+  }, [before, after, mode, mix, size]);
+
+  return <canvas ref={canvasRef} className={className} />;
+};
+
+export default MaskDiff;
@@ -0,0 +1,35 @@
+import React, { useEffect, useRef } from 'react';
+import { ForegroundMask } from '../types';
+
+interface Props {
+  mask: ForegroundMask;
+  className?: string;
+}
+
+// Renders the segmentation result as ink-on-paper so the isolated foreground can be checked before a scan.
+const MaskPreview: React.FC<Props> = ({ mask, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    canvas.width = mask.width;
+    canvas.height = mask.height;
+    const image = ctx.createImageData(mask.width, mask.height);
+    for (let i = 0; i < mask.data.length; i++) {
+      const ink = mask.data[i] > 0 ? 0 : 255;
+      const idx = i * 4;
+      image.data[idx] = ink;
+      image.data[idx + 1] = ink;
+      image.data[idx + 2] = ink;
+      image.data[idx + 3] = 255;
+    }
+    ctx.putImageData(image, 0, 0);
+  }, [mask]);
+
+  return <canvas ref={canvasRef} className={className} />;
+};
+
+export default MaskPreview;
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { ColorMetrics } from '../types';
+import { parseHex } from '../utils/color';
+
+interface Props {
+  color: ColorMetrics;
+  brandBackgrounds: string[];
+  onBackgroundsChange: (backgrounds: string[]) => void;
+}
+
+// WCAG 2.x thresholds for graphical objects (3:1) and body text (4.5:1).
+const contrastGrade = (ratio: number) => {
+  if (ratio >= 4.5) return { label: 'AA', className: 'text-black' };
+  if (ratio >= 3) return { label: 'UI', className: 'text-neutral-500' };
+  return { label: 'FAIL', className: 'text-red-600' };
+};
+
+const PalettePanel: React.FC<Props> = ({ color, brandBackgrounds, onBackgroundsChange }) => {
+  const [draft, setDraft] = useState('');
+  const draftValid = parseHex(draft) !== null;
+
+  const addBackground = () => {
+    if (!draftValid) return;
+    const hex = draft.startsWith('#') ? draft.toUpperCase() : `#${draft.toUpperCase()}`;
+    if (!brandBackgrounds.includes(hex)) onBackgroundsChange([...brandBackgrounds, hex]);
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex h-3 w-full border border-neutral-100">
+        {color.palette.map(entry => (
+          <div key={entry.hex} style={{ width: `${entry.coverage * 100}%`, backgroundColor: entry.hex }} title={entry.hex} />
+        ))}
+      </div>
+
+      <table className="w-full text-[8px] mono uppercase tracking-[0.1em]">
+        <thead>
+          <tr className="text-neutral-400 text-left border-b border-neutral-100">
+            <th className="py-2 font-black">Ink</th>
+            <th className="py-2 font-black text-right">Cover</th>
+            {color.backgrounds.map(hex => (
+              <th key={hex} className="py-2 font-black text-right">
+                <span className="inline-block w-2 h-2 border border-neutral-200 mr-1 align-middle" style={{ backgroundColor: hex }} />
+                {hex}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {color.palette.map(entry => (
+            <tr key={entry.hex} className="border-b border-neutral-50">
+              <td className="py-2 font-black">
+                <span className="inline-block w-2.5 h-2.5 border border-neutral-200 mr-1.5 align-middle" style={{ backgroundColor: entry.hex }} />
+                {entry.hex}
+              </td>
+              <td className="py-2 text-right">{(entry.coverage * 100).toFixed(1)}%</td>
+              {color.backgrounds.map(hex => {
+                const ratio = entry.contrast[hex] ?? 1;
+                const grade = contrastGrade(ratio);
+                return (
+                  <td key={hex} className={`py-2 text-right ${grade.className}`}>
+                    {ratio.toFixed(2)}:1 <span className="text-[6px] font-black">{grade.label}</span>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex gap-2 items-center">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') addBackground(); }}
+          placeholder="#BRAND_BG"
+          className="flex-grow border border-neutral-100 px-2 py-1 text-[8px] mono uppercase focus:outline-none focus:border-black"
+        />
+        <button
+          onClick={addBackground}
+          disabled={!draftValid}
+          className="text-[7px] mono uppercase font-black tracking-widest border border-black/10 px-2 py-1 hover:border-black transition-all disabled:opacity-20"
+        >
+          Add_Surface
+        </button>
+        {brandBackgrounds.length > 0 && (
+          <button
+            onClick={() => onBackgroundsChange([])}
+            className="text-[7px] mono uppercase font-black tracking-widest text-neutral-400 hover:text-black transition-all"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {color.conflicts.length > 0 && (
+        <div className="border-t border-neutral-100 pt-3 space-y-1">
+          <span className="text-[6px] mono uppercase text-red-600 tracking-widest font-black block mb-1">Discrimination Warnings:</span>
+          {color.conflicts.map((conflict, i) => (
+            <div key={i} className="text-[8px] mono uppercase text-neutral-600 flex items-center gap-1.5">
+              <span className="inline-block w-2 h-2" style={{ backgroundColor: conflict.a }} />
+              <span className="inline-block w-2 h-2" style={{ backgroundColor: conflict.b }} />
+              {conflict.a} / {conflict.b} merge under {conflict.condition} (ΔE {conflict.delta_e.toFixed(1)})
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PalettePanel;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { PROVIDER_OPTIONS, ProviderSettings } from '../services/provider';
+
+interface Props {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+}
+
+const fieldClass = "w-full border border-neutral-200 px-3 py-2 text-[10px] mono focus:outline-none focus:border-black bg-white";
+const labelClass = "mono text-[8px] text-neutral-400 mb-2 tracking-[0.4em] uppercase font-bold block";
+const IMAGE_SIZES = [512, 1024, 1536];
+
+const ProviderSettingsPanel: React.FC<Props> = ({ settings, onChange }) => {
+  const update = (patch: Partial<ProviderSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="flex flex-col gap-8">
+      <section>
+        <span className={labelClass}>01 / Provider</span>
+        <div className="grid grid-cols-3 gap-2">
+          {PROVIDER_OPTIONS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => update({ provider: option.id, model: option.defaultModel })}
+              className={`px-3 py-2 text-[8px] mono uppercase font-black tracking-widest border transition-all ${settings.provider === option.id ? 'bg-black text-white border-black' : 'border-neutral-200 text-neutral-400 hover:border-black hover:text-black'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </section>
+
+      {settings.provider !== 'offline' ? (
+        <>
+          <section>
+            <label className={labelClass} htmlFor="provider-model">02 / Model</label>
+            <input id="provider-model" className={fieldClass} value={settings.model} onChange={(e) => update({ model: e.target.value })} />
+          </section>
+          {settings.provider === 'openai' && (
+            <section>
+              <label className={labelClass} htmlFor="provider-url">03 / Base URL</label>
+              <input id="provider-url" className={fieldClass} value={settings.baseUrl} onChange={(e) => update({ baseUrl: e.target.value })} placeholder="http://localhost:11434/v1" />
+            </section>
+          )}
+          <section>
+            <label className={labelClass} htmlFor="provider-key">{settings.provider === 'openai' ? '04' : '03'} / API Key</label>
+            <input id="provider-key" type="password" className={fieldClass} value={settings.apiKey} onChange={(e) => update({ apiKey: e.target.value })} placeholder={settings.provider === 'gemini' ? 'Defaults to build-time GEMINI_API_KEY' : 'Optional for self-hosted endpoints'} />
+            <p className="text-neutral-500 text-[9px] leading-relaxed mt-2">Stored in this browser only.</p>
+          </section>
+          <section>
+            <span className={labelClass}>{settings.provider === 'openai' ? '05' : '04'} / Visual Input</span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => update({ sendImages: !settings.sendImages })}
+                className={`px-3 py-2 text-[8px] mono uppercase font-black tracking-widest border transition-all ${settings.sendImages ? 'bg-black text-white border-black' : 'border-neutral-200 text-neutral-400 hover:border-black hover:text-black'}`}
+              >
+                {settings.sendImages ? 'Images: On' : 'Images: Off'}
+              </button>
+              {IMAGE_SIZES.map(size => (
+                <button
+                  key={size}
+                  disabled={!settings.sendImages}
+                  onClick={() => update({ imageMaxSize: size })}
+                  className={`px-3 py-2 text-[8px] mono uppercase font-black tracking-widest border transition-all disabled:opacity-30 ${settings.imageMaxSize === size ? 'border-black text-black' : 'border-neutral-200 text-neutral-400 hover:border-black hover:text-black'}`}
+                >
+                  {size}px
+                </button>
+              ))}
+            </div>
+            <p className="text-neutral-500 text-[9px] leading-relaxed mt-2">Sends the artifact and its structural plate, downscaled to this edge length. Requires a vision-capable model.</p>
+          </section>
+        </>
+      ) : (
+        <p className="text-sm font-light leading-relaxed">Reports are written locally from metric templates. No network access; no market grounding.</p>
+      )}
+    </div>
+  );
+};
+
+export default ProviderSettingsPanel;
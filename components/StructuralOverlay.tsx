@@ -1,13 +1,46 @@
 
 import React from 'react';
-import { LogoMetrics } from '../types';
+import { ClearSpaceMetrics, LogoMetrics, RegionOfInterest } from '../types';
+import { CONSTRUCTION_LABELS } from '../utils/construction';
+
+export type OverlayLayer = 'artifact' | 'mask' | 'grid' | 'thirds' | 'construction' | 'clearspace' | 'bbox' | 'contours' | 'components' | 'symmetry' | 'centroid' | 'regions';
+
+export const OVERLAY_LAYERS: { id: OverlayLayer; label: string }[] = [
+  { id: 'artifact', label: 'Artifact' },
+  { id: 'mask', label: 'Mask' },
+  { id: 'grid', label: 'Grid' },
+  { id: 'thirds', label: 'Thirds' },
+  { id: 'construction', label: 'Construction' },
+  { id: 'clearspace', label: 'Clear Space' },
+  { id: 'bbox', label: 'BBox' },
+  { id: 'contours', label: 'Contours' },
+  { id: 'components', label: 'Components' },
+  { id: 'symmetry', label: 'Symmetry' },
+  { id: 'centroid', label: 'Centroid' },
+  { id: 'regions', label: 'Regions' }
+];
+
+export const DEFAULT_OVERLAY_LAYERS: Record<OverlayLayer, boolean> = {
+  artifact: true, mask: false, grid: true, thirds: false, construction: true, clearspace: true, bbox: true, contours: true,
+  components: true, symmetry: true, centroid: true, regions: true
+};
 
 interface Props {
   metrics: LogoMetrics;
   imageSrc: string;
+  regions?: RegionOfInterest[];
+  layers?: Record<OverlayLayer, boolean>;
+  maskSrc?: string | null; // segmentation mask as a transparent PNG, canvas-sized
+  artifactOpacity?: number;
+  plates?: boolean; // HTML data-plates in the corners
+  fill?: boolean; // fill the parent instead of sizing as a square from its width
+  clearSpace?: ClearSpaceMetrics | null; // overrides the scan's default exclusion zone
+  children?: React.ReactNode; // extra SVG drawn on top, in canvas px
 }
 
-const StructuralOverlay: React.FC<Props> = ({ metrics, imageSrc }) => {
+const StructuralOverlay: React.FC<Props> = ({
+  metrics, imageSrc, regions = [], layers = DEFAULT_OVERLAY_LAYERS, maskSrc, artifactOpacity = 0.1, plates = true, fill = false, clearSpace, children
+}) => {
   const { width, height, boundingBox, centerOfMass } = metrics;
   
   // Grid divisions
@@ -16,15 +49,25 @@ const StructuralOverlay: React.FC<Props> = ({ metrics, imageSrc }) => {
   const h1 = height / 3;
   const h2 = (height / 3) * 2;
 
+  // Detected mirror axis, extended past the canvas so the SVG viewport clips it.
+  const axis = metrics.symmetry;
+  const reach = Math.hypot(width, height);
+  const axisRad = axis ? (axis.axis_angle * Math.PI) / 180 : 0;
+  const axisDx = Math.sin(axisRad) * reach;
+  const axisDy = Math.cos(axisRad) * reach;
+
+  const optical = metrics.optical;
+  const opticalMode = metrics.weighting === 'optical' && !!optical;
+  const tick = Math.min(width, height) * 0.02;
+
+  const zone = (clearSpace ?? metrics.clear_space)?.zone;
+  const hatch = Math.max(2, Math.min(width, height) * 0.012);
+
+  const construction = metrics.construction;
+  const guides = construction?.best ? construction.guides : null;
+
   return (
-    <div className="relative w-full aspect-square bg-transparent flex items-center justify-center overflow-hidden">
-      {/* Ghost Artifact */}
-      <img 
-        src={imageSrc} 
-        alt="Background artifact" 
-        className="max-w-[90%] max-h-[90%] object-contain opacity-10 grayscale transition-opacity duration-1000 blur-[2px] mix-blend-multiply"
-      />
-      
+    <div className={`relative w-full ${fill ? 'h-full' : 'aspect-square'} bg-transparent flex items-center justify-center overflow-hidden`}>
       {/* Precision Diagnostics SVG */}
       <svg 
         viewBox={`0 0 ${width} ${height}`} 
@@ -36,20 +79,82 @@ const StructuralOverlay: React.FC<Props> = ({ metrics, imageSrc }) => {
             <stop offset="0%" stopColor="black" stopOpacity="0.15" />
             <stop offset="100%" stopColor="black" stopOpacity="0" />
           </radialGradient>
+          <pattern id="clearSpaceHatch" patternUnits="userSpaceOnUse" width={hatch} height={hatch} patternTransform="rotate(45)">
+            <line x1="0" y1="0" x2="0" y2={hatch} stroke="#0891b2" strokeWidth={hatch * 0.25} />
+          </pattern>
         </defs>
 
+        {/* Ghost Artifact, registered to the canvas (exports replace it with their own underlay) */}
+        {layers.artifact && (
+          <image
+            data-layer="artifact"
+            href={imageSrc} x="0" y="0" width={width} height={height} preserveAspectRatio="none"
+            opacity={artifactOpacity} style={{ filter: 'grayscale(1)' }}
+          />
+        )}
+
+        {/* Segmentation Mask */}
+        {layers.mask && maskSrc && (
+          <image href={maskSrc} x="0" y="0" width={width} height={height} preserveAspectRatio="none" opacity="0.35" style={{ imageRendering: 'pixelated' }} />
+        )}
+
         {/* Global Grid */}
-        <line x1={width/2} y1="0" x2={width/2} y2={height} stroke="black" strokeWidth="0.5" strokeDasharray="3 3" opacity="0.1" />
-        <line x1="0" y1={height/2} x2={width} y2={height/2} stroke="black" strokeWidth="0.5" strokeDasharray="3 3" opacity="0.1" />
+        {layers.grid && (
+          <g>
+            <line x1={width/2} y1="0" x2={width/2} y2={height} stroke="black" strokeWidth="0.5" strokeDasharray="3 3" opacity="0.1" vectorEffect="non-scaling-stroke" />
+            <line x1="0" y1={height/2} x2={width} y2={height/2} stroke="black" strokeWidth="0.5" strokeDasharray="3 3" opacity="0.1" vectorEffect="non-scaling-stroke" />
+          </g>
+        )}
 
         {/* Thirds System */}
-        <line x1={v1} y1="0" x2={v1} y2={height} stroke="#ddd" strokeWidth="0.5" opacity="0.3" />
-        <line x1={v2} y1="0" x2={v2} y2={height} stroke="#ddd" strokeWidth="0.5" opacity="0.3" />
-        <line x1="0" y1={h1} x2={width} y2={h1} stroke="#ddd" strokeWidth="0.5" opacity="0.3" />
-        <line x1="0" y1={h2} x2={width} y2={h2} stroke="#ddd" strokeWidth="0.5" opacity="0.3" />
+        {layers.thirds && (
+          <g>
+            <line x1={v1} y1="0" x2={v1} y2={height} stroke="#ddd" strokeWidth="0.5" opacity="0.3" vectorEffect="non-scaling-stroke" />
+            <line x1={v2} y1="0" x2={v2} y2={height} stroke="#ddd" strokeWidth="0.5" opacity="0.3" vectorEffect="non-scaling-stroke" />
+            <line x1="0" y1={h1} x2={width} y2={h1} stroke="#ddd" strokeWidth="0.5" opacity="0.3" vectorEffect="non-scaling-stroke" />
+            <line x1="0" y1={h2} x2={width} y2={h2} stroke="#ddd" strokeWidth="0.5" opacity="0.3" vectorEffect="non-scaling-stroke" />
+          </g>
+        )}
+
+        {/* Best-fit Construction System, drawn over the mark's frame */}
+        {layers.construction && guides && (
+          <g stroke="#7c3aed" fill="none" strokeWidth="0.5" vectorEffect="non-scaling-stroke" opacity="0.7">
+            <rect x={guides.frame.x} y={guides.frame.y} width={guides.frame.width} height={guides.frame.height} strokeDasharray="2 2" vectorEffect="non-scaling-stroke" />
+            {guides.vertical.map((x, i) => (
+              <line key={`v${i}`} x1={x} y1={guides.frame.y} x2={x} y2={guides.frame.y + guides.frame.height} vectorEffect="non-scaling-stroke" />
+            ))}
+            {guides.horizontal.map((y, i) => (
+              <line key={`h${i}`} x1={guides.frame.x} y1={y} x2={guides.frame.x + guides.frame.width} y2={y} vectorEffect="non-scaling-stroke" />
+            ))}
+            {guides.circles.map((c, i) => (
+              <circle key={`c${i}`} cx={c.x} cy={c.y} r={c.r} strokeDasharray="4 2" vectorEffect="non-scaling-stroke" />
+            ))}
+            <text
+              x={guides.frame.x} y={guides.frame.y + guides.frame.height + Math.min(width, height) * 0.03}
+              fontSize={Math.min(width, height) * 0.022} fill="#7c3aed" stroke="none"
+              fontFamily="JetBrains Mono, monospace" fontWeight="bold"
+            >
+              {CONSTRUCTION_LABELS[construction!.best!].toUpperCase()} / {(construction!.fits[0].fit * 100).toFixed(0)}%
+            </text>
+          </g>
+        )}
+
+        {/* Clear-space Exclusion Zone: hatched between the mark's box and the zone edge */}
+        {layers.clearspace && zone && (
+          <g>
+            <path
+              d={`M ${zone.x} ${zone.y} h ${zone.width} v ${zone.height} h ${-zone.width} Z M ${boundingBox.x} ${boundingBox.y} v ${boundingBox.height} h ${boundingBox.width} v ${-boundingBox.height} Z`}
+              fill="url(#clearSpaceHatch)" fillRule="evenodd" opacity="0.35"
+            />
+            <rect
+              x={zone.x} y={zone.y} width={zone.width} height={zone.height}
+              fill="none" stroke="#0891b2" strokeWidth="0.5" strokeDasharray="3 2" vectorEffect="non-scaling-stroke"
+            />
+          </g>
+        )}
 
         {/* Bounding Constraint */}
-        <rect 
+        {layers.bbox && <rect 
           x={boundingBox.x} 
           y={boundingBox.y} 
           width={boundingBox.width} 
@@ -59,51 +164,184 @@ const StructuralOverlay: React.FC<Props> = ({ metrics, imageSrc }) => {
           strokeWidth="0.5" 
           vectorEffect="non-scaling-stroke"
           opacity="0.4"
-        />
-
-        {/* Centroid Identification */}
-        <circle cx={centerOfMass.x} cy={centerOfMass.y} r={Math.min(width, height) * 0.12} fill="url(#centroidGlow)" />
-        <circle cx={centerOfMass.x} cy={centerOfMass.y} r="2.5" fill="black" />
-        
-        {/* Bias Vectors */}
-        <line x1={width/2} y1={height/2} x2={centerOfMass.x} y2={centerOfMass.y} stroke="black" strokeWidth="0.3" strokeDasharray="1 1" />
-        
+        />}
+
+        {/* Convex Hull & Traced Contours */}
+        {layers.contours && metrics.shape && (
+          <g fill="none" vectorEffect="non-scaling-stroke">
+            <polygon
+              points={metrics.shape.hull.map(p => `${p.x},${p.y}`).join(' ')}
+              stroke="black" strokeWidth="0.5" strokeDasharray="1 2" opacity="0.35"
+              vectorEffect="non-scaling-stroke"
+            />
+            {metrics.shape.contours.map((contour, i) => (
+              <polygon
+                key={i}
+                points={contour.map(p => `${p.x + 0.5},${p.y + 0.5}`).join(' ')}
+                stroke="black" strokeWidth="0.5" opacity="0.5"
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          </g>
+        )}
+
+        {/* Component Outlines */}
+        {layers.components && metrics.topology && metrics.topology.component_count > 1 && (
+          <g>
+            {metrics.topology.components.map(component => (
+              <g key={component.id}>
+                <rect
+                  x={component.boundingBox.x - 0.5}
+                  y={component.boundingBox.y - 0.5}
+                  width={component.boundingBox.width + 1}
+                  height={component.boundingBox.height + 1}
+                  fill="none" stroke="#2563eb" strokeWidth="0.5" strokeDasharray="2 1"
+                  vectorEffect="non-scaling-stroke" opacity="0.5"
+                />
+                <text
+                  x={component.boundingBox.x}
+                  y={component.boundingBox.y - Math.min(width, height) * 0.01}
+                  fontSize={Math.min(width, height) * 0.03}
+                  fill="#2563eb" fontFamily="JetBrains Mono, monospace" fontWeight="bold"
+                >
+                  C{component.id}{component.holes > 0 ? ` /${component.holes}H` : ''}
+                </text>
+              </g>
+            ))}
+          </g>
+        )}
+
+        {/* Detected Symmetry Axis, plus the centroid mirror axes weighted by their scores */}
+        {layers.symmetry && axis && (
+          <g>
+            <line
+              x1={centerOfMass.x} y1="0" x2={centerOfMass.x} y2={height}
+              stroke="#dc2626" strokeWidth="0.5" strokeDasharray="1 3"
+              vectorEffect="non-scaling-stroke" opacity={axis.mirror_vertical_centroid * 0.4}
+            />
+            <line
+              x1="0" y1={centerOfMass.y} x2={width} y2={centerOfMass.y}
+              stroke="#dc2626" strokeWidth="0.5" strokeDasharray="1 3"
+              vectorEffect="non-scaling-stroke" opacity={axis.mirror_horizontal_centroid * 0.4}
+            />
+          </g>
+        )}
+        {layers.symmetry && axis && (
+          <line
+            x1={centerOfMass.x - axisDx} y1={centerOfMass.y - axisDy}
+            x2={centerOfMass.x + axisDx} y2={centerOfMass.y + axisDy}
+            stroke="#dc2626" strokeWidth="0.75" strokeDasharray="4 2"
+            vectorEffect="non-scaling-stroke" opacity={0.3 + axis.axis_score * 0.5}
+          />
+        )}
+
+        {/* Centroid Identification & Bias Vector */}
+        {layers.centroid && (
+          <g>
+            <circle cx={centerOfMass.x} cy={centerOfMass.y} r={Math.min(width, height) * 0.12} fill="url(#centroidGlow)" />
+            <circle cx={centerOfMass.x} cy={centerOfMass.y} r="2.5" fill="black" />
+            {!opticalMode && <line x1={width/2} y1={height/2} x2={centerOfMass.x} y2={centerOfMass.y} stroke="black" strokeWidth="0.3" strokeDasharray="1 1" />}
+          </g>
+        )}
+
+        {/* Optical Centroid, its target above the canvas centre, and the bias vector when it drives the offsets */}
+        {layers.centroid && optical && (
+          <g stroke="#0d9488" fill="none" vectorEffect="non-scaling-stroke">
+            <path
+              d={`M ${optical.target.x - tick} ${optical.target.y} H ${optical.target.x + tick} M ${optical.target.x} ${optical.target.y - tick} V ${optical.target.y + tick}`}
+              strokeWidth="0.75" vectorEffect="non-scaling-stroke"
+            />
+            <circle cx={optical.centroid.x} cy={optical.centroid.y} r={tick * 0.6} strokeWidth="1" vectorEffect="non-scaling-stroke" />
+            {opticalMode && (
+              <line
+                x1={optical.target.x} y1={optical.target.y} x2={optical.centroid.x} y2={optical.centroid.y}
+                strokeWidth="0.5" strokeDasharray="1 1" vectorEffect="non-scaling-stroke"
+              />
+            )}
+          </g>
+        )}
+
+        {/* Model Callouts (box_2d is normalized to 0-1000) */}
+        {layers.regions && regions.map((region, i) => {
+          const [ymin, xmin, ymax, xmax] = region.box_2d;
+          const x = (xmin / 1000) * width;
+          const y = (ymin / 1000) * height;
+          const tag = Math.min(width, height) * 0.035;
+          return (
+            <g key={i}>
+              <title>{`${region.label}: ${region.note}`}</title>
+              <rect
+                x={x} y={y} width={((xmax - xmin) / 1000) * width} height={((ymax - ymin) / 1000) * height}
+                fill="#ea580c" fillOpacity="0.06" stroke="#ea580c" strokeWidth="0.75"
+                vectorEffect="non-scaling-stroke"
+              />
+              <rect x={x} y={Math.max(0, y - tag)} width={tag * 1.6} height={tag} fill="#ea580c" />
+              <text
+                x={x + tag * 0.8} y={Math.max(0, y - tag) + tag * 0.72}
+                fontSize={tag * 0.7} textAnchor="middle"
+                fill="white" fontFamily="JetBrains Mono, monospace" fontWeight="bold"
+              >
+                R{i + 1}
+              </text>
+              <text
+                x={x + tag * 1.8} y={Math.max(0, y - tag) + tag * 0.72}
+                fontSize={tag * 0.6}
+                fill="#ea580c" fontFamily="JetBrains Mono, monospace" fontWeight="bold"
+              >
+                {region.label.toUpperCase()}
+              </text>
+            </g>
+          );
+        })}
+
         {/* Corner Precision Notches */}
-        <g stroke="black" strokeWidth="0.75" fill="none" opacity="0.6">
+        {layers.bbox && <g stroke="black" strokeWidth="0.75" fill="none" opacity="0.6">
           <path d={`M ${boundingBox.x},${boundingBox.y + 6} V ${boundingBox.y} H ${boundingBox.x + 6}`} />
           <path d={`M ${boundingBox.x + boundingBox.width - 6},${boundingBox.y} H ${boundingBox.x + boundingBox.width} V ${boundingBox.y + 6}`} />
           <path d={`M ${boundingBox.x},${boundingBox.y + boundingBox.height - 6} V ${boundingBox.y + boundingBox.height} H ${boundingBox.x + 6}`} />
           <path d={`M ${boundingBox.x + boundingBox.width - 6},${boundingBox.y + boundingBox.height} H ${boundingBox.x + boundingBox.width} V ${boundingBox.y + boundingBox.height - 6}`} />
-        </g>
+        </g>}
+
+        {children}
       </svg>
       
       {/* Real-time Metadata Data-plates */}
-      <div className="absolute top-2 left-2 text-[5px] mono text-neutral-300 uppercase select-none font-bold">
-        TRACE_ENGAGED
-      </div>
-      <div className="absolute top-2 right-2 text-[5px] mono text-neutral-300 text-right uppercase select-none">
-        {boundingBox.width.toFixed(0)}x{boundingBox.height.toFixed(0)}
-      </div>
+      {plates && (
+        <>
+          <div className="absolute top-2 left-2 text-[5px] mono text-neutral-300 uppercase select-none font-bold">
+            TRACE_ENGAGED
+          </div>
+          <div className="absolute top-2 right-2 text-[5px] mono text-neutral-300 text-right uppercase select-none">
+            {boundingBox.width.toFixed(0)}x{boundingBox.height.toFixed(0)}
+          </div>
       
-      <div className="absolute bottom-2 left-2 flex flex-col gap-0.5">
-        <div className="bg-black text-white text-[6px] mono px-1 py-0.5 tracking-tighter">CENTROID: {centerOfMass.x.toFixed(0)}, {centerOfMass.y.toFixed(0)}</div>
-        <div className="bg-white/90 backdrop-blur-sm border border-neutral-100 text-[6px] mono px-1 py-0.5 text-neutral-400">Δ: {metrics.center_offset_x.toFixed(2)}%</div>
-      </div>
-
-      {/* Volumetric Balance Gauge */}
-      <div className="absolute right-2 bottom-2 flex flex-col items-end gap-1">
-        <div className="flex gap-0.5 h-0.5 w-16 bg-neutral-100 overflow-hidden">
-          <div 
-            className="bg-black h-full transition-all duration-1000" 
-            style={{ width: `${metrics.weight_left}%`, opacity: 0.8 }} 
-          />
-          <div 
-            className="bg-neutral-300 h-full transition-all duration-1000" 
-            style={{ width: `${metrics.weight_right}%` }} 
-          />
-        </div>
-        <div className="text-[5px] mono text-neutral-400 uppercase font-bold">Vol_Bal</div>
-      </div>
+          <div className="absolute bottom-2 left-2 flex flex-col gap-0.5">
+            <div className="bg-black text-white text-[6px] mono px-1 py-0.5 tracking-tighter">CENTROID: {centerOfMass.x.toFixed(0)}, {centerOfMass.y.toFixed(0)}</div>
+            {optical && (
+              <div className="bg-white/90 backdrop-blur-sm border border-teal-100 text-[6px] mono px-1 py-0.5 text-teal-600">OPTICAL: {optical.centroid.x.toFixed(0)}, {optical.centroid.y.toFixed(0)}</div>
+            )}
+            <div className="bg-white/90 backdrop-blur-sm border border-neutral-100 text-[6px] mono px-1 py-0.5 text-neutral-400">Δ{opticalMode ? '_OPT' : ''}: {metrics.center_offset_x.toFixed(2)}%</div>
+            {axis && (
+              <div className="bg-white/90 backdrop-blur-sm border border-red-100 text-[6px] mono px-1 py-0.5 text-red-600">AXIS: {axis.axis_angle.toFixed(1)}° / {(axis.axis_score * 100).toFixed(0)}%</div>
+            )}
+          </div>
+
+          {/* Volumetric Balance Gauge */}
+          <div className="absolute right-2 bottom-2 flex flex-col items-end gap-1">
+            <div className="flex gap-0.5 h-0.5 w-16 bg-neutral-100 overflow-hidden">
+              <div 
+                className="bg-black h-full transition-all duration-1000" 
+                style={{ width: `${metrics.weight_left}%`, opacity: 0.8 }} 
+              />
+              <div 
+                className="bg-neutral-300 h-full transition-all duration-1000" 
+                style={{ width: `${metrics.weight_right}%` }} 
+              />
+            </div>
+            <div className="text-[5px] mono text-neutral-400 uppercase font-bold">Vol_Bal</div>
+          </div>
+        </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,269 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ClearSpaceMetrics, ForegroundMask, LogoMetrics, Point, RegionOfInterest } from '../types';
+import { renderMaskImage } from '../utils/canvas';
+import StructuralOverlay, { DEFAULT_OVERLAY_LAYERS, OVERLAY_LAYERS } from './StructuralOverlay';
+
+interface Props {
+  metrics: LogoMetrics;
+  imageSrc: string;
+  regions?: RegionOfInterest[];
+  mask?: ForegroundMask | null; // must match the metrics canvas; other sizes are ignored
+  clearSpace?: ClearSpaceMetrics | null; // zone for the chosen unit, instead of the scan's default
+}
+
+type Tool = 'inspect' | 'measure';
+
+interface Guide {
+  a: Point;
+  b: Point;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 32;
+const CLICK_SLOP = 3; // px of pointer travel before a press counts as a pan rather than a click
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+// Degrees counter-clockwise from the positive x axis, as a protractor reads on screen.
+const angle = (a: Point, b: Point) => (Math.atan2(a.y - b.y, b.x - a.x) * 180) / Math.PI;
+
+const chip = (active: boolean) =>
+  `px-2 py-1 text-[7px] mono uppercase tracking-[0.2em] font-black border transition-all ${active ? 'bg-black text-white border-black' : 'bg-white text-neutral-400 border-neutral-200 hover:border-black hover:text-black'}`;
+
+// Zoomable, pannable Euclidean Trace with layer toggles, a hover readout and a ruler. Wheel zooms
+// about the cursor; drag pans; in measure mode two clicks place a guide.
+const TraceViewer: React.FC<Props> = ({ metrics, imageSrc, regions, mask, clearSpace }) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [layers, setLayers] = useState(DEFAULT_OVERLAY_LAYERS);
+  const [artifactOpacity, setArtifactOpacity] = useState(0.1);
+  const [zoom, setZoom] = useState(1);
+  const [pan, setPan] = useState<Point>({ x: 0, y: 0 });
+  const [tool, setTool] = useState<Tool>('inspect');
+  const [guides, setGuides] = useState<Guide[]>([]);
+  const [anchor, setAnchor] = useState<Point | null>(null); // first click of a guide in progress
+  const [hover, setHover] = useState<Point | null>(null);
+  const [fullscreen, setFullscreen] = useState(false);
+  const drag = useRef<{ startX: number; startY: number; pan: Point; moved: boolean } | null>(null);
+  const view = useRef({ zoom, pan });
+  view.current = { zoom, pan };
+
+  const { width, height, centerOfMass } = metrics;
+  const unit = Math.min(width, height) / zoom; // canvas px that keep a constant on-screen size
+  const maskSrc = useMemo(
+    () => (mask && mask.width === width && mask.height === height ? renderMaskImage(mask) : null),
+    [mask, width, height]
+  );
+
+  useEffect(() => {
+    setZoom(1);
+    setPan({ x: 0, y: 0 });
+    setGuides([]);
+    setAnchor(null);
+  }, [metrics]);
+
+  useEffect(() => {
+    if (!fullscreen) return;
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') setFullscreen(false); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [fullscreen]);
+
+  const zoomAt = (next: number, originX: number, originY: number) => {
+    const { zoom: current, pan: offset } = view.current;
+    const target = clamp(next, MIN_ZOOM, MAX_ZOOM);
+    const ratio = target / current;
+    setZoom(target);
+    setPan(target === MIN_ZOOM ? { x: 0, y: 0 } : { x: originX - (originX - offset.x) * ratio, y: originY - (originY - offset.y) * ratio });
+  };
+
+  // React registers wheel listeners as passive, which would let the page scroll under the zoom.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      zoomAt(view.current.zoom * Math.exp(-e.deltaY * 0.0015), e.clientX - rect.left, e.clientY - rect.top);
+    };
+    viewport.addEventListener('wheel', onWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', onWheel);
+  }, [fullscreen]);
+
+  const zoomCentre = (factor: number) => {
+    const rect = viewportRef.current?.getBoundingClientRect();
+    if (rect) zoomAt(zoom * factor, rect.width / 2, rect.height / 2);
+  };
+
+  // Screen to canvas px through the SVG's own transform, which already includes zoom and pan.
+  const toCanvas = (clientX: number, clientY: number): Point | null => {
+    const svg = viewportRef.current?.querySelector('svg');
+    const matrix = svg?.getScreenCTM();
+    if (!matrix) return null;
+    const p = new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse());
+    return p.x >= 0 && p.y >= 0 && p.x <= width && p.y <= height ? { x: p.x, y: p.y } : null;
+  };
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { startX: e.clientX, startY: e.clientY, pan, moved: false };
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    setHover(toCanvas(e.clientX, e.clientY));
+    const d = drag.current;
+    if (!d) return;
+    const dx = e.clientX - d.startX;
+    const dy = e.clientY - d.startY;
+    if (!d.moved && Math.hypot(dx, dy) < CLICK_SLOP) return;
+    d.moved = true;
+    if (zoom > MIN_ZOOM) setPan({ x: d.pan.x + dx, y: d.pan.y + dy });
+  };
+
+  const onPointerUp = (e: React.PointerEvent) => {
+    const d = drag.current;
+    drag.current = null;
+    if (!d || d.moved || tool !== 'measure') return;
+    const point = toCanvas(e.clientX, e.clientY);
+    if (!point) return;
+    if (anchor) {
+      setGuides(prev => [...prev, { a: anchor, b: point }]);
+      setAnchor(null);
+    } else {
+      setAnchor(point);
+    }
+  };
+
+  const inked = hover && mask && maskSrc ? mask.data[Math.floor(hover.y) * width + Math.floor(hover.x)] > 0 : null;
+
+  const guideLabel = (a: Point, b: Point, tag: string) => (
+    <text
+      x={(a.x + b.x) / 2 + unit * 0.015} y={(a.y + b.y) / 2 - unit * 0.015}
+      fontSize={unit * 0.028} fill="#0891b2" fontFamily="JetBrains Mono, monospace" fontWeight="bold"
+      stroke="white" strokeWidth={unit * 0.006} paintOrder="stroke"
+    >
+      {tag} {distance(a, b).toFixed(1)}px / {angle(a, b).toFixed(1)}°
+    </text>
+  );
+
+  const body = (
+    <div className={`flex flex-col gap-2 ${fullscreen ? 'h-full' : 'w-full'}`}>
+      <div className="flex flex-wrap items-center gap-1">
+        {OVERLAY_LAYERS.map(layer => (
+          <button
+            key={layer.id}
+            onClick={() => setLayers(prev => ({ ...prev, [layer.id]: !prev[layer.id] }))}
+            disabled={layer.id === 'mask' && !maskSrc}
+            className={`${chip(layers[layer.id])} disabled:opacity-30`}
+          >
+            {layer.label}
+          </button>
+        ))}
+        {layers.artifact && (
+          <label className="flex items-center gap-1 ml-1 text-[7px] mono uppercase tracking-[0.2em] text-neutral-400 font-black">
+            Ink
+            <input
+              type="range" min={0.05} max={1} step={0.05} value={artifactOpacity}
+              onChange={e => setArtifactOpacity(Number(e.target.value))}
+              className="w-16 accent-black"
+            />
+          </label>
+        )}
+      </div>
+
+      <div
+        ref={viewportRef}
+        className={`relative overflow-hidden bg-white border border-neutral-100 touch-none select-none ${fullscreen ? 'flex-grow' : 'aspect-square'} ${tool === 'measure' ? 'cursor-crosshair' : zoom > MIN_ZOOM ? 'cursor-grab active:cursor-grabbing' : 'cursor-default'}`}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerLeave={() => setHover(null)}
+        onDoubleClick={() => zoomAt(1, 0, 0)}
+      >
+        <div className="absolute inset-0" style={{ transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})`, transformOrigin: '0 0' }}>
+          <StructuralOverlay
+            metrics={metrics} imageSrc={imageSrc} regions={regions} clearSpace={clearSpace}
+            layers={layers} maskSrc={maskSrc} artifactOpacity={artifactOpacity} plates={zoom === MIN_ZOOM && !fullscreen} fill
+          >
+            {guides.map((guide, i) => (
+              <g key={i}>
+                <line x1={guide.a.x} y1={guide.a.y} x2={guide.b.x} y2={guide.b.y} stroke="#0891b2" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+                <circle cx={guide.a.x} cy={guide.a.y} r={unit * 0.006} fill="#0891b2" />
+                <circle cx={guide.b.x} cy={guide.b.y} r={unit * 0.006} fill="#0891b2" />
+                {guideLabel(guide.a, guide.b, `G${i + 1}`)}
+              </g>
+            ))}
+            {anchor && (
+              <g>
+                <circle cx={anchor.x} cy={anchor.y} r={unit * 0.006} fill="#0891b2" />
+                {hover && (
+                  <>
+                    <line x1={anchor.x} y1={anchor.y} x2={hover.x} y2={hover.y} stroke="#0891b2" strokeWidth="1" strokeDasharray="3 2" vectorEffect="non-scaling-stroke" />
+                    {guideLabel(anchor, hover, `G${guides.length + 1}`)}
+                  </>
+                )}
+              </g>
+            )}
+            {hover && (
+              <g stroke="#0891b2" strokeWidth="0.5" opacity="0.5" vectorEffect="non-scaling-stroke">
+                <line x1={hover.x} y1="0" x2={hover.x} y2={height} vectorEffect="non-scaling-stroke" />
+                <line x1="0" y1={hover.y} x2={width} y2={hover.y} vectorEffect="non-scaling-stroke" />
+              </g>
+            )}
+          </StructuralOverlay>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <button onClick={() => { setTool('inspect'); setAnchor(null); }} className={chip(tool === 'inspect')}>Inspect</button>
+          <button onClick={() => setTool('measure')} className={chip(tool === 'measure')}>Measure</button>
+          <span className="w-2" />
+          <button onClick={() => zoomCentre(1 / 1.5)} disabled={zoom <= MIN_ZOOM} className={`${chip(false)} disabled:opacity-30`}>−</button>
+          <span className="text-[7px] mono font-black w-10 text-center">{Math.round(zoom * 100)}%</span>
+          <button onClick={() => zoomCentre(1.5)} disabled={zoom >= MAX_ZOOM} className={`${chip(false)} disabled:opacity-30`}>+</button>
+          <button onClick={() => zoomAt(1, 0, 0)} className={chip(false)}>Fit</button>
+          <button onClick={() => setFullscreen(!fullscreen)} className={chip(fullscreen)}>{fullscreen ? 'Exit_Full' : 'Full_Screen'}</button>
+        </div>
+        <div className="text-[7px] mono uppercase tracking-[0.15em] text-neutral-500 font-black flex gap-3">
+          {hover ? (
+            <>
+              <span>X {hover.x.toFixed(1)} Y {hover.y.toFixed(1)}</span>
+              <span>Δ_Centroid {distance(hover, centerOfMass).toFixed(1)}px</span>
+              {metrics.optical && <span className="text-teal-600">Δ_Optical {distance(hover, metrics.optical.centroid).toFixed(1)}px</span>}
+              <span>Δ_Centre {distance(hover, { x: width / 2, y: height / 2 }).toFixed(1)}px</span>
+              {inked !== null && <span className={inked ? 'text-black' : 'text-neutral-300'}>{inked ? 'Ink' : 'Ground'}</span>}
+            </>
+          ) : (
+            <span className="text-neutral-300">{tool === 'measure' ? (anchor ? 'Click to end the guide' : 'Click to start a guide') : 'Wheel to zoom / drag to pan'}</span>
+          )}
+        </div>
+      </div>
+
+      {guides.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          {guides.map((guide, i) => (
+            <button
+              key={i}
+              onClick={() => setGuides(prev => prev.filter((_, j) => j !== i))}
+              title="Remove guide"
+              className="px-2 py-1 text-[7px] mono uppercase tracking-[0.15em] font-black border border-cyan-600 text-cyan-700 hover:bg-cyan-50"
+            >
+              G{i + 1} {distance(guide.a, guide.b).toFixed(1)}px / {angle(guide.a, guide.b).toFixed(1)}° ×
+            </button>
+          ))}
+          <button onClick={() => setGuides([])} className={chip(false)}>Clear_Guides</button>
+        </div>
+      )}
+    </div>
+  );
+
+  return fullscreen ? (
+    <div className="fixed inset-0 z-[150] bg-[#fafafa] p-6 flex flex-col">
+      <span className="text-[8px] mono uppercase tracking-[0.4em] text-neutral-400 font-black mb-3">Fig.01 / Euclidean Trace / Esc to close</span>
+      {body}
+    </div>
+  ) : body;
+};
+
+export default TraceViewer;
@@ -0,0 +1,232 @@
+import { ArchivedAnalysis, ArchivedFamily, ArchiveQuery, LogoMetrics, AnalysisResponse, ColorMetrics } from "../types";
+import { renderDownscaled } from "../utils/canvas";
+
+const DB_NAME = 'axiom';
+const DB_VERSION = 2;
+const RECORDS = 'records';
+const IMAGES = 'images';
+const FAMILIES = 'families';
+const LEGACY_KEY = 'axiom_archive_v1';
+const THUMBNAIL_SIZE = 96;
+
+export const DEFAULT_ARCHIVE_QUERY: ArchiveQuery = { search: '', tag: null, minScore: 0, sinceDays: null, sort: 'date_desc' };
+
+// Shape of the entries the localStorage archive wrote before the move to IndexedDB.
+interface LegacyArchivedAnalysis {
+  id: string;
+  timestamp: number;
+  imageSrc: string;
+  score: number;
+  metrics: LogoMetrics;
+  analysis: AnalysisResponse;
+  color?: ColorMetrics;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RECORDS)) db.createObjectStore(RECORDS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(IMAGES)) db.createObjectStore(IMAGES);
+        if (!db.objectStoreNames.contains(FAMILIES)) db.createObjectStore(FAMILIES, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const awaitRequest = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const awaitTransaction = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+});
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+export const createThumbnail = (imageSrc: string) => renderDownscaled(imageSrc, THUMBNAIL_SIZE);
+
+export const listArchive = async (): Promise<ArchivedAnalysis[]> => {
+  const db = await openDatabase();
+  const records = await awaitRequest(db.transaction(RECORDS, 'readonly').objectStore(RECORDS).getAll() as IDBRequest<ArchivedAnalysis[]>);
+  return records.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const hasArchiveEntry = async (id: string): Promise<boolean> => {
+  const db = await openDatabase();
+  return (await awaitRequest(db.transaction(RECORDS, 'readonly').objectStore(RECORDS).count(id))) > 0;
+};
+
+// Record and image are written in one transaction, so a quota failure leaves neither behind.
+export const saveArchiveEntry = async (entry: ArchivedAnalysis, image: Blob): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([RECORDS, IMAGES], 'readwrite');
+  tx.objectStore(RECORDS).put(entry);
+  tx.objectStore(IMAGES).put(image, entry.id);
+  await awaitTransaction(tx);
+};
+
+export const updateArchiveEntry = async (id: string, patch: Partial<Pick<ArchivedAnalysis, 'name' | 'tags'>>): Promise<ArchivedAnalysis> => {
+  const db = await openDatabase();
+  const tx = db.transaction(RECORDS, 'readwrite');
+  const store = tx.objectStore(RECORDS);
+  const current = await awaitRequest(store.get(id) as IDBRequest<ArchivedAnalysis | undefined>);
+  if (!current) throw new Error(`Archive entry ${id} not found`);
+  const updated = { ...current, ...patch };
+  store.put(updated);
+  await awaitTransaction(tx);
+  return updated;
+};
+
+export const deleteArchiveEntry = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([RECORDS, IMAGES], 'readwrite');
+  tx.objectStore(RECORDS).delete(id);
+  tx.objectStore(IMAGES).delete(id);
+  await awaitTransaction(tx);
+};
+
+// Bulk write in one transaction: with `replace`, the current records go first, and a failure
+// anywhere rolls the whole batch back, clear included.
+export const writeArchiveEntries = async (items: { entry: ArchivedAnalysis; image: Blob }[], replace = false): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([RECORDS, IMAGES], 'readwrite');
+  const records = tx.objectStore(RECORDS);
+  const images = tx.objectStore(IMAGES);
+  if (replace) {
+    // Families keep their images in the same store and are not part of bundles, so only record images go.
+    const ids = await awaitRequest(records.getAllKeys());
+    ids.forEach(id => images.delete(id));
+    records.clear();
+  }
+  items.forEach(({ entry, image }) => {
+    records.put(entry);
+    images.put(image, entry.id);
+  });
+  await awaitTransaction(tx);
+};
+
+export const generateArchiveId = (taken: Set<string> = new Set()) => {
+  let id: string;
+  do {
+    id = `AX-${Math.floor(Math.random() * 99999).toString().padStart(5, '0')}`;
+  } while (taken.has(id));
+  return id;
+};
+
+export const loadArchiveImage = async (id: string): Promise<Blob> => {
+  const db = await openDatabase();
+  const blob = await awaitRequest(db.transaction(IMAGES, 'readonly').objectStore(IMAGES).get(id) as IDBRequest<Blob | undefined>);
+  if (!blob) throw new Error(`Archive image ${id} not found`);
+  return blob;
+};
+
+export const generateFamilyId = (taken: Set<string> = new Set()) => {
+  let id: string;
+  do {
+    id = `FX-${Math.floor(Math.random() * 99999).toString().padStart(5, '0')}`;
+  } while (taken.has(id));
+  return id;
+};
+
+const familyImageKey = (id: string, index: number) => `${id}/${index}`;
+
+export const listFamilies = async (): Promise<ArchivedFamily[]> => {
+  const db = await openDatabase();
+  const families = await awaitRequest(db.transaction(FAMILIES, 'readonly').objectStore(FAMILIES).getAll() as IDBRequest<ArchivedFamily[]>);
+  return families.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+// A family is one unit: its record and every member image go in together, replacing any previous save.
+export const saveFamily = async (family: ArchivedFamily, images: Blob[]): Promise<void> => {
+  const db = await openDatabase();
+  const previous = await awaitRequest(db.transaction(FAMILIES, 'readonly').objectStore(FAMILIES).get(family.id) as IDBRequest<ArchivedFamily | undefined>);
+  const tx = db.transaction([FAMILIES, IMAGES], 'readwrite');
+  const store = tx.objectStore(IMAGES);
+  for (let i = images.length; i < (previous?.members.length ?? 0); i++) store.delete(familyImageKey(family.id, i));
+  images.forEach((image, i) => store.put(image, familyImageKey(family.id, i)));
+  tx.objectStore(FAMILIES).put(family);
+  await awaitTransaction(tx);
+};
+
+export const loadFamilyImages = async (family: ArchivedFamily): Promise<Blob[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(IMAGES, 'readonly').objectStore(IMAGES);
+  const blobs = await Promise.all(family.members.map((_, i) => awaitRequest(store.get(familyImageKey(family.id, i)) as IDBRequest<Blob | undefined>)));
+  const missing = blobs.findIndex(blob => !blob);
+  if (missing >= 0) throw new Error(`Family image ${familyImageKey(family.id, missing)} not found`);
+  return blobs as Blob[];
+};
+
+export const deleteFamily = async (family: ArchivedFamily): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([FAMILIES, IMAGES], 'readwrite');
+  tx.objectStore(FAMILIES).delete(family.id);
+  family.members.forEach((_, i) => tx.objectStore(IMAGES).delete(familyImageKey(family.id, i)));
+  await awaitTransaction(tx);
+};
+
+// Builds a fresh record for a finished scan under an id not yet in the store.
+export const createArchiveEntry = async (name: string, imageSrc: string, scan: Pick<ArchivedAnalysis, 'metrics' | 'analysis' | 'color'>): Promise<ArchivedAnalysis> => {
+  let id = generateArchiveId();
+  while (await hasArchiveEntry(id)) id = generateArchiveId();
+  return {
+    id,
+    name: name || id,
+    tags: [],
+    timestamp: Date.now(),
+    score: scan.analysis.score,
+    thumbnail: await createThumbnail(imageSrc).catch(() => ''),
+    metrics: scan.metrics,
+    analysis: scan.analysis,
+    ...(scan.color ? { color: scan.color } : {})
+  };
+};
+
+// One-shot import of the localStorage archive. The legacy key is only removed once every entry is stored.
+export const migrateLegacyArchive = async (): Promise<number> => {
+  const saved = localStorage.getItem(LEGACY_KEY);
+  if (!saved) return 0;
+  const legacy: LegacyArchivedAnalysis[] = JSON.parse(saved);
+  for (const item of legacy) {
+    const { imageSrc, ...rest } = item;
+    const thumbnail = await createThumbnail(imageSrc).catch(() => '');
+    await saveArchiveEntry({ ...rest, name: item.id, tags: [], thumbnail }, await dataUrlToBlob(imageSrc));
+  }
+  localStorage.removeItem(LEGACY_KEY);
+  return legacy.length;
+};
+
+export const archiveTags = (entries: ArchivedAnalysis[]) => Array.from(new Set(entries.flatMap(entry => entry.tags))).sort();
+
+export const queryArchive = (entries: ArchivedAnalysis[], query: ArchiveQuery, now = Date.now()): ArchivedAnalysis[] => {
+  const needle = query.search.trim().toLowerCase();
+  const cutoff = query.sinceDays === null ? -Infinity : now - query.sinceDays * 86400000;
+  const filtered = entries.filter(entry =>
+    entry.score >= query.minScore &&
+    entry.timestamp >= cutoff &&
+    (query.tag === null || entry.tags.includes(query.tag)) &&
+    (needle === '' || [entry.name, entry.id, ...entry.tags].some(field => field.toLowerCase().includes(needle)))
+  );
+  const [key, direction] = query.sort.split('_') as ['date' | 'score', 'asc' | 'desc'];
+  const sign = direction === 'asc' ? 1 : -1;
+  return filtered.sort((a, b) => sign * (key === 'score' ? a.score - b.score || a.timestamp - b.timestamp : a.timestamp - b.timestamp));
+};
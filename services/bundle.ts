@@ -0,0 +1,163 @@
+import { ArchiveBundle, ArchiveBundleEntry, ArchivedAnalysis, ImportSummary } from "../types";
+import { blobToDataUrl, createThumbnail, dataUrlToBlob, generateArchiveId, loadArchiveImage, writeArchiveEntries } from "./archive";
+import { isRecord, validateAnalysisResponse, ValidationResult } from "./validation";
+import { downloadBlob } from "../utils/files";
+import { reportId } from "../utils/report";
+
+export const BUNDLE_FORMAT = 'axiom-archive';
+export const BUNDLE_VERSION = 2;
+
+// Version history:
+//   1: bare JSON array of the old localStorage records, image inline as `imageSrc`, no name or tags.
+//   2: { format, version, exported_at, entries: [{ record, image }] }.
+
+export const createBundle = async (entries: ArchivedAnalysis[]): Promise<ArchiveBundle> => {
+  const packed: ArchiveBundleEntry[] = [];
+  for (const record of entries) {
+    packed.push({ record, image: await blobToDataUrl(await loadArchiveImage(record.id)) });
+  }
+  return { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exported_at: Date.now(), entries: packed };
+};
+
+export const downloadBundle = (bundle: ArchiveBundle, fileName: string) =>
+  downloadBlob(new Blob([JSON.stringify(bundle)], { type: 'application/json' }), fileName);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const NUMERIC_METRICS = ['width', 'height', 'aspect_ratio', 'center_offset_x', 'center_offset_y', 'weight_left', 'weight_right', 'weight_top', 'weight_bottom', 'density', 'complexity_index'];
+const SYMMETRY_BUCKETS = ['high', 'medium', 'low'];
+const OPTIONAL_SECTIONS = ['symmetry', 'topology', 'shape', 'legibility', 'vector', 'construction', 'clear_space', 'optical', 'segmentation'];
+
+// The fields every view and export reads unconditionally; optional sections only need to be objects.
+const validateMetrics = (metrics: unknown): string[] => {
+  if (!isRecord(metrics)) return ['metrics are missing'];
+  const issues = NUMERIC_METRICS.filter(field => !isNumber(metrics[field])).map(field => `metrics.${field} must be a number`);
+  ['symmetry_vertical', 'symmetry_horizontal'].forEach(field => {
+    if (!SYMMETRY_BUCKETS.includes(metrics[field] as string)) issues.push(`metrics.${field} must be high, medium or low`);
+  });
+  const box = metrics.boundingBox;
+  if (!isRecord(box) || !['x', 'y', 'width', 'height'].every(k => isNumber(box[k]))) issues.push('metrics.boundingBox must be { x, y, width, height }');
+  const com = metrics.centerOfMass;
+  if (!isRecord(com) || !isNumber(com.x) || !isNumber(com.y)) issues.push('metrics.centerOfMass must be { x, y }');
+  OPTIONAL_SECTIONS.forEach(section => {
+    if (metrics[section] !== undefined && !isRecord(metrics[section])) issues.push(`metrics.${section} must be an object`);
+  });
+  return issues;
+};
+
+const validateColor = (color: unknown): string[] => {
+  if (!isRecord(color)) return ['color must be an object'];
+  const palette = color.palette;
+  const issues: string[] = [];
+  if (!Array.isArray(palette) || !palette.every(p => isRecord(p) && typeof p.hex === 'string' && isNumber(p.coverage))) issues.push('color.palette must be an array of { hex, coverage }');
+  if (!Array.isArray(color.conflicts)) issues.push('color.conflicts must be an array');
+  if (!Array.isArray(color.backgrounds)) issues.push('color.backgrounds must be an array');
+  return issues;
+};
+
+// Checks one entry against the current record shape, upgrading version-1 fields on the way.
+const validateEntry = (raw: unknown, version: number): ValidationResult<ArchiveBundleEntry> => {
+  if (!isRecord(raw)) return { ok: false, issues: ['entry is not an object'] };
+  const record = version === 1 ? raw : raw.record;
+  const image = version === 1 ? raw.imageSrc : raw.image;
+  if (!isRecord(record)) return { ok: false, issues: ['record is missing'] };
+
+  const issues: string[] = [];
+  if (typeof record.id !== 'string' || record.id.trim() === '') issues.push('id must be a non-empty string');
+  if (!isNumber(record.timestamp)) issues.push('timestamp must be a number');
+  if (typeof image !== 'string' || !image.startsWith('data:image/')) issues.push('image must be an image data URL');
+  const metrics = record.metrics;
+  issues.push(...validateMetrics(metrics));
+  const analysis = validateAnalysisResponse(record.analysis);
+  if (!analysis.ok) issues.push(...analysis.issues.map(issue => `analysis: ${issue}`));
+  if (record.tags !== undefined && !(Array.isArray(record.tags) && record.tags.every(tag => typeof tag === 'string'))) issues.push('tags must be an array of strings');
+  if (record.color !== undefined && record.color !== null) issues.push(...validateColor(record.color));
+  if (issues.length > 0) return { ok: false, issues };
+
+  return {
+    ok: true,
+    value: {
+      record: {
+        id: record.id as string,
+        name: typeof record.name === 'string' && record.name.trim() !== '' ? record.name : record.id as string,
+        tags: (record.tags as string[] | undefined) ?? [],
+        timestamp: record.timestamp as number,
+        score: isNumber(record.score) ? record.score : analysis.value.score,
+        thumbnail: typeof record.thumbnail === 'string' ? record.thumbnail : '',
+        metrics: metrics as unknown as ArchivedAnalysis['metrics'],
+        analysis: analysis.value,
+        ...(record.color ? { color: record.color as unknown as ArchivedAnalysis['color'] } : {})
+      },
+      image: image as string
+    }
+  };
+};
+
+export const parseBundle = (raw: unknown): ValidationResult<{ entries: ArchiveBundleEntry[]; rejected: string[] }> => {
+  let version: number;
+  let items: unknown[];
+  if (Array.isArray(raw)) {
+    version = 1;
+    items = raw;
+  } else if (isRecord(raw) && raw.format === BUNDLE_FORMAT && isNumber(raw.version) && Array.isArray(raw.entries)) {
+    version = raw.version;
+    items = raw.entries;
+  } else {
+    return { ok: false, issues: ['file is not an AXIOM archive bundle'] };
+  }
+  if (version > BUNDLE_VERSION) return { ok: false, issues: [`bundle version ${version} is newer than this build supports (${BUNDLE_VERSION})`] };
+
+  const entries: ArchiveBundleEntry[] = [];
+  const rejected: string[] = [];
+  items.forEach((item, i) => {
+    const result = validateEntry(item, version);
+    if (result.ok) entries.push(result.value);
+    else rejected.push(`entry ${i + 1}: ${result.issues.join('; ')}`);
+  });
+  return { ok: true, value: { entries, rejected } };
+};
+
+// Same id, timestamp and report id means the same analysis came back; anything else under a known id is a collision.
+const isDuplicate = (a: ArchivedAnalysis, b: ArchivedAnalysis) =>
+  a.timestamp === b.timestamp && reportId(a.metrics, a.analysis) === reportId(b.metrics, b.analysis);
+
+// Merge keeps the current archive and folds the bundle in; replace clears it first (full restore).
+// Every image is decoded before the store is touched, and the writes land in one transaction,
+// so a bad bundle or a quota failure leaves the archive as it was.
+export const importBundle = async (raw: unknown, existing: ArchivedAnalysis[], mode: 'merge' | 'replace'): Promise<ImportSummary> => {
+  const parsed = parseBundle(raw);
+  if (!parsed.ok) throw new Error(parsed.issues.join('; '));
+  if (mode === 'replace' && parsed.value.entries.length === 0) throw new Error('bundle holds no valid entries; archive left unchanged');
+
+  const known = new Map<string, ArchivedAnalysis>(mode === 'merge' ? existing.map(entry => [entry.id, entry]) : []);
+  const summary: ImportSummary = { imported: 0, duplicates: 0, renamed: 0, rejected: [...parsed.value.rejected] };
+
+  const pending: { entry: ArchivedAnalysis; image: Blob }[] = [];
+  for (const { record, image } of parsed.value.entries) {
+    let blob: Blob;
+    try {
+      blob = await dataUrlToBlob(image);
+    } catch (e) {
+      summary.rejected.push(`entry ${record.id}: image could not be decoded`);
+      continue;
+    }
+    let entry = record;
+    const clash = known.get(record.id);
+    if (clash) {
+      if (isDuplicate(clash, record)) {
+        summary.duplicates++;
+        continue;
+      }
+      entry = { ...record, id: generateArchiveId(new Set(known.keys())) };
+      summary.renamed++;
+    }
+    if (!entry.thumbnail) entry = { ...entry, thumbnail: await createThumbnail(image).catch(() => '') };
+    pending.push({ entry, image: blob });
+    known.set(entry.id, entry);
+  }
+  if (mode === 'replace' && pending.length === 0) throw new Error('bundle holds no readable entries; archive left unchanged');
+
+  await writeArchiveEntries(pending, mode === 'replace');
+  summary.imported = pending.length;
+  return summary;
+};
@@ -0,0 +1,48 @@
+import { ApiError } from "@google/genai";
+
+export type AnalysisErrorKind = 'auth' | 'quota' | 'network' | 'schema' | 'safety' | 'unknown';
+
+// Provider failures, classified so the UI can tell a bad key from an outage from a refusal.
+export class AnalysisError extends Error {
+  readonly kind: AnalysisErrorKind;
+  readonly retryable: boolean;
+
+  constructor(kind: AnalysisErrorKind, message: string) {
+    super(message);
+    this.name = 'AnalysisError';
+    this.kind = kind;
+    // Schema failures are repaired by the validation loop itself, never blindly resent.
+    this.retryable = kind === 'network';
+  }
+}
+
+export const errorFromStatus = (status: number, detail: string): AnalysisError => {
+  if (status === 401 || status === 403) return new AnalysisError('auth', `Credentials rejected (${status}): ${detail}`);
+  if (status === 429) return new AnalysisError('quota', `Rate limit or quota exhausted: ${detail}`);
+  if (status >= 500 || status === 408) return new AnalysisError('network', `Provider unavailable (${status}): ${detail}`);
+  return new AnalysisError('unknown', `Provider responded ${status}: ${detail}`);
+};
+
+// What fetch() rejects with when the request never reached a server (Chromium, Node, Safari, Firefox).
+const FETCH_FAILURE = /^(Failed to fetch|fetch failed|Load failed|NetworkError when attempting to fetch resource\.?)$/;
+
+export const classifyError = (err: unknown): AnalysisError => {
+  if (err instanceof AnalysisError) return err;
+  if (err instanceof ApiError) return errorFromStatus(err.status, err.message);
+  const message = err instanceof Error ? err.message : String(err);
+  // Any other TypeError is a bug in response handling, not an outage.
+  if (err instanceof TypeError) return new AnalysisError(FETCH_FAILURE.test(message) ? 'network' : 'unknown', message);
+  if (/network|ECONN|ETIMEDOUT|ENOTFOUND|timeout/i.test(message)) return new AnalysisError('network', message);
+  if (/api key|unauthori[sz]ed|permission/i.test(message)) return new AnalysisError('auth', message);
+  if (/quota|rate limit|resource.?exhausted/i.test(message)) return new AnalysisError('quota', message);
+  return new AnalysisError('unknown', message);
+};
+
+export const ERROR_MESSAGES: Record<AnalysisErrorKind, string> = {
+  auth: 'AUTH_FAULT: Provider rejected the credentials. Check the key under Config.',
+  quota: 'QUOTA_FAULT: Provider rate limit or quota exhausted. Retry later.',
+  network: 'LINK_FAULT: Provider unreachable. Check the connection or base URL.',
+  schema: 'SCHEMA_FAULT: Provider returned a malformed report after repeated repair attempts.',
+  safety: 'SAFETY_BLOCK: Provider declined to analyze this artifact.',
+  unknown: 'SYSTEM_FAULT: Diagnostic provider failure.'
+};
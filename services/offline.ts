@@ -0,0 +1,98 @@
+import { HarmonyCriterion, LogoMetrics, MetricDelta } from "../types";
+import { AnalysisProvider, AnalysisRequest, ComparisonRequest, ProviderReport } from "./provider";
+import { CONSTRUCTION_LABELS } from "../utils/construction";
+import { rubricChange } from "../utils/compare";
+
+const pct = (value: number, digits = 1) => `${value.toFixed(digits)}%`;
+
+const direction = (dx: number, dy: number) => {
+  const horizontal = Math.abs(dx) < 0.5 ? '' : dx > 0 ? 'right' : 'left';
+  const vertical = Math.abs(dy) < 0.5 ? '' : dy > 0 ? 'down' : 'up';
+  return [vertical, horizontal].filter(Boolean).join('-') || 'none';
+};
+
+// Remedial templates keyed by rubric criterion; the three weakest criteria produce the protocol.
+const REMEDIES: Record<string, (m: LogoMetrics) => string> = {
+  centroid: m => `Translate the mark ${pct(Math.abs(m.center_offset_x), 2)} horizontally and ${pct(Math.abs(m.center_offset_y), 2)} vertically against its bias (${direction(m.center_offset_x, m.center_offset_y)}) to seat the ${m.weighting === 'optical' ? 'optical centroid on the optical centre' : 'centroid on the canvas origin'}.`,
+  symmetry: m => m.symmetry
+    ? `Resolve Morphological Variance about the ${m.symmetry.axis_angle.toFixed(1)}° axis: mirror-overlap is ${pct(m.symmetry.axis_score * 100)}; either commit to the reflection or break it decisively.`
+    : `Commit to a primary axis of reflection; current bilateral symmetry reads ${m.symmetry_vertical} (V) / ${m.symmetry_horizontal} (H).`,
+  balance: m => `Redistribute Geometric Load: quadrant weights run L ${pct(m.weight_left)} / R ${pct(m.weight_right)}, T ${pct(m.weight_top)} / B ${pct(m.weight_bottom)}; shift mass toward the lighter quadrants.`,
+  density: m => m.density < 35
+    ? `Increase fill within the bounding constraint (currently ${pct(m.density)}); thicken strokes or close open counters to hold at small scales.`
+    : `Open the massing (currently ${pct(m.density)} fill); introduce counters or negative space to reduce visual weight.`,
+  complexity: m => `Simplify the outline: edge complexity is ${m.complexity_index.toFixed(3)}× the convex hull perimeter${m.shape ? ` across ${m.shape.corner_count} corners` : ''}; merge minor inflections.`,
+  legibility: m => {
+    const sample = m.legibility?.samples.find(s => s.size === 32);
+    return `Reinforce micro-scale detail: at 32px only ${pct((sample?.iou ?? 0) * 100)} of the form survives; widen gaps and strokes below ${sample ? (1 / sample.scale).toFixed(1) : '?'}px.`;
+  }
+};
+
+const construction = (m: LogoMetrics) => {
+  const c = m.construction;
+  if (!c) return '';
+  if (!c.best) return 'No construction system fits the edges better than chance.';
+  const fit = c.fits[0];
+  const deviation = fit.deviation !== null ? ` with edges ${pct(fit.deviation, 2)} of the mark off its guides on average` : '';
+  return `Construction reads as ${CONSTRUCTION_LABELS[c.best].toLowerCase()}${c.best === 'modular' && c.module ? ` on a ${c.module.toFixed(1)}px unit` : ''} (fit ${fit.fit.toFixed(3)})${deviation}.`;
+};
+
+const weakest = (criteria: HarmonyCriterion[], count: number) => [...criteria].sort((a, b) => a.score - b.score).slice(0, count);
+
+const buildReport = ({ metrics: m, harmony, color }: AnalysisRequest): ProviderReport => {
+  const low = weakest(harmony.criteria, 3);
+  const topology = m.topology
+    ? `${m.topology.component_count} discrete mass(es) with ${m.topology.hole_count} enclosed counter(s) (Euler number ${m.topology.euler_number}).`
+    : 'Topology not measured.';
+  const imbalanceX = m.weight_left - m.weight_right;
+  const imbalanceY = m.weight_top - m.weight_bottom;
+
+  return {
+    structural_summary: `Structural Harmony Index ${harmony.score}/100 under rubric v${harmony.version}. The artifact occupies a ${m.boundingBox.width}×${m.boundingBox.height}px constraint on a ${m.width}×${m.height}px canvas at ${pct(m.density)} fill. ${topology} Weakest criteria: ${low.map(c => `${c.label} (${c.score.toFixed(0)})`).join(', ')}.`,
+    balance_analysis: `Volumetric load splits ${pct(m.weight_left)} left / ${pct(m.weight_right)} right and ${pct(m.weight_top)} top / ${pct(m.weight_bottom)} bottom. ${Math.abs(imbalanceX) < 5 && Math.abs(imbalanceY) < 5 ? 'Euclidean Balance is maintained on both axes.' : `Net bias of ${pct(Math.abs(imbalanceX))} ${imbalanceX > 0 ? 'leftward' : 'rightward'} and ${pct(Math.abs(imbalanceY))} ${imbalanceY > 0 ? 'upward' : 'downward'} introduces Axial Tension.`}`,
+    geometry_analysis: [
+      `Aspect ratio ${m.aspect_ratio.toFixed(3)}; edge complexity ${m.complexity_index.toFixed(3)}.`,
+      m.shape ? `Solidity ${m.shape.solidity.toFixed(3)}, circularity ${m.shape.circularity.toFixed(3)}, ${m.shape.corner_count} corner(s).` : '',
+      m.symmetry ? `Best-fit mirror axis at ${m.symmetry.axis_angle.toFixed(1)}° (IoU ${m.symmetry.axis_score.toFixed(3)}); rotational order ${m.symmetry.rotational_order}-fold.` : `Symmetry: ${m.symmetry_vertical} vertical, ${m.symmetry_horizontal} horizontal.`,
+      construction(m),
+      m.clear_space?.uneven ? `Padding is uneven: margins run ${(['top', 'right', 'bottom', 'left'] as const).map(side => `${side} ${m.clear_space!.relative[side].toFixed(2)}`).join(', ')} × the mark's height.` : ''
+    ].filter(Boolean).join(' '),
+    alignment_analysis: m.weighting === 'optical' && m.optical
+      ? `Contrast-weighted centroid sits at (${m.optical.centroid.x.toFixed(1)}, ${m.optical.centroid.y.toFixed(1)}) against the geometric (${m.centerOfMass.x.toFixed(1)}, ${m.centerOfMass.y.toFixed(1)}), displaced ${pct(m.center_offset_x, 2)} horizontally and ${pct(m.center_offset_y, 2)} vertically from the optical centre (bias: ${direction(m.center_offset_x, m.center_offset_y)}).`
+      : `Centroid sits at (${m.centerOfMass.x.toFixed(1)}, ${m.centerOfMass.y.toFixed(1)}), displaced ${pct(m.center_offset_x, 2)} horizontally and ${pct(m.center_offset_y, 2)} vertically from the canvas origin (bias: ${direction(m.center_offset_x, m.center_offset_y)}).`,
+    market_context: `Offline provider: market grounding unavailable.${color && color.palette.length > 0 ? ` Palette of ${color.palette.length} ink(s) led by ${color.palette[0].hex} at ${pct(color.palette[0].coverage * 100)} coverage${color.conflicts.length > 0 ? `, with ${color.conflicts.length} colour-discrimination conflict(s)` : ''}.` : ''}`,
+    remedial_actions: low.map(c => REMEDIES[c.id]?.(m) ?? `Improve ${c.label}.`),
+    groundingUrls: []
+  };
+};
+
+const formatChange = (d: MetricDelta) =>
+  `${d.label} ${typeof d.before === 'number' ? d.before.toFixed(2) : d.before} → ${typeof d.after === 'number' ? d.after.toFixed(2) : d.after}`;
+
+const buildNarrative = ({ beforeName, afterName, deltas }: ComparisonRequest) => {
+  const shi = deltas.find(d => d.key === 'score');
+  const criteria = deltas.filter(d => d.key.startsWith('harmony.') && d.delta !== null);
+  const improved = deltas.filter(d => d.verdict === 'improved' && !d.key.startsWith('harmony.') && d.key !== 'score');
+  const regressed = deltas.filter(d => d.verdict === 'regressed' && !d.key.startsWith('harmony.') && d.key !== 'score');
+  const worst = [...criteria].sort((a, b) => (a.delta ?? 0) - (b.delta ?? 0))[0];
+  const rubric = rubricChange(deltas);
+  const shiLine = shi && rubric
+    ? `Structural Harmony Index reads ${shi.before} under rubric v${rubric.before} for "${beforeName}" and ${shi.after} under rubric v${rubric.after} for "${afterName}"; the rubrics weigh the mark differently, so the two scores are not directly comparable.`
+    : shi && shi.delta !== null
+    ? `Structural Harmony Index moves ${shi.before} → ${shi.after} (${shi.delta >= 0 ? '+' : ''}${shi.delta}) from "${beforeName}" to "${afterName}".`
+    : `Structural Harmony Index unavailable for one of the versions.`;
+  return [
+    shiLine,
+    improved.length > 0 ? `Fixed: ${improved.slice(0, 5).map(formatChange).join('; ')}.` : 'No measured improvement.',
+    regressed.length > 0 ? `Broke: ${regressed.slice(0, 5).map(formatChange).join('; ')}.` : 'No measured regression.',
+    worst && (worst.delta ?? 0) < 0 ? `Next adjustment: recover ${worst.label} (${worst.delta!.toFixed(1)} points).` : ''
+  ].filter(Boolean).join(' ');
+};
+
+// Rule-based report writer for air-gapped machines and key-less demos. Deterministic.
+export const createOfflineProvider = (): AnalysisProvider => ({
+  id: 'offline',
+  label: 'Offline',
+  analyze: async request => ({ text: JSON.stringify(buildReport(request)) }),
+  compare: async request => buildNarrative(request)
+});
@@ -0,0 +1,52 @@
+import { AnalysisProvider, ImagePart, ProviderSettings } from "./provider";
+import { AnalysisError, errorFromStatus } from "./errors";
+import { buildAnalysisPrompt, buildComparisonPrompt, SYSTEM_INSTRUCTION } from "./prompt";
+
+const chatCompletion = async (settings: ProviderSettings, prompt: string, images: ImagePart[], json: boolean): Promise<string> => {
+  // Vision-capable servers take images as content parts; text-only requests keep the plain string form.
+  const content = images.length > 0
+    ? [
+        { type: 'text', text: prompt },
+        ...images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } }))
+      ]
+    : prompt;
+  const response = await fetch(`${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+    },
+    body: JSON.stringify({
+      model: settings.model,
+      temperature: 0.2,
+      ...(json ? { response_format: { type: 'json_object' } } : {}),
+      messages: [
+        { role: 'system', content: SYSTEM_INSTRUCTION },
+        { role: 'user', content }
+      ]
+    })
+  });
+
+  if (!response.ok) {
+    throw errorFromStatus(response.status, await response.text());
+  }
+
+  const payload = await response.json();
+  const choice = payload?.choices?.[0];
+  if (choice?.finish_reason === 'content_filter') {
+    throw new AnalysisError('safety', 'Response withheld by the provider content filter.');
+  }
+  return choice?.message?.content || '';
+};
+
+// Any server speaking the OpenAI chat-completions dialect (vLLM, Ollama, LM Studio, llama.cpp, ...).
+export const createOpenAICompatibleProvider = (settings: ProviderSettings): AnalysisProvider => ({
+  id: 'openai',
+  label: 'OpenAI-Compatible',
+  analyze: async ({ metrics, harmony, color, images = [], repair }) => {
+    const prompt = buildAnalysisPrompt(metrics, harmony, color, { grounding: false, schemaEnforced: false, images: images.map(image => image.label) }, repair);
+    return { text: await chatCompletion(settings, prompt, images, true) };
+  },
+  compare: async ({ beforeName, afterName, deltas, images = [] }) =>
+    chatCompletion(settings, buildComparisonPrompt(beforeName, afterName, deltas, images.length), images, false)
+});
@@ -0,0 +1,277 @@
+import { jsPDF } from 'jspdf';
+import { AnalysisResponse, ColorMetrics, HarmonyIndex, LogoMetrics } from "../types";
+import { renderDownscaled, renderThumbnail } from "../utils/canvas";
+import { listMetrics } from "../utils/compare";
+import { formatReading, webLinks } from "../utils/report";
+
+export interface PdfReportInput {
+  name: string;
+  reportId: string;
+  imageSrc: string;
+  metrics: LogoMetrics;
+  analysis: AnalysisResponse;
+  harmony: HarmonyIndex;
+  color: ColorMetrics | null;
+  overlay: string | null; // rasterized Euclidean Trace, PNG data URL
+}
+
+const MARGIN = 20;
+const FOOTER_GAP = 12; // body text stops this far above the page edge
+const LINE = 4;
+
+// The standard PDF fonts only cover Latin-1; spell out the symbols the UI and the model use.
+const GLYPHS: Record<string, string> = {
+  '—': '-', '–': '-', '‘': "'", '’': "'", '“': '"', '”': '"', '…': '...',
+  '×': 'x', 'θ': 'theta', 'χ': 'chi', 'Δ': 'delta', '→': '->', '≈': '~', '≤': '<=', '≥': '>='
+};
+const safe = (text: string) => text.replace(/[^\x00-\xff]/g, ch => GLYPHS[ch] ?? '?');
+
+// Builds the multi-page report and saves it. Every line goes through `ensure`, so no block can
+// run past the footer; footers and page numbers are stamped once the page count is known.
+export const downloadReportPdf = async (input: PdfReportInput) => {
+  const { name, reportId, imageSrc, metrics, analysis, harmony, color, overlay } = input;
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  let y = MARGIN;
+
+  const newPage = () => {
+    doc.addPage();
+    y = MARGIN;
+  };
+  const ensure = (height: number) => {
+    if (y + height > pageHeight - MARGIN - FOOTER_GAP + LINE) newPage();
+  };
+  const font = (size: number, style: 'normal' | 'bold' = 'normal', family = 'helvetica') => {
+    doc.setFont(family, style);
+    doc.setFontSize(size);
+  };
+  const heading = (title: string) => {
+    ensure(16);
+    y += 4;
+    font(8, 'bold');
+    doc.setTextColor(0);
+    doc.text(title, MARGIN, y);
+    y += 2;
+    doc.setDrawColor(0);
+    doc.setLineWidth(0.1);
+    doc.line(MARGIN, y, pageWidth - MARGIN, y);
+    y += 6;
+  };
+  const paragraph = (text: string, indent = 0) => {
+    font(8);
+    doc.setTextColor(30);
+    (doc.splitTextToSize(safe(text), contentWidth - indent) as string[]).forEach(line => {
+      ensure(LINE);
+      doc.text(line, MARGIN + indent, y);
+      y += LINE;
+    });
+  };
+  const image = (dataUrl: string, maxWidth: number, maxHeight: number, x = MARGIN) => {
+    const props = doc.getImageProperties(dataUrl);
+    const scale = Math.min(maxWidth / props.width, maxHeight / props.height);
+    const w = props.width * scale;
+    const h = props.height * scale;
+    doc.addImage(dataUrl, props.fileType, x + (maxWidth - w) / 2, y, w, h);
+    return h;
+  };
+
+  // Cover
+  font(14, 'bold');
+  doc.text("AXIOM STRUCTURAL REPORT", MARGIN, y);
+  y += 8;
+  font(7);
+  doc.text(`DATE: ${new Date().toLocaleString()}`, MARGIN, y);
+  doc.text(`SYSTEM: AXIOM CORE v2.1`, pageWidth - MARGIN, y, { align: 'right' });
+  y += 4;
+  doc.setLineWidth(0.1);
+  doc.line(MARGIN, y, pageWidth - MARGIN, y);
+  y += 12;
+  font(7, 'bold');
+  doc.setTextColor(150);
+  doc.text("ARTIFACT", MARGIN, y);
+  doc.text("REPORT ID", pageWidth - MARGIN, y, { align: 'right' });
+  y += 6;
+  doc.setTextColor(0);
+  font(12, 'bold');
+  doc.text(safe(name || 'Untitled artifact'), MARGIN, y);
+  font(12, 'bold', 'courier');
+  doc.text(reportId, pageWidth - MARGIN, y, { align: 'right' });
+  y += 8;
+
+  const thumbnail = await renderDownscaled(imageSrc, 768).catch(() => null);
+  if (thumbnail) {
+    doc.setDrawColor(220);
+    doc.rect(MARGIN, y, contentWidth, 100);
+    y += 5;
+    image(thumbnail, contentWidth - 10, 90, MARGIN + 5);
+    y += 95;
+  }
+  y += 10;
+
+  font(8, 'bold');
+  doc.text("STRUCTURAL HARMONY INDEX (SHI)", MARGIN, y);
+  y += 13;
+  font(36, 'bold');
+  doc.text(String(analysis.score), MARGIN, y);
+  y += 8;
+  font(7);
+  harmony.criteria.forEach(c => {
+    doc.text(safe(`${c.label.toUpperCase()} (x${c.weight})`), MARGIN, y);
+    doc.text(c.score.toFixed(0), MARGIN + 70, y, { align: 'right' });
+    doc.setFillColor(0, 0, 0);
+    doc.rect(MARGIN + 75, y - 2, (c.score / 100) * 40, 2, 'F');
+    y += 4;
+  });
+
+  // Figure
+  newPage();
+  heading("FIG.01 / EUCLIDEAN TRACE");
+  if (overlay) {
+    const h = image(overlay, contentWidth, 150);
+    doc.setDrawColor(0);
+    doc.rect(MARGIN, y, contentWidth, h);
+    y += h + 4;
+    font(6);
+    doc.setTextColor(120);
+    doc.text("BOUNDING BOX AND HULL IN BLACK / COMPONENTS IN BLUE / SYMMETRY AXIS IN RED / CONSTRUCTION IN PURPLE / MODEL REGIONS IN ORANGE", MARGIN, y);
+    y += 6;
+  } else {
+    paragraph("Overlay unavailable.");
+  }
+  if (analysis.regions_of_interest && analysis.regions_of_interest.length > 0) {
+    heading("REGIONS OF INTEREST");
+    analysis.regions_of_interest.forEach((region, i) => {
+      ensure(LINE * 2);
+      font(7, 'bold');
+      doc.setTextColor(234, 88, 12);
+      doc.text(`R${i + 1}`, MARGIN, y);
+      doc.setTextColor(0);
+      doc.text(safe(region.label.toUpperCase()), MARGIN + 8, y);
+      y += LINE;
+      paragraph(region.note, 8);
+      y += 1;
+    });
+  }
+
+  // Remedial actions
+  heading("STRUCTURAL PROTOCOL / REMEDIAL ACTIONS");
+  analysis.remedial_actions.forEach((action, i) => {
+    ensure(LINE * 2);
+    font(8, 'bold');
+    doc.setTextColor(0);
+    doc.text(`0${i + 1}`, MARGIN, y);
+    paragraph(action, 8);
+    y += 2;
+  });
+
+  // Narrative
+  [
+    { title: "MORPHOLOGICAL INTEGRITY", text: analysis.structural_summary },
+    { title: "VOLUMETRIC LOGIC", text: analysis.balance_analysis },
+    { title: "GEOMETRIC TENSION", text: analysis.geometry_analysis },
+    { title: "AXIAL CRITIQUE", text: analysis.alignment_analysis },
+    { title: "MARKET CONTEXT", text: analysis.market_context ?? '' }
+  ].filter(s => s.text).forEach(s => {
+    heading(s.title);
+    paragraph(s.text);
+  });
+
+  // Metrics table
+  const columns = [MARGIN, MARGIN + 35, pageWidth - MARGIN];
+  const tableHeader = () => {
+    font(6, 'bold');
+    doc.setTextColor(150);
+    doc.text("GROUP", columns[0], y);
+    doc.text("METRIC", columns[1], y);
+    doc.text("VALUE", columns[2], y, { align: 'right' });
+    y += LINE;
+  };
+  const rows = [
+    { group: 'Harmony', label: 'SHI', value: formatReading(harmony.score) },
+    ...harmony.criteria.map(c => ({ group: 'Harmony', label: c.label, value: formatReading(c.score) })),
+    ...listMetrics(metrics).map(r => ({ group: r.group, label: r.label, value: formatReading(r.value) })),
+    ...(color?.palette ?? []).map(p => ({ group: 'Colour', label: p.hex.toUpperCase(), value: `${(p.coverage * 100).toFixed(1)}%` }))
+  ];
+  heading("TELEMETRY");
+  tableHeader();
+  rows.forEach((row, i) => {
+    if (y + LINE > pageHeight - MARGIN - FOOTER_GAP + LINE) {
+      newPage();
+      tableHeader();
+    }
+    if (i % 2 === 0) {
+      doc.setFillColor(245, 245, 245);
+      doc.rect(MARGIN, y - 3, contentWidth, LINE, 'F');
+    }
+    font(7);
+    doc.setTextColor(120);
+    doc.text(safe(row.group.toUpperCase()), columns[0] + 1, y);
+    doc.setTextColor(0);
+    doc.text(safe(row.label), columns[1], y);
+    font(7, 'normal', 'courier');
+    doc.text(safe(row.value), columns[2] - 1, y, { align: 'right' });
+    y += LINE;
+  });
+
+  if (metrics.legibility) {
+    heading("MICRO-SCALE LEGIBILITY");
+    font(8);
+    for (const sample of metrics.legibility.samples) {
+      const losses = [
+        ...sample.vanished_components.map(id => `C${id} vanishes`),
+        ...sample.merged_components.map(group => `${group.map(id => `C${id}`).join('+')} merge`)
+      ];
+      font(8);
+      // Long loss lists wrap in their own column and push the next sample down.
+      const lossLines = doc.splitTextToSize(safe(losses.join(', ') || '-'), contentWidth - 125) as string[];
+      const rowHeight = Math.max(11, lossLines.length * LINE + 7);
+      ensure(rowHeight);
+      const thumb = await renderThumbnail(imageSrc, sample.width, sample.height).catch(() => null);
+      if (thumb) doc.addImage(thumb, 'PNG', MARGIN, y - 4, 8, 8 * (sample.height / sample.width));
+      font(8);
+      doc.setTextColor(0);
+      doc.text(`${sample.size}PX`, MARGIN + 12, y);
+      doc.text(`IOU ${(sample.iou * 100).toFixed(1)}%`, MARGIN + 30, y);
+      doc.text(`SHAPES ${sample.component_count}`, MARGIN + 60, y);
+      doc.text(`MIN STROKE ${sample.min_stroke_px.toFixed(2)}PX`, MARGIN + 85, y);
+      doc.text(lossLines, MARGIN + 125, y);
+      y += rowHeight;
+    }
+  }
+
+  const citations = webLinks(analysis.groundingUrls);
+  if (citations.length > 0) {
+    heading("CITATIONS");
+    citations.forEach((link, i) => {
+      ensure(LINE * 2 + 1);
+      font(8, 'bold');
+      doc.setTextColor(0);
+      doc.text(`[${i + 1}]`, MARGIN, y);
+      doc.setTextColor(37, 99, 235);
+      doc.textWithLink(safe(link.title || 'Source'), MARGIN + 8, y, { url: link.uri });
+      y += LINE;
+      font(6);
+      doc.setTextColor(120);
+      const uri = (doc.splitTextToSize(safe(link.uri), contentWidth - 8) as string[])[0];
+      doc.textWithLink(uri, MARGIN + 8, y, { url: link.uri });
+      y += LINE + 1;
+    });
+  }
+
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    const footerY = pageHeight - MARGIN + 6;
+    doc.setDrawColor(0);
+    doc.setLineWidth(0.1);
+    doc.line(MARGIN, footerY - 4, pageWidth - MARGIN, footerY - 4);
+    font(6, 'bold');
+    doc.setTextColor(120);
+    doc.text(safe(`AXIOM / ${reportId} / ${(name || 'Untitled artifact').toUpperCase()}`), MARGIN, footerY);
+    doc.text(`PAGE ${page} OF ${pages}`, pageWidth - MARGIN, footerY, { align: 'right' });
+  }
+
+  doc.save(`AXIOM-${reportId}.pdf`);
+};
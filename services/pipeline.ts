@@ -0,0 +1,101 @@
+import { AnalysisResponse, ColorMetrics, HarmonyIndex, LogoMetrics, RasterImage, SegmentationOptions, SvgGeometry, WeightingOptions } from "../types";
+import { computeLogoMetrics, extractForeground, loadRaster, MetricsError } from "../utils/analysis";
+import { computeColorMetrics } from "../utils/color";
+import { componentSignatures, ComponentSignatures } from "../utils/family";
+import { computeHarmonyIndex } from "../utils/scoring";
+import { labelComponents } from "../utils/topology";
+import { renderDownscaled, renderStructuralPlate, splitDataUrl } from "../utils/canvas";
+import { isSvgFile, readFileAsDataUrl } from "../utils/files";
+import { prepareSvgSource } from "../utils/svg";
+import { analyzeLogoStructure, ImagePart, ProviderSettings, Throttle } from "./provider";
+import { AnalysisError, ERROR_MESSAGES } from "./errors";
+
+export interface ScanOptions {
+  segmentation: SegmentationOptions;
+  weighting: WeightingOptions;
+  brandBackgrounds: string[];
+  providerSettings: ProviderSettings;
+  svgGeometry?: SvgGeometry | null;
+  raster?: RasterImage | null; // already-decoded pixels, skips a second decode
+  throttle?: Throttle;
+  onMetrics?: (metrics: LogoMetrics, color: ColorMetrics) => void; // local pass done, provider pending
+}
+
+export interface ScanResult {
+  metrics: LogoMetrics;
+  color: ColorMetrics;
+  analysis: AnalysisResponse;
+}
+
+export interface ArtifactSource {
+  name: string;
+  imageSrc: string;
+  svgGeometry: SvgGeometry | null;
+}
+
+const STRUCTURAL_PLATE_LABEL = 'Structural plate: foreground mask in black, bounding box and convex hull in grey, canvas centre lines in blue, symmetry axis and centroid in red';
+
+// Full scan of one artifact: local metrics and colour, then the provider report.
+export const scanArtifact = async (imageSrc: string, options: ScanOptions): Promise<ScanResult> => {
+  const { segmentation, weighting, providerSettings } = options;
+  const source = options.raster ?? await loadRaster(imageSrc);
+  const pixelMetrics = computeLogoMetrics(source, segmentation, weighting);
+  const metrics = options.svgGeometry ? { ...pixelMetrics, vector: options.svgGeometry } : pixelMetrics;
+  const mask = extractForeground(source, segmentation);
+  const color = computeColorMetrics(source, mask, options.brandBackgrounds);
+  options.onMetrics?.(metrics, color);
+
+  const images: ImagePart[] = providerSettings.sendImages && providerSettings.provider !== 'offline'
+    ? [
+        { label: 'Original artifact', ...splitDataUrl(await renderDownscaled(imageSrc, providerSettings.imageMaxSize)) },
+        { label: STRUCTURAL_PLATE_LABEL, ...splitDataUrl(renderStructuralPlate(mask, metrics, providerSettings.imageMaxSize)) }
+      ]
+    : [];
+  const analysis = await analyzeLogoStructure(providerSettings, metrics, color, images, options.throttle);
+  return { metrics, color, analysis };
+};
+
+export interface LocalMeasurement {
+  metrics: LogoMetrics;
+  color: ColorMetrics;
+  harmony: HarmonyIndex;
+  signatures: ComponentSignatures;
+}
+
+// Local pass only, no provider call: what a family needs to line its members up.
+export const measureArtifact = async (
+  imageSrc: string,
+  options: Pick<ScanOptions, 'segmentation' | 'weighting' | 'brandBackgrounds' | 'svgGeometry'>
+): Promise<LocalMeasurement> => {
+  const source = await loadRaster(imageSrc);
+  const pixelMetrics = computeLogoMetrics(source, options.segmentation, options.weighting);
+  const metrics = options.svgGeometry ? { ...pixelMetrics, vector: options.svgGeometry } : pixelMetrics;
+  const mask = extractForeground(source, options.segmentation);
+  return {
+    metrics,
+    color: computeColorMetrics(source, mask, options.brandBackgrounds),
+    harmony: computeHarmonyIndex(metrics),
+    signatures: componentSignatures(mask, labelComponents(mask))
+  };
+};
+
+// User-facing message for a failed scan.
+export const describeScanError = (err: unknown): string => {
+  if (err instanceof MetricsError) {
+    return err.code === 'NO_FOREGROUND'
+      ? 'SIGNAL_ERROR: Artifact contains no measurable foreground.'
+      : `SIGNAL_ERROR: ${err.message}`;
+  }
+  if (err instanceof AnalysisError) return ERROR_MESSAGES[err.kind];
+  return 'SYSTEM_FAULT: Diagnostic connection timeout.';
+};
+
+// Reads a dropped file into a scannable source; vector masters are rasterized at the given resolution.
+export const readArtifactFile = async (file: File, svgResolution: number): Promise<ArtifactSource> => {
+  const name = file.name.replace(/\.[^.]+$/, '');
+  if (isSvgFile(file)) {
+    const prepared = prepareSvgSource(await file.text(), svgResolution);
+    return { name, imageSrc: prepared.src, svgGeometry: prepared.geometry };
+  }
+  return { name, imageSrc: await readFileAsDataUrl(file), svgGeometry: null };
+};
@@ -0,0 +1,159 @@
+import { ColorMetrics, HarmonyIndex, LogoMetrics, MetricDelta } from "../types";
+import { RepairContext } from "./provider";
+import { CONSTRUCTION_LABELS } from "../utils/construction";
+
+export const SYSTEM_INSTRUCTION = "You are the AXIOM Core Intelligence. You analyze visual structures with the cold precision of a structural engineer. You provide objective design diagnostics based on mathematical weight distribution and market grounding. You avoid fluff and flowery language.";
+
+// Report fields every provider must return; descriptions double as schema docs and prompt text.
+export const RESPONSE_FIELDS = {
+  structural_summary: "A forensic overview of the artifact's formal integrity.",
+  balance_analysis: "Detailed critique of the volumetric load distribution.",
+  geometry_analysis: "Assessment of the bounding box efficiency, aspect ratio and underlying construction system.",
+  alignment_analysis: "Analysis of centroid displacement and axial nodes.",
+  market_context: "Grounding report on current visual industry standards.",
+  remedial_actions: "Three specific architectural adjustments.",
+  regions_of_interest: "Up to 6 areas of the artifact that drive the diagnosis, each with a short label, a one-sentence note and box_2d as [ymin, xmin, ymax, xmax] normalized to 0-1000."
+};
+
+// Shape of the non-string fields, for providers that only see the schema as prompt text.
+const FIELD_FORMATS: Partial<Record<keyof typeof RESPONSE_FIELDS, string>> = {
+  remedial_actions: 'array of exactly 3 strings',
+  regions_of_interest: 'optional array of { "label": string, "note": string, "box_2d": [ymin, xmin, ymax, xmax] }'
+};
+
+export const MAX_REGIONS = 6;
+
+export interface PromptOptions {
+  grounding: boolean; // provider can search the web
+  schemaEnforced: boolean; // provider validates JSON against a schema itself
+  images?: string[]; // labels of the attached images, in attachment order
+}
+
+const metricLines = (metrics: LogoMetrics) => {
+  const lines = [
+    `Vertical Symmetry: ${metrics.symmetry_vertical}`,
+    `Horizontal Symmetry: ${metrics.symmetry_horizontal}`
+  ];
+  if (metrics.symmetry) {
+    const s = metrics.symmetry;
+    lines.push(
+      `Mirror Overlap IoU (canvas axis V/H): ${s.mirror_vertical.toFixed(3)} / ${s.mirror_horizontal.toFixed(3)}`,
+      `Mirror Overlap IoU (centroid axis V/H): ${s.mirror_vertical_centroid.toFixed(3)} / ${s.mirror_horizontal_centroid.toFixed(3)}`,
+      `Best-fit Symmetry Axis: ${s.axis_angle.toFixed(1)}° from vertical (IoU ${s.axis_score.toFixed(3)})`,
+      `Rotational Symmetry Order: ${s.rotational_order}-fold`
+    );
+  }
+  lines.push(
+    metrics.weighting === 'optical'
+      ? `Centroid Offset (X,Y), contrast-weighted, from the optical centre: ${metrics.center_offset_x.toFixed(3)}%, ${metrics.center_offset_y.toFixed(3)}%`
+      : `Centroid Offset (X,Y): ${metrics.center_offset_x.toFixed(3)}%, ${metrics.center_offset_y.toFixed(3)}%`,
+    `Volumetric Weights${metrics.weighting === 'optical' ? ' (contrast-weighted)' : ''}: Left:${metrics.weight_left.toFixed(2)}%, Right:${metrics.weight_right.toFixed(2)}%, Top:${metrics.weight_top.toFixed(2)}%, Bottom:${metrics.weight_bottom.toFixed(2)}%`,
+    `Pixel Density: ${metrics.density.toFixed(2)}%`,
+    `Edge Complexity (perimeter / hull perimeter): ${metrics.complexity_index.toFixed(4)}`
+  );
+  if (metrics.optical) {
+    const o = metrics.optical;
+    lines.push(
+      `Geometric vs Optical Centroid (against ground ${o.ground}): (${metrics.centerOfMass.x.toFixed(1)}, ${metrics.centerOfMass.y.toFixed(1)}) / (${o.centroid.x.toFixed(1)}, ${o.centroid.y.toFixed(1)}) px`,
+      `Optical Centroid Offset from the optical centre (${o.target.x.toFixed(1)}, ${o.target.y.toFixed(1)}): ${o.offset_x.toFixed(3)}%, ${o.offset_y.toFixed(3)}%`
+    );
+  }
+  if (metrics.shape) {
+    lines.push(
+      `Contour: perimeter ${metrics.shape.perimeter.toFixed(1)}px, ${metrics.shape.corner_count} corner(s)`,
+      `Solidity (area / convex hull): ${metrics.shape.solidity.toFixed(3)}`,
+      `Circularity (4πA/P²): ${metrics.shape.circularity.toFixed(3)}`
+    );
+  }
+  if (metrics.topology) {
+    const t = metrics.topology;
+    const gap = t.gaps[0];
+    lines.push(
+      `Topology: ${t.component_count} separate shape(s), ${t.hole_count} enclosed counter(s), Euler number ${t.euler_number}`,
+      `Tightest Inter-component Gap: ${gap ? `${gap.distance.toFixed(1)}px (${(gap.relative * 100).toFixed(2)}% of mark size) between C${gap.from} and C${gap.to}` : 'n/a (single mass)'}`
+    );
+  }
+  if (metrics.clear_space) {
+    const { margins: px, relative: r, uneven } = metrics.clear_space;
+    lines.push(
+      `Clear Space (T/R/B/L): ${px.top.toFixed(0)} / ${px.right.toFixed(0)} / ${px.bottom.toFixed(0)} / ${px.left.toFixed(0)}px = ${r.top.toFixed(2)} / ${r.right.toFixed(2)} / ${r.bottom.toFixed(2)} / ${r.left.toFixed(2)} × mark height (${uneven ? 'uneven' : 'even'} padding)`
+    );
+  }
+  if (metrics.construction) {
+    const c = metrics.construction;
+    lines.push(
+      `Construction System: ${c.best ? `${CONSTRUCTION_LABELS[c.best]}${c.best === 'modular' && c.module ? ` (unit ${c.module.toFixed(1)}px)` : ''}` : 'none beyond chance'}`,
+      `Construction Fits (0 = chance, 1 = exact): ${c.fits.map(f => `${CONSTRUCTION_LABELS[f.system]} ${f.fit.toFixed(3)}`).join(', ')}`
+    );
+  }
+  return lines;
+};
+
+const vectorLines = (metrics: LogoMetrics) => {
+  if (!metrics.vector) return [];
+  const v = metrics.vector;
+  return [
+    `Paths: ${v.path_count} (${v.shape_count} drawable primitives)`,
+    `Exact Geometric Bounds: ${v.bounds ? `${v.bounds.width.toFixed(2)} x ${v.bounds.height.toFixed(2)} user units` : 'n/a'}`,
+    `Source Warnings: ${v.warnings.map(w => w.code).join(', ') || 'none'}`
+  ];
+};
+
+const colorLines = (color?: ColorMetrics) => {
+  if (!color) return [];
+  return [
+    `Palette: ${color.palette.map(entry => `${entry.hex} (${(entry.coverage * 100).toFixed(1)}%)`).join(', ') || 'n/a'}`,
+    `WCAG Contrast: ${color.palette.map(entry => `${entry.hex} vs ${color.backgrounds.map(hex => `${hex} ${entry.contrast[hex]?.toFixed(2)}:1`).join(' / ')}`).join('; ')}`,
+    `Discrimination Conflicts: ${color.conflicts.length > 0 ? color.conflicts.map(c => `${c.a}/${c.b} under ${c.condition}`).join(', ') : 'none detected'}`
+  ];
+};
+
+const section = (title: string, lines: string[]) => (lines.length > 0 ? `\n${title}:\n${lines.map(line => `- ${line}`).join('\n')}\n` : '');
+
+const repairNote = (repair?: RepairContext) => repair ? `
+
+Your previous response was rejected:
+${repair.issues.map(issue => `- ${issue}`).join('\n')}
+Previous response (truncated):
+${repair.previous.slice(0, 2000)}
+Return a corrected JSON object that fixes every issue above.` : '';
+
+export const buildAnalysisPrompt = (metrics: LogoMetrics, harmony: HarmonyIndex, color: ColorMetrics | undefined, options: PromptOptions, repair?: RepairContext) => {
+  const market = options.grounding
+    ? `Market Grounding: Use Google Search to identify if this silhouette structure follows current luxury, tech, or industrial trends. Compare its "massing" to established global icons.`
+    : `Market Context: Without live search, relate this silhouette structure to established luxury, tech, or industrial conventions you know. Do not invent citations.`;
+  const format = options.schemaEnforced
+    ? 'Strict JSON output only.'
+    : `Strict JSON output only: a single object with string keys ${Object.entries(RESPONSE_FIELDS)
+        .map(([key, description]) => `"${key}" (${FIELD_FORMATS[key as keyof typeof RESPONSE_FIELDS] ?? 'string'}: ${description})`)
+        .join(', ')}.`;
+
+  const images = options.images ?? [];
+  const regions = images.length > 0
+    ? `\n5. Inspect the attached images directly; cite what you see, not only the numbers. Mark up to ${MAX_REGIONS} regions_of_interest (awkward joins, tight gaps, optical imbalances, thin strokes) with box_2d coordinates relative to the full artifact canvas.`
+    : '';
+
+  return `Perform a deep forensic deconstruction of this visual artifact using the provided Euclidean metrics${images.length > 0 ? ' and the attached images' : ''}.
+${section('Attached Images', images.map((label, i) => `Image ${i + 1}: ${label}`))}${section('Metrics Overview', metricLines(metrics))}${section('Vector Master', vectorLines(metrics))}${section('Chromatic Register', colorLines(color))}
+Requirements:
+1. Analysis must be clinical, objective, and authoritative. Use terminology: "Axial Tension", "Geometric Load", "Morphological Variance", "Euclidean Balance".
+2. ${market}
+3. Recommendations: Provide 3 high-impact geometric adjustments to optimize the 'Structural Harmony Index'.
+4. The Structural Harmony Index is fixed at ${harmony.score}/100 by the local rubric (${harmony.criteria.map(c => `${c.label} ${c.score.toFixed(0)}`).join(', ')}). Do not restate a different score; explain the weakest criteria.${regions}
+
+${format}${repairNote(repair)}`;
+};
+
+const formatValue = (value: number | string | null) => (value === null ? 'n/a' : typeof value === 'number' ? String(Math.round(value * 1000) / 1000) : value);
+
+export const buildComparisonPrompt = (beforeName: string, afterName: string, deltas: MetricDelta[], imageCount: number) => {
+  const changed = deltas.filter(d => d.verdict !== 'unchanged');
+  const lines = changed.map(d => `${d.group} / ${d.label}: ${formatValue(d.before)} -> ${formatValue(d.after)} [${d.verdict}]`);
+  return `Review a logo revision. "${beforeName}" is the earlier version, "${afterName}" the revision.${imageCount > 0 ? ' The attached images show the earlier version first, then the revision.' : ''}
+${section('Measured Changes', lines.length > 0 ? lines : ['No metric moved beyond measurement noise.'])}
+Requirements:
+1. In one or two short paragraphs of plain prose, state what the revision fixed and what it broke, citing the measured changes.
+2. Explain the SHI change through the rubric criteria that moved. Do not invent measurements.
+3. End with the single most important next adjustment.
+Plain text only; no JSON, no markdown headings.`;
+};
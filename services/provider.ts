@@ -0,0 +1,151 @@
+import { AnalysisResponse, ColorMetrics, HarmonyIndex, LogoMetrics, MetricDelta } from "../types";
+import { computeHarmonyIndex } from "../utils/scoring";
+import { createGeminiProvider } from "./gemini";
+import { createOpenAICompatibleProvider } from "./openai";
+import { createOfflineProvider } from "./offline";
+import { AnalysisError, classifyError } from "./errors";
+import { extractJson, validateReport } from "./validation";
+import { webLinks } from "../utils/report";
+
+export type ProviderId = 'gemini' | 'openai' | 'offline';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  model: string;
+  apiKey: string; // empty: fall back to the build-time key where the provider has one
+  baseUrl: string; // OpenAI-compatible endpoint root, e.g. http://localhost:11434/v1
+  sendImages: boolean; // attach the artifact and its structural render to the request
+  imageMaxSize: number; // longest edge of attached images, in px
+}
+
+// Inline image sent alongside the prompt; data is base64 without the data-URL prefix.
+export interface ImagePart {
+  label: string;
+  mimeType: string;
+  data: string;
+}
+
+// Wraps each provider request, e.g. to space requests out under a rate limit. Applied per
+// request rather than per analysis, so retries and repair round-trips are counted too.
+export type Throttle = <T>(task: () => Promise<T>) => Promise<T>;
+
+// Set on retries after a malformed response, so the model can correct its own output.
+export interface RepairContext {
+  previous: string;
+  issues: string[];
+}
+
+export interface AnalysisRequest {
+  metrics: LogoMetrics;
+  harmony: HarmonyIndex;
+  color?: ColorMetrics;
+  images?: ImagePart[];
+  repair?: RepairContext;
+}
+
+// Revision review: the deltas drive the narrative, the images (when sent) let the model see both marks.
+export interface ComparisonRequest {
+  beforeName: string;
+  afterName: string;
+  deltas: MetricDelta[];
+  images?: ImagePart[];
+}
+
+// What a provider writes; the score and its breakdown always come from the local rubric.
+export type ProviderReport = Omit<AnalysisResponse, 'score' | 'harmony'>;
+
+// Raw model output; parsing and validation are shared across providers.
+export interface ProviderOutput {
+  text: string;
+  groundingUrls?: { title: string; uri: string }[];
+}
+
+export interface AnalysisProvider {
+  id: ProviderId;
+  label: string;
+  analyze: (request: AnalysisRequest) => Promise<ProviderOutput>;
+  compare: (request: ComparisonRequest) => Promise<string>; // plain-text narrative
+}
+
+export const MAX_ANALYSIS_ATTEMPTS = 3;
+const RETRY_BACKOFF_MS = 800;
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string; defaultModel: string }[] = [
+  { id: 'gemini', label: 'Gemini', defaultModel: 'gemini-3-pro-preview' },
+  { id: 'openai', label: 'OpenAI-Compatible', defaultModel: 'gpt-4o-mini' },
+  { id: 'offline', label: 'Offline', defaultModel: 'rules-v1' }
+];
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  model: 'gemini-3-pro-preview',
+  apiKey: '',
+  baseUrl: 'https://api.openai.com/v1',
+  sendImages: true,
+  imageMaxSize: 1024
+};
+
+export const createProvider = (settings: ProviderSettings): AnalysisProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAICompatibleProvider(settings);
+    case 'offline':
+      return createOfflineProvider();
+    default:
+      return createGeminiProvider(settings);
+  }
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Bounded repair/retry loop: malformed reports are sent back for correction, transient
+// network faults are retried with backoff, everything else fails fast with a typed error.
+export const analyzeLogoStructure = async (settings: ProviderSettings, metrics: LogoMetrics, color?: ColorMetrics, images?: ImagePart[], throttle?: Throttle): Promise<AnalysisResponse> => {
+  const harmony = computeHarmonyIndex(metrics);
+  const provider = createProvider(settings);
+  let repair: RepairContext | undefined;
+  let lastError: AnalysisError | null = null;
+
+  for (let attempt = 1; attempt <= MAX_ANALYSIS_ATTEMPTS; attempt++) {
+    let output: ProviderOutput;
+    try {
+      const send = () => provider.analyze({ metrics, harmony, color, images: settings.sendImages ? images : undefined, repair });
+      output = await (throttle ? throttle(send) : send());
+    } catch (err) {
+      lastError = classifyError(err);
+      if (!lastError.retryable) throw lastError;
+      if (attempt < MAX_ANALYSIS_ATTEMPTS) await wait(RETRY_BACKOFF_MS * attempt);
+      continue;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = extractJson(output.text);
+    } catch (e) {
+      repair = { previous: output.text, issues: ['response is not valid JSON'] };
+      lastError = new AnalysisError('schema', 'Response is not valid JSON.');
+      continue;
+    }
+
+    const result = validateReport(parsed);
+    if (result.ok) {
+      return { ...result.value, groundingUrls: output.groundingUrls ? webLinks(output.groundingUrls) : result.value.groundingUrls, score: harmony.score, harmony };
+    }
+    repair = { previous: output.text, issues: result.issues };
+    lastError = new AnalysisError('schema', `Response failed validation: ${result.issues.join('; ')}`);
+  }
+
+  throw lastError ?? new AnalysisError('unknown', 'Analysis produced no result.');
+};
+
+// Single attempt: the narrative is free text, so there is no schema to repair against.
+export const narrateRevision = async (settings: ProviderSettings, request: ComparisonRequest): Promise<string> => {
+  const provider = createProvider(settings);
+  try {
+    const text = await provider.compare({ ...request, images: settings.sendImages ? request.images : undefined });
+    if (!text.trim()) throw new AnalysisError('schema', 'Provider returned an empty narrative.');
+    return text.trim();
+  } catch (err) {
+    throw classifyError(err);
+  }
+};
@@ -0,0 +1,140 @@
+import { AnalysisResponse, RegionOfInterest } from "../types";
+import { ProviderReport } from "./provider";
+import { MAX_REGIONS } from "./prompt";
+import { webLinks } from "../utils/report";
+
+export type ValidationResult<T> =
+  | { ok: true; value: T; issues?: undefined }
+  | { ok: false; value?: undefined; issues: string[] };
+
+const TEXT_FIELDS = ['structural_summary', 'balance_analysis', 'geometry_analysis', 'alignment_analysis', 'market_context'] as const;
+
+// Recovers the JSON object from common model wrappers: code fences and leading/trailing prose.
+export const extractJson = (text: string): unknown => {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(text);
+  const candidate = (fenced ? fenced[1] : text).trim();
+  try {
+    return JSON.parse(candidate);
+  } catch (e) {
+    const start = candidate.indexOf('{');
+    const end = candidate.lastIndexOf('}');
+    if (start === -1 || end <= start) throw e;
+    return JSON.parse(candidate.slice(start, end + 1));
+  }
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateGrounding = (value: unknown, issues: string[]) => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || !value.every(link => isRecord(link) && typeof link.uri === 'string')) {
+    issues.push('groundingUrls must be an array of { title, uri }');
+    return undefined;
+  }
+  return webLinks(value.map(link => ({ title: String((link as Record<string, unknown>).title ?? ''), uri: String((link as Record<string, unknown>).uri) })));
+};
+
+// Regions are optional; coordinates are clamped to the 0-1000 frame and extras past the cap are dropped.
+const validateRegions = (value: unknown, issues: string[]): RegionOfInterest[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) {
+    issues.push('regions_of_interest must be an array');
+    return undefined;
+  }
+  const regions: RegionOfInterest[] = [];
+  value.slice(0, MAX_REGIONS).forEach((entry, i) => {
+    const box = isRecord(entry) ? entry.box_2d : undefined;
+    if (!isRecord(entry) || typeof entry.label !== 'string' || !Array.isArray(box) || box.length !== 4 || !box.every(n => typeof n === 'number' && isFinite(n))) {
+      issues.push(`regions_of_interest[${i}] must be { label, note, box_2d: [ymin, xmin, ymax, xmax] }`);
+      return;
+    }
+    const [ymin, xmin, ymax, xmax] = (box as number[]).map(n => Math.min(1000, Math.max(0, n)));
+    if (ymax <= ymin || xmax <= xmin) {
+      issues.push(`regions_of_interest[${i}].box_2d must have ymin < ymax and xmin < xmax`);
+      return;
+    }
+    regions.push({ label: entry.label, note: typeof entry.note === 'string' ? entry.note : '', box_2d: [ymin, xmin, ymax, xmax] });
+  });
+  return regions;
+};
+
+export const validateReport = (raw: unknown): ValidationResult<ProviderReport> => {
+  if (!isRecord(raw)) return { ok: false, issues: ['response is not a JSON object'] };
+  const issues: string[] = [];
+
+  for (const field of TEXT_FIELDS) {
+    if (typeof raw[field] !== 'string' || (raw[field] as string).trim() === '') issues.push(`${field} must be a non-empty string`);
+  }
+
+  const actions = raw.remedial_actions;
+  if (!Array.isArray(actions)) {
+    issues.push('remedial_actions must be an array');
+  } else {
+    if (actions.length !== 3) issues.push(`remedial_actions must contain exactly 3 entries (got ${actions.length})`);
+    if (!actions.every(action => typeof action === 'string' && action.trim() !== '')) issues.push('remedial_actions entries must be non-empty strings');
+  }
+
+  // Models sometimes echo a score; it is discarded, but an out-of-range one signals a confused response.
+  if (raw.score !== undefined && (typeof raw.score !== 'number' || raw.score < 0 || raw.score > 100)) {
+    issues.push('score, if present, must be a number between 0 and 100');
+  }
+
+  const groundingUrls = validateGrounding(raw.groundingUrls, issues);
+  const regions = validateRegions(raw.regions_of_interest, issues);
+  if (issues.length > 0) return { ok: false, issues };
+
+  return {
+    ok: true,
+    value: {
+      structural_summary: raw.structural_summary as string,
+      balance_analysis: raw.balance_analysis as string,
+      geometry_analysis: raw.geometry_analysis as string,
+      alignment_analysis: raw.alignment_analysis as string,
+      market_context: raw.market_context as string,
+      remedial_actions: actions as string[],
+      ...(groundingUrls ? { groundingUrls } : {}),
+      ...(regions && regions.length > 0 ? { regions_of_interest: regions } : {})
+    }
+  };
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const validateHarmony = (value: unknown): string[] => {
+  if (!isRecord(value)) return ['harmony must be an object'];
+  const issues: string[] = [];
+  if (!isFiniteNumber(value.version)) issues.push('harmony.version must be a number');
+  if (!isFiniteNumber(value.score)) issues.push('harmony.score must be a number');
+  if (!Array.isArray(value.criteria)) {
+    issues.push('harmony.criteria must be an array');
+  } else {
+    value.criteria.forEach((c, i) => {
+      if (!isRecord(c) || typeof c.id !== 'string' || typeof c.label !== 'string' || !isFiniteNumber(c.weight) || !isFiniteNumber(c.score)) {
+        issues.push(`harmony.criteria[${i}] must be { id, label, weight, score }`);
+      }
+    });
+  }
+  return issues;
+};
+
+// Full stored record: the provider report plus the locally computed score.
+export const validateAnalysisResponse = (raw: unknown): ValidationResult<AnalysisResponse> => {
+  const report = validateReport(raw);
+  if (!report.ok) return { ok: false, issues: report.issues };
+  const record = raw as Record<string, unknown>;
+  if (typeof record.score !== 'number' || record.score < 0 || record.score > 100) {
+    return { ok: false, issues: ['score must be a number between 0 and 100'] };
+  }
+  if (record.harmony !== undefined) {
+    const harmonyIssues = validateHarmony(record.harmony);
+    if (harmonyIssues.length > 0) return { ok: false, issues: harmonyIssues };
+  }
+  return {
+    ok: true,
+    value: {
+      ...report.value,
+      score: record.score,
+      ...(isRecord(record.harmony) ? { harmony: record.harmony as unknown as AnalysisResponse['harmony'] } : {})
+    }
+  };
+};
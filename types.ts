@@ -1,4 +1,214 @@
 
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA, row-major, 4 bytes per pixel
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export type SegmentationMode = 'auto' | 'alpha' | 'border' | 'luminance' | 'otsu';
+
+export interface SegmentationOptions {
+  mode: SegmentationMode;
+  threshold: number; // 0-255; alpha cutoff or distance from background, ignored by otsu
+}
+
+export interface ForegroundMask {
+  width: number;
+  height: number;
+  data: Uint8Array; // per-pixel foreground weight (0 = background)
+  mode: Exclude<SegmentationMode, 'auto'>;
+  threshold: number;
+  background: RGB | null;
+}
+
+// Overlap scores are IoU (0-1) of the foreground mask against its transformed self.
+export interface SymmetryMetrics {
+  mirror_vertical: number; // reflection about the canvas vertical axis
+  mirror_horizontal: number;
+  mirror_vertical_centroid: number; // reflection about the vertical axis through the centroid
+  mirror_horizontal_centroid: number;
+  rotational_order: number; // highest detected n-fold rotational symmetry (1 = none)
+  rotational_scores: Record<number, number>; // fold -> IoU after a 360/n rotation about the centroid
+  axis_angle: number; // best-fit mirror axis through the centroid, degrees clockwise from vertical
+  axis_score: number;
+}
+
+export interface ComponentRegion {
+  id: number;
+  area: number; // pixels
+  boundingBox: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+  centroid: {
+    x: number;
+    y: number;
+  };
+  holes: number; // enclosed counters
+}
+
+export interface ComponentGap {
+  from: number; // component ids
+  to: number;
+  distance: number; // clear pixels between the nearest edges
+  relative: number; // distance as a fraction of the mark's longest side
+}
+
+export interface TopologyMetrics {
+  component_count: number;
+  hole_count: number;
+  euler_number: number; // components - holes
+  noise_components: number; // speckles below the significance floor, not listed
+  components: ComponentRegion[];
+  gaps: ComponentGap[];
+}
+
+export interface ShapeMetrics {
+  perimeter: number; // px, outer outlines plus counter rims
+  hull_area: number;
+  hull_perimeter: number;
+  solidity: number; // foreground area / convex hull area
+  circularity: number; // 4πA / P², 1 for a disc
+  compactness: number; // P² / A
+  corner_count: number;
+  edge_complexity: number; // perimeter / hull perimeter, scale-free (1 = convex outline)
+  contours: Point[][]; // simplified outlines in canvas px
+  hull: Point[];
+}
+
+export interface LegibilitySample {
+  size: number; // longest side of the simulated render, px
+  width: number;
+  height: number;
+  scale: number;
+  iou: number; // render upscaled back against the original mask
+  component_count: number;
+  vanished_components: number[]; // ids of components with no surviving pixel
+  merged_components: number[][]; // groups of component ids fused into one blob
+  min_stroke_px: number; // thinnest stroke at this size
+  thin_stroke_ratio: number; // share of the stroke skeleton narrower than one pixel
+}
+
+export interface LegibilityMetrics {
+  stroke_width: number; // thinnest stroke at full resolution, px
+  samples: LegibilitySample[];
+}
+
+export type VisionCondition = 'grayscale' | 'protanopia' | 'deuteranopia' | 'tritanopia';
+
+export interface PaletteColor {
+  hex: string;
+  rgb: RGB;
+  coverage: number; // share of foreground pixels, 0-1
+  contrast: Record<string, number>; // background hex -> WCAG contrast ratio
+}
+
+export interface ColorConflict {
+  a: string; // palette hex
+  b: string;
+  condition: VisionCondition;
+  delta_e: number; // CIE76 distance under the simulated condition
+}
+
+export interface ColorMetrics {
+  palette: PaletteColor[];
+  background: string | null; // detected ground, when segmentation estimated one
+  backgrounds: string[]; // surfaces the palette was checked against
+  conflicts: ColorConflict[];
+}
+
+export interface SvgWarning {
+  code: 'NOT_SVG' | 'MISSING_VIEWBOX' | 'EMBEDDED_RASTER' | 'EXTERNAL_REFERENCE' | 'LIVE_TEXT';
+  message: string;
+}
+
+// Facts read directly from vector markup, in SVG user units unless noted.
+export interface SvgGeometry {
+  viewBox: { x: number; y: number; width: number; height: number } | null;
+  intrinsic_width: number | null;
+  intrinsic_height: number | null;
+  path_count: number;
+  shape_count: number; // all drawable primitives, paths included
+  bounds: { x: number; y: number; width: number; height: number } | null; // exact geometric bounds
+  raster_scale: number; // analysis px per user unit
+  warnings: SvgWarning[];
+}
+
+export type ConstructionSystem = 'golden' | 'root2' | 'root3' | 'thirds' | 'modular' | 'circles';
+
+export interface ConstructionFit {
+  system: ConstructionSystem;
+  fit: number; // 0-1; 0 is what edges placed at random would score
+  deviation: number | null; // mean distance from edges to the nearest guide, % of the mark's longest side
+  centroid_deviation: number | null; // same, for the centroid
+  aspect_error: number | null; // |ln(frame aspect / system aspect)|, rectangle systems only
+}
+
+// Guides of one system in canvas px; lines span the frame (the mark's bounding box).
+export interface ConstructionGuides {
+  frame: { x: number; y: number; width: number; height: number };
+  vertical: number[]; // x positions
+  horizontal: number[]; // y positions
+  circles: { x: number; y: number; r: number }[];
+}
+
+export interface ConstructionMetrics {
+  best: ConstructionSystem | null; // null when no system clearly beats chance
+  fits: ConstructionFit[]; // best first
+  module: number | null; // unit of the best modular grid, px
+  guides: ConstructionGuides | null; // of the best system
+}
+
+// What the exclusion zone is measured in: the mark's height, or the height of one component.
+export interface ClearSpaceUnit {
+  source: 'mark' | 'component';
+  component: number | null; // component id, when source is 'component'
+  multiple: number; // zone depth per side, in units
+}
+
+export interface ClearSpaceMetrics {
+  margins: { top: number; right: number; bottom: number; left: number }; // canvas px around the bounding box
+  relative: { top: number; right: number; bottom: number; left: number }; // same, as a share of the mark's height
+  uneven: boolean; // opposite margins differ by more than the tolerance
+  unit: ClearSpaceUnit;
+  unit_px: number;
+  zone: { x: number; y: number; width: number; height: number }; // bounding box grown by unit_px × multiple per side
+  zone_fits: boolean; // the zone lies inside the canvas
+}
+
+export type WeightingMode = 'alpha' | 'optical';
+
+export interface WeightingOptions {
+  mode: WeightingMode; // which mass drives the centroid offset and quadrant weights
+  ground: string | null; // hex the contrast is judged against; null uses the detected ground, else white
+}
+
+// Perceptual mass: each pixel counts by coverage times its lightness difference (ΔL*) from the ground.
+export interface OpticalMetrics {
+  ground: string;
+  centroid: Point;
+  target: Point; // optical centre of the canvas, above the geometric one
+  offset_x: number; // centroid vs target, % of canvas
+  offset_y: number;
+  weight_left: number;
+  weight_right: number;
+  weight_top: number;
+  weight_bottom: number;
+}
+
 export interface LogoMetrics {
   width: number;
   height: number;
@@ -12,7 +222,7 @@ export interface LogoMetrics {
   weight_top: number;
   weight_bottom: number;
   density: number; // Percentage of filled pixels in bounding box
-  complexity_index: number; // Rough measure of edge/fill ratio
+  complexity_index: number; // Outline length relative to the convex hull perimeter
   boundingBox: {
     x: number;
     y: number;
@@ -23,6 +233,33 @@ export interface LogoMetrics {
     x: number;
     y: number;
   };
+  symmetry?: SymmetryMetrics;
+  topology?: TopologyMetrics;
+  shape?: ShapeMetrics;
+  legibility?: LegibilityMetrics;
+  vector?: SvgGeometry;
+  construction?: ConstructionMetrics;
+  clear_space?: ClearSpaceMetrics;
+  optical?: OpticalMetrics; // absent when the mark has no contrast against the ground
+  weighting?: WeightingMode; // model behind center_offset_* and weight_*; alpha when absent
+  segmentation?: {
+    mode: ForegroundMask['mode'];
+    threshold: number;
+    background: RGB | null;
+  };
+}
+
+// Deterministic geometric fixes; each maps to a new canvas frame over the source pixels.
+export type Correction =
+  | { kind: 'recentre'; target: 'geometric' | 'optical' } // centroid onto the canvas or optical centre
+  | { kind: 'padding'; ratio: number } // equal clear space per side, share of the mark's longest side
+  | { kind: 'aspect'; ratio: number } // width / height; the canvas only grows
+  | { kind: 'trim' } // canvas cropped to the mark
+  | { kind: 'extend'; ratio: number }; // margin added per side, share of the canvas's longest side
+
+export interface CorrectionResult {
+  raster: RasterImage;
+  frame: { x: number; y: number; width: number; height: number }; // new canvas in source px
 }
 
 export interface GroundingChunk {
@@ -32,6 +269,28 @@ export interface GroundingChunk {
   };
 }
 
+export interface HarmonyCriterion {
+  id: string;
+  label: string;
+  weight: number; // share of the index, out of 100
+  value: number; // the raw metric the criterion reads
+  score: number; // 0-100
+}
+
+export interface HarmonyIndex {
+  version: number; // rubric revision, so stored scores stay comparable
+  score: number;
+  criteria: HarmonyCriterion[];
+}
+
+// Area the model flagged on the artifact. box_2d is [ymin, xmin, ymax, xmax], normalized to 0-1000
+// of the canvas so it survives the downscale the image goes through before upload.
+export interface RegionOfInterest {
+  label: string;
+  note: string;
+  box_2d: [number, number, number, number];
+}
+
 export interface AnalysisResponse {
   structural_summary: string;
   balance_analysis: string;
@@ -39,8 +298,171 @@ export interface AnalysisResponse {
   alignment_analysis: string;
   remedial_actions: string[];
   market_context?: string;
-  score: number;
+  score: number; // Structural Harmony Index, computed locally from the metrics
+  harmony?: HarmonyIndex;
+  regions_of_interest?: RegionOfInterest[];
   groundingUrls?: { title: string; uri: string }[];
 }
 
-export type AppState = 'landing' | 'upload' | 'analyzing' | 'results';
+// Archive record; the full-resolution image lives in its own store and is loaded on demand.
+export interface ArchivedAnalysis {
+  id: string;
+  name: string;
+  tags: string[];
+  timestamp: number;
+  score: number;
+  thumbnail: string; // small PNG data URL for list rendering
+  metrics: LogoMetrics;
+  analysis: AnalysisResponse;
+  color?: ColorMetrics;
+}
+
+export type ArchiveSort = 'date_desc' | 'date_asc' | 'score_desc' | 'score_asc';
+
+export interface ArchiveQuery {
+  search: string; // matched against name, id and tags
+  tag: string | null;
+  minScore: number;
+  sinceDays: number | null; // null: any date
+  sort: ArchiveSort;
+}
+
+// Portable archive file: the manifest and images travel together as one JSON document.
+// Machine-readable report export. `version` is bumped whenever a field is renamed, removed or
+// changes meaning; added optional fields keep the version.
+export interface ReportDocument {
+  format: 'axiom-report';
+  version: number;
+  report_id: string;
+  name: string;
+  exported_at: number;
+  metrics: LogoMetrics;
+  analysis: AnalysisResponse;
+  color: ColorMetrics | null;
+}
+
+export interface ArchiveBundleEntry {
+  record: ArchivedAnalysis;
+  image: string; // data URL of the original artifact
+}
+
+export interface ArchiveBundle {
+  format: 'axiom-archive';
+  version: number;
+  exported_at: number;
+  entries: ArchiveBundleEntry[];
+}
+
+export interface ImportSummary {
+  imported: number;
+  duplicates: number; // identical records already archived, skipped
+  renamed: number; // id collisions with different content, stored under a fresh id
+  rejected: string[]; // one reason per entry that failed validation
+}
+
+// One side of a comparison: a stored record or the scan currently on screen.
+export interface ComparisonSubject {
+  name: string;
+  timestamp: number;
+  imageSrc: string;
+  metrics: LogoMetrics;
+  analysis: AnalysisResponse;
+}
+
+export type DeltaVerdict = 'improved' | 'regressed' | 'unchanged' | 'neutral';
+
+export interface MetricReading {
+  key: string;
+  group: string;
+  label: string;
+  value: number | string | null;
+}
+
+export interface MetricDelta {
+  key: string;
+  group: string;
+  label: string;
+  before: number | string | null;
+  after: number | string | null;
+  delta: number | null;
+  verdict: DeltaVerdict;
+}
+
+export type BatchStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  name: string;
+  imageSrc: string;
+  svgGeometry: SvgGeometry | null;
+  status: BatchStatus;
+  attempts: number;
+  error?: string;
+  metrics?: LogoMetrics;
+  color?: ColorMetrics;
+  analysis?: AnalysisResponse;
+  archiveId?: string;
+}
+
+export interface BatchSettings {
+  concurrency: number; // scans in flight at once
+  requestsPerMinute: number; // provider calls; 0 = unlimited
+}
+
+export type AppState = 'landing' | 'upload' | 'analyzing' | 'results' | 'compare' | 'batch' | 'family';
+
+export type FamilyRole = 'primary' | 'stacked' | 'icon' | 'wordmark' | 'monochrome' | 'other';
+
+// One lockup of a brand family, measured locally.
+export interface FamilyMember {
+  name: string;
+  role: FamilyRole;
+  metrics: LogoMetrics;
+  harmony: HarmonyIndex;
+  color?: ColorMetrics;
+}
+
+// Where the shared symbol sits in one member, and how it is drawn there.
+export interface SymbolInstance {
+  member: number; // index into the family's members
+  component: number; // component id within that member
+  similarity: number; // 0-1 shape overlap with the reference drawing, scale removed
+  boundingBox: { x: number; y: number; width: number; height: number };
+  scale: number; // symbol height / the member's mark height
+  density: number; // % of the symbol's bounding box that is ink
+  aspect_ratio: number; // width / height
+  holes: number;
+}
+
+export type FamilyIssueKind = 'missing' | 'redrawn' | 'proportion' | 'density' | 'counters';
+
+export interface FamilyIssue {
+  member: number;
+  kind: FamilyIssueKind;
+  detail: string;
+}
+
+export interface FamilyAnalysis {
+  reference: number; // member the symbol is taken from
+  instances: SymbolInstance[]; // reference first, then every member it was found in
+  issues: FamilyIssue[];
+  consistency: number; // 0-100; mean similarity across members that should carry the symbol, 0 where it is missing
+}
+
+export interface ArchivedFamily {
+  id: string;
+  name: string;
+  timestamp: number;
+  thumbnail: string; // of the reference member
+  members: FamilyMember[]; // images are stored per member under `${id}/${index}`
+  analysis: FamilyAnalysis;
+}
+
+export interface FamilyReportDocument {
+  format: 'axiom-family';
+  version: number;
+  name: string;
+  exported_at: number;
+  members: FamilyMember[];
+  analysis: FamilyAnalysis;
+}
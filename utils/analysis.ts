@@ -1,104 +1,187 @@
+import { ForegroundMask, LogoMetrics, RasterImage, SegmentationOptions, WeightingOptions } from "../types";
+import { DEFAULT_SEGMENTATION, segmentForeground } from "./segmentation";
+import { computeSymmetry } from "./symmetry";
+import { computeTopology, labelComponents } from "./topology";
+import { computeShape } from "./contours";
+import { computeLegibility } from "./legibility";
+import { computeConstruction } from "./construction";
+import { computeOptical, DEFAULT_WEIGHTING } from "./optical";
+import { computeClearSpace } from "./clearspace";
+
+export type MetricsErrorCode = 'EMPTY_RASTER' | 'INVALID_BUFFER' | 'NO_FOREGROUND' | 'DECODE_FAILURE';
+
+// Raised for artifacts the metric engine cannot quantify, instead of leaking NaN/Infinity.
+export class MetricsError extends Error {
+  readonly code: MetricsErrorCode;
+
+  constructor(code: MetricsErrorCode, message: string) {
+    super(message);
+    this.name = 'MetricsError';
+    this.code = code;
+  }
+}
+
+// Buckets the mirror-overlap IoU for the coarse high/medium/low readout.
+const getSymmetry = (iou: number): 'high' | 'medium' | 'low' => {
+  if (iou >= 0.9) return 'high';
+  if (iou >= 0.7) return 'medium';
+  return 'low';
+};
+
+const assertRaster = (raster: RasterImage) => {
+  const { width, height, data } = raster;
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+    throw new MetricsError('EMPTY_RASTER', `Raster has no measurable area (${width}x${height}).`);
+  }
+  if (data.length !== width * height * 4) {
+    throw new MetricsError('INVALID_BUFFER', `Expected ${width * height * 4} RGBA bytes, received ${data.length}.`);
+  }
+};
 
-import { LogoMetrics } from "../types";
+// Validates the raster and runs the segmentation stage that feeds every metric pass.
+export const extractForeground = (raster: RasterImage, segmentation: SegmentationOptions = DEFAULT_SEGMENTATION): ForegroundMask => {
+  assertRaster(raster);
+  return segmentForeground(raster, segmentation);
+};
+
+// Pure metric core: operates on a raw RGBA buffer, usable in Node, workers and the browser.
+// Both centroids are always measured; `weighting` picks the one the offsets and quadrant weights report.
+export const computeLogoMetrics = (
+  raster: RasterImage,
+  segmentation: SegmentationOptions = DEFAULT_SEGMENTATION,
+  weighting: WeightingOptions = DEFAULT_WEIGHTING
+): LogoMetrics => {
+  const mask = extractForeground(raster, segmentation);
+  const { width, height, data } = mask;
+
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  let totalAlpha = 0;
+  let sumX = 0;
+  let sumY = 0;
+  let filledPixels = 0;
+
+  // Weights for quadrants
+  let weightL = 0, weightR = 0, weightT = 0, weightB = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const alpha = data[y * width + x];
+
+      if (alpha > 0) {
+        filledPixels++;
+        // Bounding box
+        if (x < minX) minX = x;
+        if (y < minY) minY = y;
+        if (x > maxX) maxX = x;
+        if (y > maxY) maxY = y;
+
+        // Center of mass
+        totalAlpha += alpha;
+        sumX += x * alpha;
+        sumY += y * alpha;
+
+        // Quadrant weights
+        if (x < width / 2) weightL += alpha;
+        else weightR += alpha;
+
+        if (y < height / 2) weightT += alpha;
+        else weightB += alpha;
+      }
+    }
+  }
+
+  if (filledPixels === 0 || totalAlpha === 0) {
+    throw new MetricsError('NO_FOREGROUND', 'Segmentation isolated no foreground pixels.');
+  }
+
+  const centerX = sumX / totalAlpha;
+  const centerY = sumY / totalAlpha;
+
+  const symmetry = computeSymmetry(mask, { x: centerX, y: centerY });
+
+  // Inclusive extents: a single-pixel stroke still spans one pixel, so density stays finite.
+  const bbWidth = maxX - minX + 1;
+  const bbHeight = maxY - minY + 1;
+  const density = (filledPixels / (bbWidth * bbHeight)) * 100;
+  const markSize = Math.max(bbWidth, bbHeight);
+  const labelling = labelComponents(mask);
+  const topology = computeTopology(mask, labelling, markSize);
+  const shape = computeShape(mask, labelling, markSize);
+  const legibility = computeLegibility(mask, labelling);
+  const boundingBox = { x: minX, y: minY, width: bbWidth, height: bbHeight };
+  const construction = computeConstruction(boundingBox, { x: centerX, y: centerY }, shape, topology.components);
+  const clearSpace = computeClearSpace(mask, boundingBox, topology.components);
+  const optical = computeOptical(raster, mask, weighting);
+  const perceptual = weighting.mode === 'optical' && optical ? optical : null;
+
+  return {
+    width,
+    height,
+    aspect_ratio: width / height,
+    symmetry_vertical: getSymmetry(symmetry.mirror_vertical),
+    symmetry_horizontal: getSymmetry(symmetry.mirror_horizontal),
+    center_offset_x: perceptual ? perceptual.offset_x : ((centerX - width / 2) / width) * 100,
+    center_offset_y: perceptual ? perceptual.offset_y : ((centerY - height / 2) / height) * 100,
+    weight_left: perceptual ? perceptual.weight_left : (weightL / totalAlpha) * 100,
+    weight_right: perceptual ? perceptual.weight_right : (weightR / totalAlpha) * 100,
+    weight_top: perceptual ? perceptual.weight_top : (weightT / totalAlpha) * 100,
+    weight_bottom: perceptual ? perceptual.weight_bottom : (weightB / totalAlpha) * 100,
+    density,
+    complexity_index: shape.edge_complexity,
+    boundingBox,
+    centerOfMass: {
+      x: centerX,
+      y: centerY
+    },
+    symmetry,
+    topology,
+    shape,
+    legibility,
+    construction,
+    clear_space: clearSpace,
+    ...(optical ? { optical } : {}),
+    weighting: perceptual ? 'optical' : 'alpha',
+    segmentation: {
+      mode: mask.mode,
+      threshold: mask.threshold,
+      background: mask.background
+    }
+  };
+};
 
-export const getLogoMetrics = async (imageSrc: string): Promise<LogoMetrics> => {
+// Browser loader: decodes an image source into an RGBA raster via an offscreen canvas.
+export const loadRaster = (imageSrc: string): Promise<RasterImage> => {
   return new Promise((resolve, reject) => {
     const img = new Image();
     img.crossOrigin = "anonymous";
     img.src = imageSrc;
 
     img.onload = () => {
+      if (img.width === 0 || img.height === 0) {
+        return reject(new MetricsError('EMPTY_RASTER', 'Decoded artifact has zero intrinsic dimensions.'));
+      }
+
       const canvas = document.createElement('canvas');
       const ctx = canvas.getContext('2d', { willReadFrequently: true });
-      if (!ctx) return reject('Could not create canvas context');
+      if (!ctx) return reject(new MetricsError('DECODE_FAILURE', 'Could not create canvas context.'));
 
       canvas.width = img.width;
       canvas.height = img.height;
       ctx.drawImage(img, 0, 0);
 
       const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const data = imageData.data;
-
-      let minX = canvas.width, minY = canvas.height, maxX = 0, maxY = 0;
-      let totalAlpha = 0;
-      let sumX = 0;
-      let sumY = 0;
-      let filledPixels = 0;
-
-      // Weights for quadrants
-      let weightL = 0, weightR = 0, weightT = 0, weightB = 0;
-
-      for (let y = 0; y < canvas.height; y++) {
-        for (let x = 0; x < canvas.width; x++) {
-          const idx = (y * canvas.width + x) * 4;
-          const alpha = data[idx + 3];
-
-          if (alpha > 0) {
-            filledPixels++;
-            // Bounding box
-            if (x < minX) minX = x;
-            if (y < minY) minY = y;
-            if (x > maxX) maxX = x;
-            if (y > maxY) maxY = y;
-
-            // Center of mass
-            totalAlpha += alpha;
-            sumX += x * alpha;
-            sumY += y * alpha;
-
-            // Quadrant weights
-            if (x < canvas.width / 2) weightL += alpha;
-            else weightR += alpha;
-
-            if (y < canvas.height / 2) weightT += alpha;
-            else weightB += alpha;
-          }
-        }
-      }
-
-      const centerX = sumX / totalAlpha;
-      const centerY = sumY / totalAlpha;
-
-      const diffV = Math.abs(weightL - weightR) / totalAlpha;
-      const diffH = Math.abs(weightT - weightB) / totalAlpha;
-
-      const getSymmetry = (diff: number) => {
-        if (diff < 0.05) return 'high';
-        if (diff < 0.15) return 'medium';
-        return 'low';
-      };
-
-      const bbWidth = maxX - minX;
-      const bbHeight = maxY - minY;
-      const density = (filledPixels / (bbWidth * bbHeight)) * 100;
-
-      resolve({
-        width: canvas.width,
-        height: canvas.height,
-        aspect_ratio: img.width / img.height,
-        symmetry_vertical: getSymmetry(diffV),
-        symmetry_horizontal: getSymmetry(diffH),
-        center_offset_x: ((centerX - canvas.width / 2) / canvas.width) * 100,
-        center_offset_y: ((centerY - canvas.height / 2) / canvas.height) * 100,
-        weight_left: (weightL / totalAlpha) * 100,
-        weight_right: (weightR / totalAlpha) * 100,
-        weight_top: (weightT / totalAlpha) * 100,
-        weight_bottom: (weightB / totalAlpha) * 100,
-        density,
-        complexity_index: filledPixels / (canvas.width + canvas.height), // simple heuristic
-        boundingBox: {
-          x: minX,
-          y: minY,
-          width: bbWidth,
-          height: bbHeight
-        },
-        centerOfMass: {
-          x: centerX,
-          y: centerY
-        }
-      });
+      resolve({ width: imageData.width, height: imageData.height, data: imageData.data });
     };
 
-    img.onerror = reject;
+    img.onerror = () => reject(new MetricsError('DECODE_FAILURE', 'Artifact could not be decoded.'));
   });
 };
+
+export const getLogoMetrics = async (
+  imageSrc: string,
+  segmentation: SegmentationOptions = DEFAULT_SEGMENTATION,
+  weighting: WeightingOptions = DEFAULT_WEIGHTING
+): Promise<LogoMetrics> => {
+  const raster = await loadRaster(imageSrc);
+  return computeLogoMetrics(raster, segmentation, weighting);
+};
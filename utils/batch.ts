@@ -0,0 +1,69 @@
+import { BatchItem } from "../types";
+
+export type BatchSortKey = 'name' | 'status' | 'score' | 'offset' | 'symmetry' | 'density' | 'complexity' | 'components';
+
+// Table columns double as CSV columns; `value` is what both sort and export read.
+export const BATCH_COLUMNS: { key: BatchSortKey; label: string; value: (item: BatchItem) => number | string | null }[] = [
+  { key: 'name', label: 'Name', value: item => item.name },
+  { key: 'status', label: 'Status', value: item => item.status },
+  { key: 'score', label: 'SHI', value: item => item.analysis?.score ?? null },
+  { key: 'offset', label: 'Offset %', value: item => (item.metrics ? Math.hypot(item.metrics.center_offset_x, item.metrics.center_offset_y) : null) },
+  { key: 'symmetry', label: 'Axis IoU', value: item => item.metrics?.symmetry?.axis_score ?? null },
+  { key: 'density', label: 'Density %', value: item => item.metrics?.density ?? null },
+  { key: 'complexity', label: 'Complexity', value: item => item.metrics?.complexity_index ?? null },
+  { key: 'components', label: 'Components', value: item => item.metrics?.topology?.component_count ?? null }
+];
+
+// Items without a value sink to the bottom whichever way the column is sorted.
+export const sortBatch = (items: BatchItem[], key: BatchSortKey, ascending: boolean): BatchItem[] => {
+  const column = BATCH_COLUMNS.find(c => c.key === key)!;
+  return [...items].sort((a, b) => {
+    const va = column.value(a);
+    const vb = column.value(b);
+    if (va === null || vb === null) return va === vb ? 0 : va === null ? 1 : -1;
+    const order = typeof va === 'number' && typeof vb === 'number' ? va - vb : String(va).localeCompare(String(vb));
+    return ascending ? order : -order;
+  });
+};
+
+const csvCell = (value: number | string | null | undefined) => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'number' ? String(Math.round(value * 10000) / 10000) : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const batchToCsv = (items: BatchItem[]): string => {
+  const header = [...BATCH_COLUMNS.map(c => c.label), 'Error', 'Archive Id'];
+  const rows = items.map(item => [...BATCH_COLUMNS.map(c => c.value(item)), item.error ?? null, item.archiveId ?? null]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
+
+// Full records without the image payloads, which stay in the archive.
+export const batchToJson = (items: BatchItem[]): string =>
+  JSON.stringify({
+    exported_at: Date.now(),
+    items: items.map(({ imageSrc, ...item }) => item)
+  }, null, 2);
+
+// Spaces task starts at least 60 000 / perMinute ms apart; 0 disables the limit.
+export const createRateLimiter = (perMinute: number) => {
+  let nextSlot = 0;
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (perMinute > 0) {
+      const now = Date.now();
+      const start = Math.max(now, nextSlot);
+      nextSlot = start + 60000 / perMinute;
+      if (start > now) await new Promise(resolve => setTimeout(resolve, start - now));
+    }
+    return task();
+  };
+};
+
+// Runs `worker` over ids pulled from `take` with at most `concurrency` in flight. Pulling (rather
+// than a fixed list) lets retries join a run that is already going.
+export const runQueue = async (take: () => string | undefined, worker: (id: string) => Promise<void>, concurrency: number) => {
+  const lane = async () => {
+    for (let id = take(); id !== undefined; id = take()) await worker(id);
+  };
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, lane));
+};
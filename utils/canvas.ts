@@ -0,0 +1,211 @@
+import { ForegroundMask, LogoMetrics, RasterImage } from "../types";
+import { reframeRaster } from "./correction";
+
+// Browser-only rendering helpers; the metric modules stay DOM-free.
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+};
+
+// Rasterizes the artifact at an exact pixel size with smoothing on, like a browser favicon render.
+export const renderThumbnail = async (imageSrc: string, width: number, height: number): Promise<string> => {
+  const img = await loadImage(imageSrc);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create canvas context');
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, width, height);
+  return canvas.toDataURL('image/png');
+};
+
+const fitScale = (width: number, height: number, maxSize: number) => Math.min(1, maxSize / Math.max(width, height));
+
+// Splits a data URL into the bare base64 payload and its MIME type, as inline-image APIs expect.
+export const splitDataUrl = (dataUrl: string) => {
+  const match = /^data:([^;,]+)(?:;[^,]*)?,(.*)$/.exec(dataUrl);
+  if (!match) throw new Error('Not a base64 data URL');
+  return { mimeType: match[1], data: match[2] };
+};
+
+// Re-encodes the artifact as PNG with its longest edge capped; never upscales.
+export const renderDownscaled = async (imageSrc: string, maxSize: number): Promise<string> => {
+  const img = await loadImage(imageSrc);
+  const scale = fitScale(img.naturalWidth, img.naturalHeight, maxSize);
+  return renderThumbnail(imageSrc, Math.max(1, Math.round(img.naturalWidth * scale)), Math.max(1, Math.round(img.naturalHeight * scale)));
+};
+
+// Encodes an RGBA buffer as a PNG data URL.
+export const renderRaster = (raster: RasterImage): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = raster.width;
+  canvas.height = raster.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create canvas context');
+  const image = ctx.createImageData(raster.width, raster.height);
+  image.data.set(raster.data);
+  ctx.putImageData(image, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+// Draws `frame` of the raster scaled into `target` on a fresh canvas of the given size.
+export const renderPadded = (
+  raster: RasterImage,
+  frame: { x: number; y: number; width: number; height: number },
+  target: { x: number; y: number; width: number; height: number },
+  width: number,
+  height: number,
+  fill: [number, number, number, number]
+): string => {
+  const source = document.createElement('canvas');
+  source.width = frame.width;
+  source.height = frame.height;
+  const sourceCtx = source.getContext('2d');
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!sourceCtx || !ctx) throw new Error('Could not create canvas context');
+  const image = sourceCtx.createImageData(frame.width, frame.height);
+  image.data.set(reframeRaster(raster, frame, fill).data);
+  sourceCtx.putImageData(image, 0, 0);
+  if (fill[3] > 0) {
+    ctx.fillStyle = `rgba(${fill[0]}, ${fill[1]}, ${fill[2]}, ${fill[3] / 255})`;
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, target.x, target.y, target.width, target.height);
+  return canvas.toDataURL('image/png');
+};
+
+// Segmentation mask as ink on a transparent ground, for layering over the artifact.
+export const renderMaskImage = (mask: ForegroundMask, ink: [number, number, number] = [37, 99, 235]): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = mask.width;
+  canvas.height = mask.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create canvas context');
+  const image = ctx.createImageData(mask.width, mask.height);
+  for (let i = 0; i < mask.data.length; i++) {
+    if (mask.data[i] === 0) continue;
+    image.data[i * 4] = ink[0];
+    image.data[i * 4 + 1] = ink[1];
+    image.data[i * 4 + 2] = ink[2];
+    image.data[i * 4 + 3] = 255;
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+// Flattens the segmentation mask and the main structural guides into one image: ink on paper,
+// bounding box and hull in grey, symmetry axis and centroid in red, canvas centre in blue.
+export const renderStructuralPlate = (mask: ForegroundMask, metrics: LogoMetrics, maxSize: number): string => {
+  const source = document.createElement('canvas');
+  source.width = mask.width;
+  source.height = mask.height;
+  const sourceCtx = source.getContext('2d');
+  if (!sourceCtx) throw new Error('Could not create canvas context');
+  const image = sourceCtx.createImageData(mask.width, mask.height);
+  for (let i = 0; i < mask.data.length; i++) {
+    const ink = mask.data[i] > 0 ? 0 : 255;
+    image.data[i * 4] = ink;
+    image.data[i * 4 + 1] = ink;
+    image.data[i * 4 + 2] = ink;
+    image.data[i * 4 + 3] = 255;
+  }
+  sourceCtx.putImageData(image, 0, 0);
+
+  const scale = fitScale(mask.width, mask.height, maxSize);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(mask.width * scale));
+  canvas.height = Math.max(1, Math.round(mask.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create canvas context');
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  ctx.scale(scale, scale);
+  ctx.lineWidth = 1.5 / scale;
+
+  const { boundingBox, centerOfMass, width, height } = metrics;
+  ctx.strokeStyle = '#9ca3af';
+  ctx.strokeRect(boundingBox.x, boundingBox.y, boundingBox.width, boundingBox.height);
+  if (metrics.shape && metrics.shape.hull.length > 2) {
+    ctx.beginPath();
+    metrics.shape.hull.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+    ctx.closePath();
+    ctx.stroke();
+  }
+
+  ctx.strokeStyle = '#2563eb';
+  ctx.beginPath();
+  ctx.moveTo(width / 2, 0);
+  ctx.lineTo(width / 2, height);
+  ctx.moveTo(0, height / 2);
+  ctx.lineTo(width, height / 2);
+  ctx.stroke();
+
+  ctx.strokeStyle = '#dc2626';
+  ctx.fillStyle = '#dc2626';
+  if (metrics.symmetry) {
+    const rad = (metrics.symmetry.axis_angle * Math.PI) / 180;
+    const reach = Math.hypot(width, height);
+    ctx.beginPath();
+    ctx.moveTo(centerOfMass.x - Math.sin(rad) * reach, centerOfMass.y - Math.cos(rad) * reach);
+    ctx.lineTo(centerOfMass.x + Math.sin(rad) * reach, centerOfMass.y + Math.cos(rad) * reach);
+    ctx.stroke();
+  }
+  ctx.beginPath();
+  ctx.arc(centerOfMass.x, centerOfMass.y, 4 / scale, 0, Math.PI * 2);
+  ctx.fill();
+
+  return canvas.toDataURL('image/png');
+};
+
+// Standalone SVG of a rendered overlay with the artifact embedded underneath, at the artifact's own
+// pixel size (the overlay viewBox is the analysis canvas). `artifactOpacity` fades the artifact the
+// way the on-screen trace does.
+export const composeOverlaySvg = (svg: SVGSVGElement, imageSrc: string, width: number, height: number, artifactOpacity = 1): string => {
+  const ns = 'http://www.w3.org/2000/svg';
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', ns);
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.removeAttribute('class');
+  clone.querySelector('[data-layer="artifact"]')?.remove(); // the on-screen ghost; replaced below
+  const viewBox = clone.viewBox.baseVal;
+  const paper = document.createElementNS(ns, 'rect');
+  paper.setAttribute('width', String(viewBox.width));
+  paper.setAttribute('height', String(viewBox.height));
+  paper.setAttribute('fill', '#ffffff');
+  const artifact = document.createElementNS(ns, 'image');
+  artifact.setAttribute('href', imageSrc);
+  artifact.setAttribute('width', String(viewBox.width));
+  artifact.setAttribute('height', String(viewBox.height));
+  artifact.setAttribute('preserveAspectRatio', 'none');
+  artifact.setAttribute('opacity', String(artifactOpacity));
+  const first = clone.querySelector('defs')?.nextSibling ?? clone.firstChild;
+  clone.insertBefore(artifact, first);
+  clone.insertBefore(paper, artifact);
+  return new XMLSerializer().serializeToString(clone);
+};
+
+// PNG of `composeOverlaySvg`, drawn through an <img> so the browser's SVG renderer does the work.
+export const rasterizeOverlay = async (svg: SVGSVGElement, imageSrc: string, width: number, height: number, artifactOpacity = 1): Promise<string> => {
+  const markup = composeOverlaySvg(svg, imageSrc, width, height, artifactOpacity);
+  const img = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create canvas context');
+  ctx.drawImage(img, 0, 0, width, height);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,85 @@
+import { ClearSpaceMetrics, ClearSpaceUnit, ComponentRegion } from "../types";
+
+type Box = { x: number; y: number; width: number; height: number };
+
+export const DEFAULT_CLEAR_SPACE_MULTIPLE = 0.5;
+// Opposite margins further apart than this share of the mark's height count as uneven padding.
+export const UNEVEN_TOLERANCE = 0.05;
+
+export interface PaddedPreset {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+  opaque: boolean; // platforms that reject transparency get the ground, or white
+}
+
+export const PADDED_PRESETS: PaddedPreset[] = [
+  { id: 'avatar', label: 'Square avatar', width: 400, height: 400, opaque: false },
+  { id: 'banner', label: 'Social banner', width: 1500, height: 500, opaque: false },
+  { id: 'app-icon', label: 'App icon', width: 1024, height: 1024, opaque: true }
+];
+
+// The largest component stands for the symbol in a lockup; a single mass is measured by itself.
+export const defaultClearSpaceUnit = (components: ComponentRegion[]): ClearSpaceUnit => {
+  if (components.length < 2) return { source: 'mark', component: null, multiple: DEFAULT_CLEAR_SPACE_MULTIPLE };
+  const largest = components.reduce((a, b) => (b.area > a.area ? b : a));
+  return { source: 'component', component: largest.id, multiple: DEFAULT_CLEAR_SPACE_MULTIPLE };
+};
+
+export const computeClearSpace = (
+  canvas: { width: number; height: number },
+  boundingBox: Box,
+  components: ComponentRegion[],
+  unit: ClearSpaceUnit = defaultClearSpaceUnit(components)
+): ClearSpaceMetrics => {
+  const margins = {
+    top: boundingBox.y,
+    right: canvas.width - boundingBox.x - boundingBox.width,
+    bottom: canvas.height - boundingBox.y - boundingBox.height,
+    left: boundingBox.x
+  };
+  const markHeight = boundingBox.height;
+  const relative = {
+    top: margins.top / markHeight,
+    right: margins.right / markHeight,
+    bottom: margins.bottom / markHeight,
+    left: margins.left / markHeight
+  };
+
+  // A unit naming a component that no longer exists (re-scan, older record) falls back to the mark.
+  const component = unit.source === 'component' ? components.find(c => c.id === unit.component) : undefined;
+  const resolved: ClearSpaceUnit = component ? unit : { source: 'mark', component: null, multiple: unit.multiple };
+  const unitPx = component ? component.boundingBox.height : markHeight;
+  const depth = unitPx * unit.multiple;
+  const zone = {
+    x: boundingBox.x - depth,
+    y: boundingBox.y - depth,
+    width: boundingBox.width + depth * 2,
+    height: boundingBox.height + depth * 2
+  };
+
+  return {
+    margins,
+    relative,
+    uneven: Math.abs(relative.left - relative.right) > UNEVEN_TOLERANCE || Math.abs(relative.top - relative.bottom) > UNEVEN_TOLERANCE,
+    unit: resolved,
+    unit_px: unitPx,
+    zone,
+    zone_fits: zone.x >= 0 && zone.y >= 0 && zone.x + zone.width <= canvas.width && zone.y + zone.height <= canvas.height
+  };
+};
+
+// Integer source frame holding the zone, and where it lands on a preset canvas: scaled to fit, centred.
+export const paddedPlacement = (zone: Box, preset: PaddedPreset) => {
+  const frame = {
+    x: Math.floor(zone.x),
+    y: Math.floor(zone.y),
+    width: Math.ceil(zone.x + zone.width) - Math.floor(zone.x),
+    height: Math.ceil(zone.y + zone.height) - Math.floor(zone.y)
+  };
+  const scale = Math.min(preset.width / frame.width, preset.height / frame.height);
+  const width = frame.width * scale;
+  const height = frame.height * scale;
+  return { frame, target: { x: (preset.width - width) / 2, y: (preset.height - height) / 2, width, height } };
+};
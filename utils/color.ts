@@ -0,0 +1,192 @@
+import { ColorConflict, ColorMetrics, ForegroundMask, PaletteColor, RasterImage, RGB, VisionCondition } from "../types";
+
+const MAX_PALETTE = 8;
+const MIN_COVERAGE = 0.01;
+// RGB distance under which two quantised buckets are treated as one ink.
+const MERGE_DISTANCE = 40;
+// CIE76 ΔE below which two inks read as the same colour.
+const CONFLICT_DELTA_E = 12;
+const BASE_BACKGROUNDS = ['#FFFFFF', '#000000'];
+
+export const toHex = ({ r, g, b }: RGB) =>
+  '#' + [r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('').toUpperCase();
+
+export const parseHex = (hex: string): RGB | null => {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+  const digits = match[1].length === 3 ? match[1].split('').map(c => c + c).join('') : match[1];
+  const value = parseInt(digits, 16);
+  return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 };
+};
+
+const toLinear = (channel: number) => {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+};
+
+const toGamma = (linear: number) => {
+  const c = Math.min(1, Math.max(0, linear));
+  return 255 * (c <= 0.0031308 ? c * 12.92 : 1.055 * c ** (1 / 2.4) - 0.055);
+};
+
+// WCAG 2.x relative luminance.
+export const relativeLuminance = ({ r, g, b }: RGB) => 0.2126 * toLinear(r) + 0.7152 * toLinear(g) + 0.0722 * toLinear(b);
+
+// CIE L* (0-100); depends on luminance alone.
+export const lightness = (rgb: RGB) => {
+  const y = relativeLuminance(rgb);
+  return y > 0.008856 ? 116 * Math.cbrt(y) - 16 : 903.3 * y;
+};
+
+export const contrastRatio = (a: RGB, b: RGB) => {
+  const la = relativeLuminance(a);
+  const lb = relativeLuminance(b);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+};
+
+const toLab = (rgb: RGB) => {
+  const r = toLinear(rgb.r), g = toLinear(rgb.g), b = toLinear(rgb.b);
+  // sRGB -> XYZ (D65), normalised by the reference white.
+  const x = (0.4124 * r + 0.3576 * g + 0.1805 * b) / 0.95047;
+  const y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  const z = (0.0193 * r + 0.1192 * g + 0.9505 * b) / 1.08883;
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  return { l: 116 * f(y) - 16, a: 500 * (f(x) - f(y)), b: 200 * (f(y) - f(z)) };
+};
+
+export const deltaE = (a: RGB, b: RGB) => {
+  const la = toLab(a);
+  const lb = toLab(b);
+  return Math.hypot(la.l - lb.l, la.a - lb.a, la.b - lb.b);
+};
+
+// Dichromat simulation matrices in linear RGB (Machado et al. 2009, severity 1.0).
+const CVD_MATRICES: Record<Exclude<VisionCondition, 'grayscale'>, number[]> = {
+  protanopia: [0.152286, 1.052583, -0.204868, 0.114503, 0.786281, 0.099216, -0.003882, -0.048116, 1.051998],
+  deuteranopia: [0.367322, 0.860646, -0.227968, 0.280085, 0.672501, 0.047413, -0.011820, 0.042940, 0.968881],
+  tritanopia: [1.255528, -0.076749, -0.178779, -0.078411, 0.930809, 0.147602, 0.004733, 0.691367, 0.303900]
+};
+
+export const simulateVision = (rgb: RGB, condition: VisionCondition): RGB => {
+  if (condition === 'grayscale') {
+    const y = toGamma(relativeLuminance(rgb));
+    return { r: y, g: y, b: y };
+  }
+  const m = CVD_MATRICES[condition];
+  const r = toLinear(rgb.r), g = toLinear(rgb.g), b = toLinear(rgb.b);
+  return {
+    r: toGamma(m[0] * r + m[1] * g + m[2] * b),
+    g: toGamma(m[3] * r + m[4] * g + m[5] * b),
+    b: toGamma(m[6] * r + m[7] * g + m[8] * b)
+  };
+};
+
+const VISION_CONDITIONS: VisionCondition[] = ['grayscale', 'protanopia', 'deuteranopia', 'tritanopia'];
+
+// Dominant foreground inks: 4-bit-per-channel buckets, merged greedily from the most populous down.
+const extractPalette = (raster: RasterImage, mask: ForegroundMask) => {
+  const { data } = raster;
+  const counts = new Uint32Array(4096);
+  const sums = new Float64Array(4096 * 3);
+  let total = 0;
+
+  for (let i = 0; i < mask.data.length; i++) {
+    // Skip anti-aliased fringe; it is a blend of ink and ground, not an ink.
+    if (mask.data[i] < 128) continue;
+    const idx = i * 4;
+    const bucket = ((data[idx] >> 4) << 8) | ((data[idx + 1] >> 4) << 4) | (data[idx + 2] >> 4);
+    counts[bucket]++;
+    sums[bucket * 3] += data[idx];
+    sums[bucket * 3 + 1] += data[idx + 1];
+    sums[bucket * 3 + 2] += data[idx + 2];
+    total++;
+  }
+
+  const buckets: number[] = [];
+  for (let i = 0; i < counts.length; i++) if (counts[i] > 0) buckets.push(i);
+  buckets.sort((a, b) => counts[b] - counts[a]);
+
+  const clusters: { r: number; g: number; b: number; count: number }[] = [];
+  for (const bucket of buckets) {
+    const count = counts[bucket];
+    const colour = { r: sums[bucket * 3] / count, g: sums[bucket * 3 + 1] / count, b: sums[bucket * 3 + 2] / count };
+    let nearest = -1;
+    let nearestDistance = Infinity;
+    clusters.forEach((cluster, index) => {
+      const distance = Math.hypot(cluster.r - colour.r, cluster.g - colour.g, cluster.b - colour.b);
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearest = index;
+      }
+    });
+
+    if (nearest === -1 || (nearestDistance > MERGE_DISTANCE && clusters.length < MAX_PALETTE)) {
+      clusters.push({ ...colour, count });
+    } else {
+      const cluster = clusters[nearest];
+      const merged = cluster.count + count;
+      cluster.r = (cluster.r * cluster.count + colour.r * count) / merged;
+      cluster.g = (cluster.g * cluster.count + colour.g * count) / merged;
+      cluster.b = (cluster.b * cluster.count + colour.b * count) / merged;
+      cluster.count = merged;
+    }
+  }
+
+  return clusters
+    .map(cluster => ({ rgb: { r: Math.round(cluster.r), g: Math.round(cluster.g), b: Math.round(cluster.b) }, coverage: total > 0 ? cluster.count / total : 0 }))
+    .filter(entry => entry.coverage >= MIN_COVERAGE)
+    .sort((a, b) => b.coverage - a.coverage);
+};
+
+const normaliseBackgrounds = (backgrounds: string[]) => {
+  const seen = new Set<string>();
+  for (const hex of [...BASE_BACKGROUNDS, ...backgrounds]) {
+    const rgb = parseHex(hex);
+    if (rgb) seen.add(toHex(rgb));
+  }
+  return [...seen];
+};
+
+const findConflicts = (palette: PaletteColor[]): ColorConflict[] => {
+  const conflicts: ColorConflict[] = [];
+  for (let i = 0; i < palette.length; i++) {
+    for (let j = i + 1; j < palette.length; j++) {
+      // Already indistinct in full colour: a palette problem, not a vision-condition one.
+      if (deltaE(palette[i].rgb, palette[j].rgb) < CONFLICT_DELTA_E) continue;
+      for (const condition of VISION_CONDITIONS) {
+        const delta = deltaE(simulateVision(palette[i].rgb, condition), simulateVision(palette[j].rgb, condition));
+        if (delta < CONFLICT_DELTA_E) conflicts.push({ a: palette[i].hex, b: palette[j].hex, condition, delta_e: delta });
+      }
+    }
+  }
+  return conflicts;
+};
+
+// Recomputes WCAG ratios for a new set of brand backgrounds without re-reading pixels.
+export const withBackgrounds = (color: ColorMetrics, backgrounds: string[]): ColorMetrics => {
+  const resolved = normaliseBackgrounds(backgrounds);
+  return {
+    ...color,
+    backgrounds: resolved,
+    palette: color.palette.map(entry => ({
+      ...entry,
+      contrast: Object.fromEntries(resolved.map(hex => [hex, contrastRatio(entry.rgb, parseHex(hex)!)]))
+    }))
+  };
+};
+
+export const computeColorMetrics = (raster: RasterImage, mask: ForegroundMask, backgrounds: string[] = []): ColorMetrics => {
+  const palette: PaletteColor[] = extractPalette(raster, mask).map(entry => ({
+    hex: toHex(entry.rgb),
+    rgb: entry.rgb,
+    coverage: entry.coverage,
+    contrast: {}
+  }));
+
+  return withBackgrounds({
+    palette,
+    background: mask.background ? toHex(mask.background) : null,
+    backgrounds: [],
+    conflicts: findConflicts(palette)
+  }, backgrounds);
+};
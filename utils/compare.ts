@@ -0,0 +1,120 @@
+import { DeltaVerdict, HarmonyIndex, LogoMetrics, MetricDelta, MetricReading } from "../types";
+import { computeHarmonyIndex } from "./scoring";
+
+// How a change in a field reads: toward the better end, toward 50/50, toward zero, or purely descriptive.
+type Direction = 'higher' | 'lower' | 'balance' | 'zero' | 'neutral';
+
+interface FieldSpec {
+  key: string;
+  group: string;
+  label: string;
+  direction: Direction;
+  read: (m: LogoMetrics) => number | string | null | undefined;
+}
+
+const BUCKET_RANK: Record<string, number> = { low: 0, medium: 1, high: 2 };
+
+// Changes smaller than this (relative to the larger magnitude) count as unchanged, so float noise never flags.
+const EPSILON = 0.005;
+
+const sample32 = (m: LogoMetrics) => m.legibility?.samples.find(s => s.size === 32);
+
+const FIELDS: FieldSpec[] = [
+  { key: 'width', group: 'Canvas', label: 'Width', direction: 'neutral', read: m => m.width },
+  { key: 'height', group: 'Canvas', label: 'Height', direction: 'neutral', read: m => m.height },
+  { key: 'boundingBox.width', group: 'Canvas', label: 'BBox Width', direction: 'neutral', read: m => m.boundingBox.width },
+  { key: 'boundingBox.height', group: 'Canvas', label: 'BBox Height', direction: 'neutral', read: m => m.boundingBox.height },
+  { key: 'centerOfMass.x', group: 'Centroid', label: 'Centroid X', direction: 'neutral', read: m => m.centerOfMass.x },
+  { key: 'centerOfMass.y', group: 'Centroid', label: 'Centroid Y', direction: 'neutral', read: m => m.centerOfMass.y },
+  { key: 'center_offset_x', group: 'Centroid', label: 'Offset X %', direction: 'zero', read: m => m.center_offset_x },
+  { key: 'center_offset_y', group: 'Centroid', label: 'Offset Y %', direction: 'zero', read: m => m.center_offset_y },
+  { key: 'optical.centroid.x', group: 'Centroid', label: 'Optical X', direction: 'neutral', read: m => m.optical?.centroid.x },
+  { key: 'optical.centroid.y', group: 'Centroid', label: 'Optical Y', direction: 'neutral', read: m => m.optical?.centroid.y },
+  { key: 'optical.offset_x', group: 'Centroid', label: 'Optical Offset X %', direction: 'zero', read: m => m.optical?.offset_x },
+  { key: 'optical.offset_y', group: 'Centroid', label: 'Optical Offset Y %', direction: 'zero', read: m => m.optical?.offset_y },
+  { key: 'weight_left', group: 'Balance', label: 'Weight L %', direction: 'balance', read: m => m.weight_left },
+  { key: 'weight_right', group: 'Balance', label: 'Weight R %', direction: 'balance', read: m => m.weight_right },
+  { key: 'weight_top', group: 'Balance', label: 'Weight T %', direction: 'balance', read: m => m.weight_top },
+  { key: 'weight_bottom', group: 'Balance', label: 'Weight B %', direction: 'balance', read: m => m.weight_bottom },
+  { key: 'clear_space.top', group: 'Clear Space', label: 'Margin T ×H', direction: 'neutral', read: m => m.clear_space?.relative.top },
+  { key: 'clear_space.right', group: 'Clear Space', label: 'Margin R ×H', direction: 'neutral', read: m => m.clear_space?.relative.right },
+  { key: 'clear_space.bottom', group: 'Clear Space', label: 'Margin B ×H', direction: 'neutral', read: m => m.clear_space?.relative.bottom },
+  { key: 'clear_space.left', group: 'Clear Space', label: 'Margin L ×H', direction: 'neutral', read: m => m.clear_space?.relative.left },
+  { key: 'density', group: 'Mass', label: 'Density %', direction: 'neutral', read: m => m.density },
+  { key: 'complexity_index', group: 'Mass', label: 'Complexity Ix', direction: 'lower', read: m => m.complexity_index },
+  { key: 'symmetry_vertical', group: 'Symmetry', label: 'Bucket V', direction: 'higher', read: m => m.symmetry_vertical },
+  { key: 'symmetry_horizontal', group: 'Symmetry', label: 'Bucket H', direction: 'higher', read: m => m.symmetry_horizontal },
+  { key: 'symmetry.mirror_vertical', group: 'Symmetry', label: 'Mirror IoU V', direction: 'higher', read: m => m.symmetry?.mirror_vertical },
+  { key: 'symmetry.mirror_horizontal', group: 'Symmetry', label: 'Mirror IoU H', direction: 'higher', read: m => m.symmetry?.mirror_horizontal },
+  { key: 'symmetry.axis_angle', group: 'Symmetry', label: 'Axis θ', direction: 'neutral', read: m => m.symmetry?.axis_angle },
+  { key: 'symmetry.axis_score', group: 'Symmetry', label: 'Axis IoU', direction: 'higher', read: m => m.symmetry?.axis_score },
+  { key: 'symmetry.rotational_order', group: 'Symmetry', label: 'Rot Order', direction: 'neutral', read: m => m.symmetry?.rotational_order },
+  { key: 'topology.component_count', group: 'Topology', label: 'Components', direction: 'neutral', read: m => m.topology?.component_count },
+  { key: 'topology.hole_count', group: 'Topology', label: 'Counters', direction: 'neutral', read: m => m.topology?.hole_count },
+  { key: 'topology.noise_components', group: 'Topology', label: 'Noise Specks', direction: 'lower', read: m => m.topology?.noise_components },
+  { key: 'topology.min_gap', group: 'Topology', label: 'Min Gap %', direction: 'higher', read: m => (m.topology?.gaps[0] ? m.topology.gaps[0].relative * 100 : null) },
+  { key: 'shape.solidity', group: 'Shape', label: 'Solidity', direction: 'neutral', read: m => m.shape?.solidity },
+  { key: 'shape.circularity', group: 'Shape', label: 'Circularity', direction: 'neutral', read: m => m.shape?.circularity },
+  { key: 'shape.corner_count', group: 'Shape', label: 'Corners', direction: 'neutral', read: m => m.shape?.corner_count },
+  { key: 'shape.edge_complexity', group: 'Shape', label: 'Edge Complexity', direction: 'lower', read: m => m.shape?.edge_complexity },
+  { key: 'construction.fit', group: 'Shape', label: 'Construction Fit', direction: 'higher', read: m => m.construction?.fits[0]?.fit },
+  { key: 'legibility.iou_32', group: 'Legibility', label: '32px IoU', direction: 'higher', read: m => sample32(m)?.iou },
+  { key: 'legibility.vanished_32', group: 'Legibility', label: '32px Vanished', direction: 'lower', read: m => sample32(m)?.vanished_components.length },
+  { key: 'legibility.thin_32', group: 'Legibility', label: '32px Thin Strokes', direction: 'lower', read: m => sample32(m)?.thin_stroke_ratio }
+];
+
+const toNumber = (value: number | string) => (typeof value === 'number' ? value : BUCKET_RANK[value] ?? 0);
+
+const verdictFor = (direction: Direction, before: number, after: number): DeltaVerdict => {
+  if (Math.abs(after - before) <= EPSILON * Math.max(1, Math.abs(before), Math.abs(after))) return 'unchanged';
+  if (direction === 'neutral') return 'neutral';
+  const gain = direction === 'higher' ? after - before
+    : direction === 'lower' ? before - after
+    : direction === 'zero' ? Math.abs(before) - Math.abs(after)
+    : Math.abs(before - 50) - Math.abs(after - 50);
+  return gain > 0 ? 'improved' : 'regressed';
+};
+
+const delta = (key: string, group: string, label: string, direction: Direction, before: number | string | null, after: number | string | null): MetricDelta => {
+  if (before === null || after === null) {
+    return { key, group, label, before, after, delta: null, verdict: before === after ? 'unchanged' : 'neutral' };
+  }
+  const a = toNumber(before);
+  const b = toNumber(after);
+  return { key, group, label, before, after, delta: b - a, verdict: verdictFor(direction, a, b) };
+};
+
+export const RUBRIC_VERSION_KEY = 'rubric_version';
+
+// The row is only present when the two sides were scored under different rubrics.
+export const rubricChange = (deltas: MetricDelta[]) => deltas.find(d => d.key === RUBRIC_VERSION_KEY) ?? null;
+
+// Every comparable metric plus the SHI and its criteria, in display order. Fields missing on
+// either side (older records) are listed with a null value rather than dropped.
+export const compareAnalyses = (before: LogoMetrics, after: LogoMetrics, harmonyBefore?: HarmonyIndex, harmonyAfter?: HarmonyIndex): MetricDelta[] => {
+  const hb = harmonyBefore ?? computeHarmonyIndex(before);
+  const ha = harmonyAfter ?? computeHarmonyIndex(after);
+  const rows = [delta('score', 'Harmony', 'SHI', 'higher', hb.score, ha.score)];
+  // Scores under different rubrics (alpha vs optical weighting) are listed, not differenced.
+  if (hb.version !== ha.version) {
+    rows[0] = { ...rows[0], delta: null, verdict: 'neutral' };
+    rows.push(delta(RUBRIC_VERSION_KEY, 'Harmony', 'Rubric Version', 'neutral', hb.version, ha.version));
+  }
+  const criteria = Array.from(new Set([...hb.criteria, ...ha.criteria].map(c => c.id)));
+  criteria.forEach(id => {
+    const b = hb.criteria.find(c => c.id === id);
+    const a = ha.criteria.find(c => c.id === id);
+    rows.push(delta(`harmony.${id}`, 'Harmony', (b ?? a)!.label, 'higher', b ? b.score : null, a ? a.score : null));
+  });
+  FIELDS.forEach(field => rows.push(delta(field.key, field.group, field.label, field.direction, field.read(before) ?? null, field.read(after) ?? null)));
+  return rows;
+};
+
+// One scan's readings in the same order and grouping as the comparison table, for reports.
+export const listMetrics = (metrics: LogoMetrics): MetricReading[] =>
+  FIELDS.map(field => ({ key: field.key, group: field.group, label: field.label, value: field.read(metrics) ?? null }));
+
+export const summarizeDeltas = (deltas: MetricDelta[]) => ({
+  improved: deltas.filter(d => d.verdict === 'improved').length,
+  regressed: deltas.filter(d => d.verdict === 'regressed').length
+});
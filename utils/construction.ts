@@ -0,0 +1,344 @@
+import { ComponentRegion, ConstructionFit, ConstructionGuides, ConstructionMetrics, ConstructionSystem, Point, ShapeMetrics } from "../types";
+import { polygonPerimeter } from "./contours";
+
+const PHI = (1 + Math.sqrt(5)) / 2;
+
+export const CONSTRUCTION_LABELS: Record<ConstructionSystem, string> = {
+  golden: 'Golden section',
+  root2: 'Root-2 rectangle',
+  root3: 'Root-3 rectangle',
+  thirds: 'Rule of thirds',
+  modular: 'Modular grid',
+  circles: 'Circle construction'
+};
+
+// Straight edges within this many degrees of an axis, and at least this share of the mark, are features.
+const AXIS_TOLERANCE = 10;
+const MIN_EDGE_RATIO = 0.02;
+// Rectangle systems lose up to a quarter of their fit as the frame aspect drifts this far (log ratio) from theirs.
+const ASPECT_TOLERANCE = Math.log(1.1);
+const ASPECT_WEIGHT = 0.25;
+const CENTROID_WEIGHT = 0.2;
+// Modular grids tried: the mark's longest side split into 2..24 units of at least 4px.
+const MIN_MODULES = 2;
+const MAX_MODULES = 24;
+const MIN_MODULE_PX = 4;
+const MODULE_PENALTY = 0.005; // per module, so a finer grid has to earn its extra lines
+// Circular arcs: residual tolerance relative to the mark, minimum vertices and sweep.
+const ARC_TOLERANCE_RATIO = 0.004;
+const MIN_ARC_POINTS = 5;
+const MAX_ARC_POINTS = 200;
+const MIN_ARC_SWEEP = Math.PI / 6;
+const MAX_GUIDE_CIRCLES = 8;
+// Below this fit no system is named; chance scores 0.
+const BEST_MIN_FIT = 0.4;
+
+interface Feature {
+  value: number; // canvas px along one axis
+  weight: number;
+}
+
+interface Frame {
+  x: number; // pixel-centre coordinates of the extreme ink pixels
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface AxisGuides {
+  x: number[]; // normalized 0-1 across the frame
+  y: number[];
+}
+
+interface Arc {
+  x: number;
+  y: number;
+  r: number;
+  rms: number;
+  length: number;
+}
+
+const RECTANGLE_SYSTEMS: { system: ConstructionSystem; aspect: number | null; lines: number[] }[] = [
+  { system: 'golden', aspect: PHI, lines: [0, PHI ** -3, PHI ** -2, PHI ** -1, 1 - PHI ** -3, 1] },
+  { system: 'root2', aspect: Math.SQRT2, lines: [0, 1 - Math.SQRT1_2, 0.5, Math.SQRT1_2, 1] },
+  { system: 'root3', aspect: Math.sqrt(3), lines: [0, 1 / 3, 1 - 1 / Math.sqrt(3), 1 / Math.sqrt(3), 2 / 3, 1] },
+  { system: 'thirds', aspect: null, lines: [0, 1 / 3, 2 / 3, 1] }
+];
+
+// Mean distance from a uniformly random point in [0, 1] to the nearest guide: the chance baseline.
+const expectedDistance = (guides: number[]) => {
+  const g = [...guides].sort((a, b) => a - b);
+  if (g.length === 0) return 0.5;
+  let sum = (g[0] * g[0]) / 2 + ((1 - g[g.length - 1]) ** 2) / 2;
+  for (let i = 1; i < g.length; i++) sum += ((g[i] - g[i - 1]) ** 2) / 4;
+  return sum;
+};
+
+const nearest = (value: number, guides: number[]) => guides.reduce((best, g) => Math.min(best, Math.abs(value - g)), Infinity);
+
+// Axis-aligned straight edges of the traced outlines plus component extents, minus the frame's own
+// edges, which every system contains and so cannot tell them apart.
+const collectFeatures = (frame: Frame, shape: ShapeMetrics, components: ComponentRegion[], markSize: number) => {
+  const xs: Feature[] = [];
+  const ys: Feature[] = [];
+  const minEdge = markSize * MIN_EDGE_RATIO;
+  for (const contour of shape.contours) {
+    for (let i = 0; i < contour.length; i++) {
+      const p = contour[i];
+      const q = contour[(i + 1) % contour.length];
+      const length = Math.hypot(q.x - p.x, q.y - p.y);
+      if (length < minEdge) continue;
+      const angle = (Math.atan2(Math.abs(q.y - p.y), Math.abs(q.x - p.x)) * 180) / Math.PI;
+      if (angle >= 90 - AXIS_TOLERANCE) xs.push({ value: (p.x + q.x) / 2, weight: length });
+      else if (angle <= AXIS_TOLERANCE) ys.push({ value: (p.y + q.y) / 2, weight: length });
+    }
+  }
+  for (const c of components) {
+    const { x, y, width, height } = c.boundingBox;
+    xs.push({ value: x, weight: height }, { value: x + width - 1, weight: height });
+    ys.push({ value: y, weight: width }, { value: y + height - 1, weight: width });
+  }
+  const inside = (value: number, start: number, extent: number) => value > start + 1 && value < start + extent - 1;
+  return {
+    xs: xs.filter(f => inside(f.value, frame.x, frame.width)),
+    ys: ys.filter(f => inside(f.value, frame.y, frame.height))
+  };
+};
+
+const scoreGrid = (
+  system: ConstructionSystem,
+  guides: AxisGuides,
+  frame: Frame,
+  features: { xs: Feature[]; ys: Feature[] },
+  centroid: Point,
+  markSize: number,
+  aspect: number | null
+): ConstructionFit => {
+  const axes = [
+    { features: features.xs, guides: guides.x, start: frame.x, extent: frame.width },
+    { features: features.ys, guides: guides.y, start: frame.y, extent: frame.height }
+  ].filter(axis => axis.extent > 0);
+
+  let observed = 0, expected = 0, weight = 0, deviationPx = 0;
+  for (const axis of axes) {
+    const chance = expectedDistance(axis.guides);
+    for (const f of axis.features) {
+      const d = nearest((f.value - axis.start) / axis.extent, axis.guides);
+      observed += f.weight * d;
+      expected += f.weight * chance;
+      weight += f.weight;
+      deviationPx += f.weight * d * axis.extent;
+    }
+  }
+  const edgeFit = expected > 0 ? Math.max(0, 1 - observed / expected) : null;
+
+  const centroidAxes = axes.map(axis => {
+    const d = nearest(((axis === axes[0] ? centroid.x : centroid.y) - axis.start) / axis.extent, axis.guides);
+    return { fit: Math.max(0, 1 - d / expectedDistance(axis.guides)), px: d * axis.extent };
+  });
+  const centroidFit = centroidAxes.reduce((sum, a) => sum + a.fit, 0) / Math.max(1, centroidAxes.length);
+  const centroidPx = Math.hypot(...centroidAxes.map(a => a.px));
+
+  // A mark with no interior edges has only its centroid as evidence, which alone never names a system.
+  let fit = edgeFit === null ? centroidFit * CENTROID_WEIGHT : edgeFit * (1 - CENTROID_WEIGHT) + centroidFit * CENTROID_WEIGHT;
+  let aspectError: number | null = null;
+  if (aspect !== null) {
+    const frameAspect = Math.max(frame.width, frame.height) / Math.max(1, Math.min(frame.width, frame.height));
+    aspectError = Math.abs(Math.log(frameAspect / aspect));
+    fit *= 1 - ASPECT_WEIGHT + ASPECT_WEIGHT * Math.max(0, 1 - aspectError / ASPECT_TOLERANCE);
+  }
+  return {
+    system,
+    fit,
+    deviation: weight > 0 ? (deviationPx / weight / markSize) * 100 : null,
+    centroid_deviation: (centroidPx / markSize) * 100,
+    aspect_error: aspectError
+  };
+};
+
+const moduleGuides = (unit: number, extent: number) => {
+  const lines: number[] = [];
+  for (let k = 0; k * unit <= extent + 1e-6; k++) lines.push((k * unit) / extent);
+  return lines;
+};
+
+// Algebraic (Kåsa) least-squares circle through the points, centred on their mean for conditioning.
+const fitCircle = (points: Point[]): Omit<Arc, 'length'> | null => {
+  const n = points.length;
+  let mx = 0, my = 0;
+  for (const p of points) { mx += p.x; my += p.y; }
+  mx /= n; my /= n;
+  let sxx = 0, syy = 0, sxy = 0, sxz = 0, syz = 0, sz = 0, sx = 0, sy = 0;
+  for (const p of points) {
+    const x = p.x - mx, y = p.y - my, z = x * x + y * y;
+    sxx += x * x; syy += y * y; sxy += x * y; sxz += x * z; syz += y * z; sz += z; sx += x; sy += y;
+  }
+  // Solve [sxx sxy sx; sxy syy sy; sx sy n] [D E F]^T = -[sxz syz sz]^T by Cramer's rule.
+  const det = (a: number[]) => a[0] * (a[4] * a[8] - a[5] * a[7]) - a[1] * (a[3] * a[8] - a[5] * a[6]) + a[2] * (a[3] * a[7] - a[4] * a[6]);
+  const m = [sxx, sxy, sx, sxy, syy, sy, sx, sy, n];
+  const b = [-sxz, -syz, -sz];
+  const d = det(m);
+  if (Math.abs(d) < 1e-9) return null;
+  const D = det([b[0], m[1], m[2], b[1], m[4], m[5], b[2], m[7], m[8]]) / d;
+  const E = det([m[0], b[0], m[2], m[3], b[1], m[5], m[6], b[2], m[8]]) / d;
+  const F = det([m[0], m[1], b[0], m[3], m[4], b[1], m[6], m[7], b[2]]) / d;
+  const cx = -D / 2, cy = -E / 2;
+  const r2 = cx * cx + cy * cy - F;
+  if (r2 <= 0) return null;
+  const r = Math.sqrt(r2);
+  let residual = 0;
+  for (const p of points) residual += (Math.hypot(p.x - mx - cx, p.y - my - cy) - r) ** 2;
+  return { x: cx + mx, y: cy + my, r, rms: Math.sqrt(residual / n) };
+};
+
+const sweep = (points: Point[], cx: number, cy: number) => {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    let delta = Math.atan2(points[i].y - cy, points[i].x - cx) - Math.atan2(points[i - 1].y - cy, points[i - 1].x - cx);
+    if (delta > Math.PI) delta -= 2 * Math.PI;
+    if (delta < -Math.PI) delta += 2 * Math.PI;
+    total += delta;
+  }
+  return Math.abs(total);
+};
+
+// Vertices alone are not enough: a square's corners lie on a circle too. Chord midpoints of a true
+// arc stay within the simplification tolerance of it.
+const chordsOnCircle = (points: Point[], circle: { x: number; y: number; r: number }, tolerance: number) => {
+  for (let i = 1; i < points.length; i++) {
+    const mx = (points[i].x + points[i - 1].x) / 2;
+    const my = (points[i].y + points[i - 1].y) / 2;
+    if (Math.abs(Math.hypot(mx - circle.x, my - circle.y) - circle.r) > tolerance) return false;
+  }
+  return true;
+};
+
+// Greedy arc growth along each simplified outline: extend a run of vertices while one circle still
+// explains it within tolerance.
+const findArcs = (contours: Point[][], markSize: number): Arc[] => {
+  const tolerance = Math.max(0.75, markSize * ARC_TOLERANCE_RATIO);
+  const arcs: Arc[] = [];
+  for (const contour of contours) {
+    const points = contour.length > 2 ? [...contour, contour[0]] : contour;
+    let i = 0;
+    while (i + MIN_ARC_POINTS <= points.length) {
+      let end = i + MIN_ARC_POINTS;
+      let best: Omit<Arc, 'length'> | null = null;
+      for (; end <= points.length && end - i <= MAX_ARC_POINTS; end++) {
+        const run = points.slice(i, end);
+        const circle = fitCircle(run);
+        if (!circle || circle.rms > tolerance || circle.r > markSize || !chordsOnCircle(run, circle, tolerance)) break;
+        best = circle;
+      }
+      const run = points.slice(i, end - 1);
+      if (best && sweep(run, best.x, best.y) >= MIN_ARC_SWEEP) {
+        let length = 0;
+        for (let k = 1; k < run.length; k++) length += Math.hypot(run[k].x - run[k - 1].x, run[k].y - run[k - 1].y);
+        arcs.push({ ...best, length });
+        i = end - 2;
+      } else {
+        i++;
+      }
+    }
+  }
+  return arcs;
+};
+
+// Arcs of one underlying circle (a ring split by a join, say) merge into a single guide.
+const mergeArcs = (arcs: Arc[], markSize: number): Arc[] => {
+  const tolerance = Math.max(1.5, markSize * ARC_TOLERANCE_RATIO * 3);
+  const circles: Arc[] = [];
+  for (const arc of [...arcs].sort((a, b) => b.length - a.length)) {
+    const match = circles.find(c => Math.hypot(c.x - arc.x, c.y - arc.y) <= tolerance && Math.abs(c.r - arc.r) <= tolerance);
+    if (!match) {
+      circles.push({ ...arc });
+      continue;
+    }
+    const total = match.length + arc.length;
+    match.x = (match.x * match.length + arc.x * arc.length) / total;
+    match.y = (match.y * match.length + arc.y * arc.length) / total;
+    match.r = (match.r * match.length + arc.r * arc.length) / total;
+    match.rms = (match.rms * match.length + arc.rms * arc.length) / total;
+    match.length = total;
+  }
+  return circles;
+};
+
+// Tests the mark against golden-section, root-2, root-3 and thirds subdivisions of its bounding box,
+// modular grids of a detected unit, and circle-based construction. Grid fits compare how close the
+// straight edges and centroid sit to each system's lines against what random placement would give,
+// so systems with many lines get no free advantage; the circle fit is the share of outline that
+// runs on circular arcs.
+export const computeConstruction = (
+  boundingBox: { x: number; y: number; width: number; height: number },
+  centroid: Point,
+  shape: ShapeMetrics,
+  components: ComponentRegion[]
+): ConstructionMetrics => {
+  const frame: Frame = { x: boundingBox.x, y: boundingBox.y, width: boundingBox.width - 1, height: boundingBox.height - 1 };
+  const markSize = Math.max(boundingBox.width, boundingBox.height);
+  const features = collectFeatures(frame, shape, components, markSize);
+  const fits: ConstructionFit[] = [];
+  const guideSets = new Map<ConstructionSystem, AxisGuides>();
+
+  for (const spec of RECTANGLE_SYSTEMS) {
+    const guides = { x: spec.lines, y: spec.lines };
+    guideSets.set(spec.system, guides);
+    fits.push(scoreGrid(spec.system, guides, frame, features, centroid, markSize, spec.aspect));
+  }
+
+  let module: number | null = null;
+  let modular: ConstructionFit | null = null;
+  const longest = Math.max(frame.width, frame.height);
+  for (let n = MIN_MODULES; n <= MAX_MODULES && longest / n >= MIN_MODULE_PX; n++) {
+    const unit = longest / n;
+    const guides = { x: moduleGuides(unit, frame.width), y: moduleGuides(unit, frame.height) };
+    const fit = scoreGrid('modular', guides, frame, features, centroid, markSize, null);
+    fit.fit = Math.max(0, fit.fit - MODULE_PENALTY * n);
+    if (!modular || fit.fit > modular.fit) {
+      modular = fit;
+      module = unit;
+      guideSets.set('modular', guides);
+    }
+  }
+  if (modular) fits.push(modular);
+
+  const perimeter = shape.contours.reduce((sum, contour) => sum + polygonPerimeter(contour), 0);
+  const circles = mergeArcs(findArcs(shape.contours, markSize), markSize);
+  const covered = circles.reduce((sum, c) => sum + c.length, 0);
+  fits.push({
+    system: 'circles',
+    fit: perimeter > 0 ? Math.min(1, covered / perimeter) : 0,
+    deviation: covered > 0 ? (circles.reduce((sum, c) => sum + c.rms * c.length, 0) / covered / markSize) * 100 : null,
+    centroid_deviation: circles.length > 0
+      ? (Math.min(...circles.map(c => Math.hypot(c.x - centroid.x, c.y - centroid.y))) / markSize) * 100
+      : null,
+    aspect_error: null
+  });
+
+  fits.sort((a, b) => b.fit - a.fit);
+  const best = fits[0].fit >= BEST_MIN_FIT ? fits[0].system : null;
+  let guides: ConstructionGuides | null = null;
+  if (best) {
+    const bbox = { ...boundingBox };
+    if (best === 'circles') {
+      guides = {
+        frame: bbox,
+        vertical: [],
+        horizontal: [],
+        // Outline coordinates are pixel centres; guides are drawn in pixel-edge space.
+        circles: circles.slice(0, MAX_GUIDE_CIRCLES).map(c => ({ x: c.x + 0.5, y: c.y + 0.5, r: c.r }))
+      };
+    } else {
+      const set = guideSets.get(best)!;
+      guides = {
+        frame: bbox,
+        vertical: set.x.map(g => bbox.x + g * bbox.width),
+        horizontal: set.y.map(g => bbox.y + g * bbox.height),
+        circles: []
+      };
+    }
+  }
+
+  return { best, fits, module, guides };
+};
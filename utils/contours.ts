@@ -0,0 +1,218 @@
+import { ForegroundMask, Point, ShapeMetrics } from "../types";
+import { ComponentLabels } from "./topology";
+
+// Clockwise in image space (y grows downward), starting east.
+const DIRECTIONS = [[1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1], [0, -1], [1, -1]];
+// A vertex whose outline turns by more than this is counted as a corner.
+const CORNER_ANGLE = 30;
+const CORNER_EPSILON_RATIO = 0.01;
+const DRAW_EPSILON_RATIO = 0.002;
+
+// Moore-neighbour trace of the region containing `start`, which must be its first pixel in raster order.
+export const traceBoundary = (width: number, height: number, inside: (x: number, y: number) => boolean, start: Point): Point[] => {
+  const test = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && inside(x, y);
+  const points: Point[] = [{ x: start.x, y: start.y }];
+  let x = start.x;
+  let y = start.y;
+  let dir = 0;
+  let firstDir = -1;
+  const limit = width * height * 4 + 8;
+
+  for (let step = 0; step < limit; step++) {
+    // Resume the sweep from just outside the region, relative to the direction we arrived from.
+    const from = dir % 2 === 0 ? (dir + 6) % 8 : (dir + 7) % 8;
+    let next = -1;
+    for (let k = 0; k < 8; k++) {
+      const d = (from + k) % 8;
+      if (test(x + DIRECTIONS[d][0], y + DIRECTIONS[d][1])) {
+        next = d;
+        break;
+      }
+    }
+    if (next === -1) break; // isolated pixel
+
+    // Jacob's criterion: done once the start pixel is left in the same direction as the first move.
+    if (x === start.x && y === start.y) {
+      if (firstDir === -1) firstDir = next;
+      else if (next === firstDir) break;
+    }
+
+    x += DIRECTIONS[next][0];
+    y += DIRECTIONS[next][1];
+    dir = next;
+    points.push({ x, y });
+  }
+
+  // The loop closes on the start pixel; keep the polygon open-ended.
+  if (points.length > 1 && points[points.length - 1].x === start.x && points[points.length - 1].y === start.y) points.pop();
+  return points;
+};
+
+// Chain length of a closed pixel outline: 1 per axial step, √2 per diagonal step.
+export const polygonPerimeter = (points: Point[]) => {
+  if (points.length < 2) return points.length === 1 ? 4 : 0;
+  let length = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    length += Math.hypot(b.x - a.x, b.y - a.y);
+  }
+  return length;
+};
+
+export const polygonArea = (points: Point[]) => {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+};
+
+// Andrew's monotone chain.
+export const convexHull = (input: Point[]): Point[] => {
+  const points = [...input].sort((a, b) => a.x - b.x || a.y - b.y);
+  if (points.length < 3) return points;
+  const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+  const lower: Point[] = [];
+  for (const p of points) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: Point[] = [];
+  for (let i = points.length - 1; i >= 0; i--) {
+    const p = points[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+  return lower.slice(0, -1).concat(upper.slice(0, -1));
+};
+
+const simplifyOpen = (points: Point[], epsilon: number): Point[] => {
+  if (points.length < 3) return points;
+  const first = points[0];
+  const last = points[points.length - 1];
+  const length = Math.hypot(last.x - first.x, last.y - first.y);
+  let maxDistance = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const p = points[i];
+    const distance = length === 0
+      ? Math.hypot(p.x - first.x, p.y - first.y)
+      : Math.abs((last.y - first.y) * p.x - (last.x - first.x) * p.y + last.x * first.y - last.y * first.x) / length;
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      index = i;
+    }
+  }
+  if (maxDistance <= epsilon) return [first, last];
+  const left = simplifyOpen(points.slice(0, index + 1), epsilon);
+  const right = simplifyOpen(points.slice(index), epsilon);
+  return left.slice(0, -1).concat(right);
+};
+
+// Ramer–Douglas–Peucker on a closed outline, split at the vertex farthest from the start.
+export const simplifyClosed = (points: Point[], epsilon: number): Point[] => {
+  if (points.length < 4) return points;
+  let far = 0;
+  let farDistance = -1;
+  for (let i = 1; i < points.length; i++) {
+    const d = Math.hypot(points[i].x - points[0].x, points[i].y - points[0].y);
+    if (d > farDistance) {
+      farDistance = d;
+      far = i;
+    }
+  }
+  const a = simplifyOpen(points.slice(0, far + 1), epsilon);
+  const b = simplifyOpen([...points.slice(far), points[0]], epsilon);
+  return a.slice(0, -1).concat(b.slice(0, -1));
+};
+
+const countCorners = (polygon: Point[]) => {
+  if (polygon.length < 3) return 0;
+  let corners = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const prev = polygon[(i - 1 + polygon.length) % polygon.length];
+    const curr = polygon[i];
+    const next = polygon[(i + 1) % polygon.length];
+    const a1 = Math.atan2(curr.y - prev.y, curr.x - prev.x);
+    const a2 = Math.atan2(next.y - curr.y, next.x - curr.x);
+    let turn = Math.abs(a2 - a1) * (180 / Math.PI);
+    if (turn > 180) turn = 360 - turn;
+    if (turn > CORNER_ANGLE) corners++;
+  }
+  return corners;
+};
+
+const firstPixel = (pixels: number[], width: number): Point => {
+  let min = Infinity;
+  for (const i of pixels) if (i < min) min = i;
+  return { x: min % width, y: Math.floor(min / width) };
+};
+
+// Traces outer outlines of every significant component and the rims of their counters,
+// then derives scale-free descriptors from them.
+export const computeShape = (mask: ForegroundMask, labelling: ComponentLabels, markSize: number): ShapeMetrics => {
+  const { width, height } = mask;
+  const { labels, regions, holes } = labelling;
+  const outlines: Point[][] = [];
+
+  for (const region of regions) {
+    const { x: bx, y: by, width: bw } = region.boundingBox;
+    let start: Point | null = null;
+    for (let x = bx; x < bx + bw && !start; x++) {
+      if (labels[by * width + x] === region.id) start = { x, y: by };
+    }
+    if (start) outlines.push(traceBoundary(width, height, (x, y) => labels[y * width + x] === region.id, start));
+  }
+
+  const counterRims: Point[][] = [];
+  const holeGrid = new Int32Array(width * height);
+  holes.forEach((pixels, index) => {
+    for (const i of pixels) holeGrid[i] = index + 1;
+    const id = index + 1;
+    counterRims.push(traceBoundary(width, height, (x, y) => holeGrid[y * width + x] === id, firstPixel(pixels, width)));
+  });
+
+  const area = regions.reduce((sum, region) => sum + region.area, 0);
+  const perimeter = [...outlines, ...counterRims].reduce((sum, outline) => sum + polygonPerimeter(outline), 0);
+  // Area enclosed by the same traced polygons the perimeter runs along, so circularity and
+  // compactness do not drift with resolution the way pixel count over centre-line length does.
+  const tracedArea = Math.max(0,
+    outlines.reduce((sum, outline) => sum + polygonArea(outline), 0) -
+    counterRims.reduce((sum, rim) => sum + polygonArea(rim), 0));
+
+  // Hull over pixel corners, not centres, so a filled rectangle has solidity exactly 1.
+  const corners: Point[] = [];
+  for (const outline of outlines) {
+    for (const p of outline) {
+      corners.push({ x: p.x, y: p.y }, { x: p.x + 1, y: p.y }, { x: p.x, y: p.y + 1 }, { x: p.x + 1, y: p.y + 1 });
+    }
+  }
+  const hull = convexHull(corners);
+  const hullArea = polygonArea(hull);
+  const hullPerimeter = polygonPerimeter(hull);
+  // Edge complexity compares like with like: both lengths run through pixel centres, and each
+  // component is measured against its own hull so gaps between separate shapes do not count.
+  const centreHullPerimeter = outlines.reduce((sum, outline) => sum + polygonPerimeter(convexHull(outline)), 0);
+
+  const cornerEpsilon = Math.max(1, markSize * CORNER_EPSILON_RATIO);
+  const drawEpsilon = Math.max(0.75, markSize * DRAW_EPSILON_RATIO);
+  const cornerCount = [...outlines, ...counterRims]
+    .reduce((sum, outline) => sum + countCorners(simplifyClosed(outline, cornerEpsilon)), 0);
+
+  return {
+    perimeter,
+    hull_area: hullArea,
+    hull_perimeter: hullPerimeter,
+    solidity: hullArea > 0 ? Math.min(1, area / hullArea) : 0,
+    circularity: perimeter > 0 ? Math.min(1, (4 * Math.PI * tracedArea) / (perimeter * perimeter)) : 0,
+    compactness: tracedArea > 0 ? (perimeter * perimeter) / tracedArea : 0,
+    corner_count: cornerCount,
+    edge_complexity: centreHullPerimeter > 0 ? Math.max(1, perimeter / centreHullPerimeter) : 0,
+    contours: [...outlines, ...counterRims].map(outline => simplifyClosed(outline, drawEpsilon)),
+    hull
+  };
+};
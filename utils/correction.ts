@@ -0,0 +1,84 @@
+import { Correction, CorrectionResult, LogoMetrics, RasterImage } from "../types";
+import { OPTICAL_LIFT } from "./optical";
+
+type Frame = CorrectionResult['frame'];
+type Rgba = [number, number, number, number];
+
+const TRANSPARENT: Rgba = [0, 0, 0, 0];
+
+export const CORRECTION_LABELS: Record<Correction['kind'], string> = {
+  recentre: 'Recentre',
+  padding: 'Clear space',
+  aspect: 'Aspect',
+  trim: 'Trim',
+  extend: 'Extend'
+};
+
+// Exposed canvas takes the ground the mark was segmented from: transparent for alpha artwork,
+// otherwise the detected background colour.
+export const correctionFill = (metrics: LogoMetrics): Rgba => {
+  const s = metrics.segmentation;
+  if (!s || s.mode === 'alpha' || !s.background) return TRANSPARENT;
+  return [s.background.r, s.background.g, s.background.b, 255];
+};
+
+// Length of a span that places `anchor` at `fraction` of it and still covers [low, high).
+const spanAround = (size: number, fraction: number, anchor: number, low: number, high: number) => {
+  const length = Math.ceil(Math.max(size, (anchor - low) / fraction, (high - anchor) / (1 - fraction)));
+  return { start: Math.round(anchor - fraction * length), length };
+};
+
+const correctionFrame = (metrics: LogoMetrics, correction: Correction): Frame => {
+  const { width, height, boundingBox: bb } = metrics;
+  switch (correction.kind) {
+    case 'recentre': {
+      // Same canvas where possible; grows only when the shift would cut the mark.
+      const optical = correction.target === 'optical' && metrics.optical;
+      const anchor = optical ? metrics.optical!.centroid : metrics.centerOfMass;
+      const fy = optical ? 0.5 - OPTICAL_LIFT : 0.5;
+      const x = spanAround(width, 0.5, anchor.x, bb.x, bb.x + bb.width);
+      const y = spanAround(height, fy, anchor.y, bb.y, bb.y + bb.height);
+      return { x: x.start, y: y.start, width: x.length, height: y.length };
+    }
+    case 'padding': {
+      const pad = Math.round(Math.max(bb.width, bb.height) * correction.ratio);
+      return { x: bb.x - pad, y: bb.y - pad, width: bb.width + pad * 2, height: bb.height + pad * 2 };
+    }
+    case 'aspect': {
+      if (width / height < correction.ratio) {
+        const w = Math.round(height * correction.ratio);
+        return { x: -Math.floor((w - width) / 2), y: 0, width: w, height };
+      }
+      const h = Math.round(width / correction.ratio);
+      return { x: 0, y: -Math.floor((h - height) / 2), width, height: h };
+    }
+    case 'trim':
+      return { ...bb };
+    case 'extend': {
+      const margin = Math.round(Math.max(width, height) * correction.ratio);
+      return { x: -margin, y: -margin, width: width + margin * 2, height: height + margin * 2 };
+    }
+  }
+};
+
+// Copies the source pixels under `frame` into a new canvas, filling whatever lies outside the source.
+export const reframeRaster = (raster: RasterImage, frame: Frame, fill: Rgba = TRANSPARENT): RasterImage => {
+  const data = new Uint8ClampedArray(frame.width * frame.height * 4);
+  if (fill[3] > 0) {
+    for (let i = 0; i < data.length; i += 4) data.set(fill, i);
+  }
+  const x0 = Math.max(0, frame.x);
+  const x1 = Math.min(raster.width, frame.x + frame.width);
+  if (x1 > x0) {
+    for (let y = Math.max(0, frame.y); y < Math.min(raster.height, frame.y + frame.height); y++) {
+      const row = raster.data.subarray((y * raster.width + x0) * 4, (y * raster.width + x1) * 4);
+      data.set(row, ((y - frame.y) * frame.width + (x0 - frame.x)) * 4);
+    }
+  }
+  return { width: frame.width, height: frame.height, data };
+};
+
+export const applyCorrection = (raster: RasterImage, metrics: LogoMetrics, correction: Correction): CorrectionResult => {
+  const frame = correctionFrame(metrics, correction);
+  return { raster: reframeRaster(raster, frame, correctionFill(metrics)), frame };
+};
@@ -0,0 +1,178 @@
+import { ComponentRegion, FamilyAnalysis, FamilyIssue, FamilyRole, ForegroundMask, LogoMetrics, SymbolInstance } from "../types";
+import { ComponentLabels } from "./topology";
+
+// Components are compared as coverage grids stretched over their bounding boxes, so scale drops out
+// and proportions are checked separately.
+const SIGNATURE_SIZE = 32;
+// Below this overlap a component is a different shape, not a variant of the symbol.
+const MATCH_SIMILARITY = 0.6;
+const MATCH_ASPECT = Math.log(1.25);
+// Tolerances past which a matched symbol is flagged.
+const REDRAWN_SIMILARITY = 0.85;
+const PROPORTION_TOLERANCE = Math.log(1.03);
+const DENSITY_TOLERANCE = 4; // percentage points
+
+export const FAMILY_ROLES: { role: FamilyRole; label: string }[] = [
+  { role: 'primary', label: 'Primary' },
+  { role: 'stacked', label: 'Stacked' },
+  { role: 'icon', label: 'Icon' },
+  { role: 'wordmark', label: 'Wordmark' },
+  { role: 'monochrome', label: 'Mono' },
+  { role: 'other', label: 'Other' }
+];
+
+// File names usually say which lockup they are; anything unrecognised starts as 'other'.
+const ROLE_HINTS: [RegExp, FamilyRole][] = [
+  [/word|type|text/i, 'wordmark'],
+  [/icon|symbol|mark|glyph|favicon/i, 'icon'],
+  [/stack|vertical/i, 'stacked'],
+  [/mono|black|white|1c|one.?colou?r/i, 'monochrome'],
+  [/primary|horizontal|main|full|lockup/i, 'primary']
+];
+
+export const guessFamilyRole = (name: string): FamilyRole => ROLE_HINTS.find(([pattern]) => pattern.test(name))?.[1] ?? 'other';
+
+export type ComponentSignatures = Map<number, Float32Array>;
+
+export interface FamilyInput {
+  role: FamilyRole;
+  metrics: LogoMetrics;
+  signatures: ComponentSignatures;
+}
+
+// 3×3 box blur, so anti-aliasing and a pixel of rasterisation drift at small sizes do not read as redrawing.
+const soften = (grid: Float32Array) => {
+  const out = new Float32Array(grid.length);
+  for (let y = 0; y < SIGNATURE_SIZE; y++) {
+    for (let x = 0; x < SIGNATURE_SIZE; x++) {
+      let sum = 0, n = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx, ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= SIGNATURE_SIZE || ny >= SIGNATURE_SIZE) continue;
+          sum += grid[ny * SIGNATURE_SIZE + nx];
+          n++;
+        }
+      }
+      out[y * SIGNATURE_SIZE + x] = sum / n;
+    }
+  }
+  return out;
+};
+
+export const componentSignatures = (mask: ForegroundMask, labelling: ComponentLabels): ComponentSignatures => {
+  const { width } = mask;
+  const grids = new Map<number, Float32Array>();
+  labelling.regions.forEach(region => grids.set(region.id, new Float32Array(SIGNATURE_SIZE * SIGNATURE_SIZE)));
+  for (let i = 0; i < labelling.labels.length; i++) {
+    const id = labelling.labels[i];
+    if (id === 0) continue;
+    const { boundingBox: bb } = labelling.regions[id - 1];
+    const x = i % width;
+    const y = (i - x) / width;
+    const gx = Math.min(SIGNATURE_SIZE - 1, Math.floor(((x - bb.x) / bb.width) * SIGNATURE_SIZE));
+    const gy = Math.min(SIGNATURE_SIZE - 1, Math.floor(((y - bb.y) / bb.height) * SIGNATURE_SIZE));
+    grids.get(id)![gy * SIGNATURE_SIZE + gx] += mask.data[i] / 255;
+  }
+  // Per-cell coverage, 0-1, independent of the component's pixel size.
+  labelling.regions.forEach(region => {
+    const cell = (region.boundingBox.width * region.boundingBox.height) / (SIGNATURE_SIZE * SIGNATURE_SIZE);
+    const grid = grids.get(region.id)!;
+    for (let i = 0; i < grid.length; i++) grid[i] = Math.min(1, grid[i] / cell);
+    grids.set(region.id, soften(grid));
+  });
+  return grids;
+};
+
+// Weighted IoU of two coverage grids.
+const similarity = (a: Float32Array, b: Float32Array) => {
+  let shared = 0, union = 0;
+  for (let i = 0; i < a.length; i++) {
+    shared += Math.min(a[i], b[i]);
+    union += Math.max(a[i], b[i]);
+  }
+  return union === 0 ? 0 : shared / union;
+};
+
+const aspect = (c: ComponentRegion) => c.boundingBox.width / c.boundingBox.height;
+const density = (c: ComponentRegion) => (c.area / (c.boundingBox.width * c.boundingBox.height)) * 100;
+
+const bestMatch = (reference: ComponentRegion, signature: Float32Array, member: FamilyInput) => {
+  let best: { component: ComponentRegion; similarity: number } | null = null;
+  for (const component of member.metrics.topology?.components ?? []) {
+    if (Math.abs(Math.log(aspect(component) / aspect(reference))) > MATCH_ASPECT) continue;
+    const score = similarity(signature, member.signatures.get(component.id)!);
+    if (score >= MATCH_SIMILARITY && (!best || score > best.similarity)) best = { component, similarity: score };
+  }
+  return best;
+};
+
+const instance = (member: number, component: ComponentRegion, metrics: LogoMetrics, score: number): SymbolInstance => ({
+  member,
+  component: component.id,
+  similarity: score,
+  boundingBox: component.boundingBox,
+  scale: component.boundingBox.height / metrics.boundingBox.height,
+  density: density(component),
+  aspect_ratio: aspect(component),
+  holes: component.holes
+});
+
+// The icon-only lockup defines the symbol when there is one; otherwise the member with the fewest
+// shapes does. Of its components, the one found most closely across the other members is the symbol.
+// Symbols built from several separate shapes are tracked by their best-matching shape.
+export const analyzeFamily = (members: FamilyInput[]): FamilyAnalysis => {
+  const iconIndex = members.findIndex(m => m.role === 'icon');
+  const reference = iconIndex >= 0 ? iconIndex : members.reduce((best, m, i) =>
+    (m.metrics.topology?.component_count ?? Infinity) < (members[best].metrics.topology?.component_count ?? Infinity) ? i : best, 0);
+  const referenceMember = members[reference];
+
+  let symbol: { component: ComponentRegion; matches: (ReturnType<typeof bestMatch>)[]; score: number } | null = null;
+  for (const component of referenceMember.metrics.topology?.components ?? []) {
+    const signature = referenceMember.signatures.get(component.id)!;
+    const matches = members.map((member, i) => (i === reference ? null : bestMatch(component, signature, member)));
+    const score = matches.reduce((sum, match) => sum + (match?.similarity ?? 0), 0);
+    if (!symbol || score > symbol.score || (score === symbol.score && component.area > symbol.component.area)) {
+      symbol = { component, matches, score };
+    }
+  }
+
+  const instances: SymbolInstance[] = [];
+  const issues: FamilyIssue[] = [];
+  const carriers: number[] = []; // similarity per member expected to carry the symbol
+  if (symbol) {
+    const ref = instance(reference, symbol.component, referenceMember.metrics, 1);
+    instances.push(ref);
+    carriers.push(1);
+    members.forEach((member, i) => {
+      if (i === reference) return;
+      const match = symbol!.matches[i];
+      if (member.role !== 'wordmark') carriers.push(match?.similarity ?? 0);
+      if (!match) {
+        if (member.role !== 'wordmark') issues.push({ member: i, kind: 'missing', detail: 'The symbol could not be found in this lockup.' });
+        return;
+      }
+      const found = instance(i, match.component, member.metrics, match.similarity);
+      instances.push(found);
+      if (found.similarity < REDRAWN_SIMILARITY) {
+        issues.push({ member: i, kind: 'redrawn', detail: `Symbol overlaps the reference drawing by ${(found.similarity * 100).toFixed(1)}% once scale is removed; it appears to be redrawn.` });
+      }
+      if (Math.abs(Math.log(found.aspect_ratio / ref.aspect_ratio)) > PROPORTION_TOLERANCE) {
+        issues.push({ member: i, kind: 'proportion', detail: `Symbol aspect ratio is ${found.aspect_ratio.toFixed(3)} against ${ref.aspect_ratio.toFixed(3)} in the reference.` });
+      }
+      if (Math.abs(found.density - ref.density) > DENSITY_TOLERANCE) {
+        issues.push({ member: i, kind: 'density', detail: `Symbol ink density is ${found.density.toFixed(1)}% against ${ref.density.toFixed(1)}%; strokes read ${found.density > ref.density ? 'heavier' : 'lighter'}.` });
+      }
+      if (found.holes !== ref.holes) {
+        issues.push({ member: i, kind: 'counters', detail: `Symbol has ${found.holes} enclosed counter(s) against ${ref.holes} in the reference.` });
+      }
+    });
+  }
+
+  return {
+    reference,
+    instances,
+    issues,
+    consistency: carriers.length > 0 ? Math.round((carriers.reduce((sum, s) => sum + s, 0) / carriers.length) * 100) : 0
+  };
+};
@@ -0,0 +1,49 @@
+// Browser-only file helpers: reading dropped artifacts and handing generated files back to the user.
+
+export const isSvgFile = (file: File) => file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg');
+
+export const isArtifactFile = (file: File) => isSvgFile(file) || file.type.startsWith('image/');
+
+export const readFileAsDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const readEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const entryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return [await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))];
+  }
+  if (!entry.isDirectory) return [];
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const files: File[] = [];
+  // readEntries returns at most ~100 entries per call; keep reading until it comes back empty.
+  for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+    for (const child of batch) files.push(...await entryFiles(child));
+  }
+  return files;
+};
+
+// Flattens a drop into files, descending into dropped folders where the browser exposes them.
+export const collectDroppedFiles = async (transfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(transfer.items ?? [])
+    .map(item => (item.kind === 'file' ? item.webkitGetAsEntry?.() : null))
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) return Array.from(transfer.files ?? []);
+  const files: File[] = [];
+  for (const entry of entries) files.push(...await entryFiles(entry));
+  return files;
+};
@@ -0,0 +1,142 @@
+import { ForegroundMask, LegibilityMetrics, LegibilitySample } from "../types";
+import { ComponentLabels, labelBinary } from "./topology";
+
+export const LEGIBILITY_SIZES = [16, 32, 48, 64, 128];
+// Thinnest stroke is read at this percentile of skeleton widths, so single stray pixels don't dominate.
+const STROKE_PERCENTILE = 0.1;
+
+// 3-4 chamfer distance to the nearest background pixel, in pixels (divided back by 3).
+const distanceTransform = (mask: ForegroundMask) => {
+  const { width, height, data } = mask;
+  const far = 1 << 29;
+  const dist = new Int32Array(width * height);
+  for (let i = 0; i < dist.length; i++) dist[i] = data[i] > 0 ? far : 0;
+
+  const at = (x: number, y: number) => (x < 0 || y < 0 || x >= width || y >= height ? 0 : dist[y * width + x]);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (dist[i] === 0) continue;
+      dist[i] = Math.min(dist[i], at(x - 1, y) + 3, at(x, y - 1) + 3, at(x - 1, y - 1) + 4, at(x + 1, y - 1) + 4);
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      if (dist[i] === 0) continue;
+      dist[i] = Math.min(dist[i], at(x + 1, y) + 3, at(x, y + 1) + 3, at(x + 1, y + 1) + 4, at(x - 1, y + 1) + 4);
+    }
+  }
+  return dist;
+};
+
+// Local maxima of the distance map sit on the medial axis; twice the distance there is the stroke width.
+export const estimateStrokeWidths = (mask: ForegroundMask): number[] => {
+  const { width, height } = mask;
+  const dist = distanceTransform(mask);
+  const widths: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const d = dist[y * width + x];
+      if (d === 0) continue;
+      let ridge = true;
+      for (let dy = -1; dy <= 1 && ridge; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if ((dx || dy) && nx >= 0 && ny >= 0 && nx < width && ny < height && dist[ny * width + nx] > d) {
+            ridge = false;
+            break;
+          }
+        }
+      }
+      if (ridge) widths.push(Math.max(1, (2 * d) / 3 - 1));
+    }
+  }
+  return widths.sort((a, b) => a - b);
+};
+
+// Box-filters mask coverage into a canvas whose longest side is `size`, thresholded at 50% coverage.
+const downsample = (mask: ForegroundMask, size: number) => {
+  const { width, height, data } = mask;
+  const scale = Math.min(1, size / Math.max(width, height));
+  const tw = Math.max(1, Math.round(width * scale));
+  const th = Math.max(1, Math.round(height * scale));
+  const coverage = new Float64Array(tw * th);
+  const counts = new Uint32Array(tw * th);
+
+  const cellX = new Int32Array(width);
+  const cellY = new Int32Array(height);
+  for (let x = 0; x < width; x++) cellX[x] = Math.min(tw - 1, Math.floor((x * tw) / width));
+  for (let y = 0; y < height; y++) cellY[y] = Math.min(th - 1, Math.floor((y * th) / height));
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const cell = cellY[y] * tw + cellX[x];
+      coverage[cell] += data[y * width + x] / 255;
+      counts[cell]++;
+    }
+  }
+
+  const binary = new Uint8Array(tw * th);
+  for (let i = 0; i < binary.length; i++) binary[i] = counts[i] > 0 && coverage[i] / counts[i] >= 0.5 ? 1 : 0;
+  return { width: tw, height: th, scale, binary, cellX, cellY };
+};
+
+const sampleSize = (mask: ForegroundMask, labelling: ComponentLabels, strokes: number[], size: number): LegibilitySample => {
+  const small = downsample(mask, size);
+  const { width, height, data } = mask;
+  const smallLabels = labelBinary(small.width, small.height, i => small.binary[i] === 1);
+
+  // IoU of the original mask against the render blown back up to full resolution.
+  let intersection = 0;
+  let union = 0;
+  // Which small-scale blobs each significant component lands on.
+  const hits = labelling.regions.map(() => new Set<number>());
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const cell = small.cellY[y] * small.width + small.cellX[x];
+      const original = data[i] > 0;
+      const rendered = small.binary[cell] === 1;
+      if (original && rendered) intersection++;
+      if (original || rendered) union++;
+      const owner = labelling.labels[i];
+      if (owner > 0 && rendered) hits[owner - 1].add(smallLabels.labels[cell]);
+    }
+  }
+
+  const vanished: number[] = [];
+  const blobOwners = new Map<number, number[]>();
+  hits.forEach((blobs, index) => {
+    const id = labelling.regions[index].id;
+    if (blobs.size === 0) vanished.push(id);
+    for (const blob of blobs) blobOwners.set(blob, [...(blobOwners.get(blob) || []), id]);
+  });
+  const merged = [...blobOwners.values()].filter(owners => owners.length > 1);
+
+  const scaled = strokes.map(w => w * small.scale);
+  const thin = scaled.filter(w => w < 1).length;
+
+  return {
+    size,
+    width: small.width,
+    height: small.height,
+    scale: small.scale,
+    iou: union > 0 ? intersection / union : 0,
+    component_count: smallLabels.regions.length,
+    vanished_components: vanished,
+    merged_components: merged,
+    min_stroke_px: scaled.length > 0 ? scaled[Math.floor(scaled.length * STROKE_PERCENTILE)] : 0,
+    thin_stroke_ratio: scaled.length > 0 ? thin / scaled.length : 0
+  };
+};
+
+// Simulates favicon / app-icon renders of the full canvas and measures what detail survives.
+export const computeLegibility = (mask: ForegroundMask, labelling: ComponentLabels, sizes: number[] = LEGIBILITY_SIZES): LegibilityMetrics => {
+  const strokes = estimateStrokeWidths(mask);
+  return {
+    stroke_width: strokes.length > 0 ? strokes[Math.floor(strokes.length * STROKE_PERCENTILE)] : 0,
+    samples: sizes.map(size => sampleSize(mask, labelling, strokes, size))
+  };
+};
@@ -0,0 +1,185 @@
+import { AnalysisResponse, ColorMetrics, FamilyAnalysis, FamilyMember, FamilyReportDocument, LogoMetrics, ReportDocument } from "../types";
+import { listMetrics } from "./compare";
+import { computeHarmonyIndex } from "./scoring";
+
+// FNV-1a, 32-bit. Identification only, not integrity.
+const fnv1a = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Derived from the measurements and the report text, so the same scan always carries the same
+// reference on screen, in exports and after a round trip through the archive.
+export const reportId = (metrics: LogoMetrics, analysis: AnalysisResponse): string =>
+  `AX-${fnv1a(JSON.stringify([metrics, analysis])).toString(36).toUpperCase().padStart(7, '0')}`;
+
+// Citations become live links in the app, HTML and PDF; anything but a web address is dropped.
+export const isWebLink = (uri: string) => {
+  try {
+    const { protocol } = new URL(uri);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch (e) {
+    return false;
+  }
+};
+
+export const webLinks = (links: AnalysisResponse['groundingUrls']) => (links ?? []).filter(link => isWebLink(link.uri));
+
+export const formatReading = (value: number | string | null) =>
+  value === null ? '—' : typeof value === 'number' ? (Number.isInteger(value) ? String(value) : value.toFixed(3)) : value.toUpperCase();
+
+export const REPORT_FORMAT = 'axiom-report';
+export const REPORT_VERSION = 1;
+
+export const createReportDocument = (name: string, metrics: LogoMetrics, analysis: AnalysisResponse, color: ColorMetrics | null): ReportDocument => ({
+  format: REPORT_FORMAT,
+  version: REPORT_VERSION,
+  report_id: reportId(metrics, analysis),
+  name,
+  exported_at: Date.now(),
+  metrics,
+  analysis: { ...analysis, harmony: analysis.harmony ?? computeHarmonyIndex(metrics) }, // older records carry no breakdown
+  color
+});
+
+const NARRATIVE: { title: string; field: keyof Pick<AnalysisResponse, 'structural_summary' | 'balance_analysis' | 'alignment_analysis' | 'geometry_analysis' | 'market_context'> }[] = [
+  { title: 'Morphological Integrity', field: 'structural_summary' },
+  { title: 'Volumetric Bias', field: 'balance_analysis' },
+  { title: 'Axial Tension', field: 'alignment_analysis' },
+  { title: 'Geometric Logic', field: 'geometry_analysis' },
+  { title: 'Market Context', field: 'market_context' }
+];
+
+const reportRows = (report: ReportDocument) => [
+  ...report.analysis.harmony!.criteria.map(c => ({ group: 'Harmony', label: `${c.label} (x${c.weight})`, value: formatReading(c.score) })),
+  ...listMetrics(report.metrics).map(r => ({ group: r.group, label: r.label, value: formatReading(r.value) })),
+  ...(report.color?.palette ?? []).map(p => ({ group: 'Colour', label: p.hex.toUpperCase(), value: `${(p.coverage * 100).toFixed(1)}%` }))
+];
+
+const mdCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+// `figure` is the file name of the overlay PNG exported alongside, when there is one.
+export const reportToMarkdown = (report: ReportDocument, figure?: string): string => {
+  const { analysis } = report;
+  const lines = [
+    `# ${report.name || 'Untitled artifact'} — Axiom Structural Report`,
+    '',
+    `**Report** \`${report.report_id}\` · **SHI** ${analysis.score} · ${new Date(report.exported_at).toISOString()}`,
+    ''
+  ];
+  if (figure) lines.push(`![Fig.01 / Euclidean Trace](${figure})`, '');
+  lines.push('## Remedial Actions', '', ...analysis.remedial_actions.map((action, i) => `${i + 1}. ${action}`), '');
+  if (analysis.regions_of_interest?.length) {
+    lines.push('## Regions of Interest', '', ...analysis.regions_of_interest.map((r, i) => `- **R${i + 1} ${r.label}**: ${r.note}`), '');
+  }
+  NARRATIVE.forEach(({ title, field }) => {
+    if (analysis[field]) lines.push(`## ${title}`, '', analysis[field]!, '');
+  });
+  lines.push('## Telemetry', '', '| Group | Metric | Value |', '| --- | --- | ---: |');
+  reportRows(report).forEach(row => lines.push(`| ${row.group} | ${mdCell(row.label)} | ${row.value} |`));
+  lines.push('');
+  const citations = webLinks(analysis.groundingUrls);
+  if (citations.length) {
+    lines.push('## Citations', '', ...citations.map((link, i) => `${i + 1}. [${link.title || 'Source'}](${link.uri})`), '');
+  }
+  return lines.join('\n');
+};
+
+export const FAMILY_FORMAT = 'axiom-family';
+export const FAMILY_VERSION = 1;
+
+export const createFamilyDocument = (name: string, members: FamilyMember[], analysis: FamilyAnalysis): FamilyReportDocument => ({
+  format: FAMILY_FORMAT,
+  version: FAMILY_VERSION,
+  name,
+  exported_at: Date.now(),
+  members,
+  analysis
+});
+
+export const familyToMarkdown = (report: FamilyReportDocument): string => {
+  const { members, analysis } = report;
+  const lines = [
+    `# ${report.name || 'Untitled family'} — Axiom Family Report`,
+    '',
+    `**Members** ${members.length} · **Consistency** ${analysis.consistency} · ${new Date(report.exported_at).toISOString()}`,
+    '',
+    '## Members',
+    '',
+    '| # | Name | Role | SHI | Symbol | Similarity | Scale | Density | Aspect | Counters |',
+    '| ---: | --- | --- | ---: | --- | ---: | ---: | ---: | ---: | ---: |'
+  ];
+  members.forEach((member, i) => {
+    const found = analysis.instances.find(s => s.member === i);
+    const cells = found
+      ? [`C${found.component}${i === analysis.reference ? ' (ref)' : ''}`, found.similarity.toFixed(3), found.scale.toFixed(3), `${found.density.toFixed(1)}%`, found.aspect_ratio.toFixed(3), String(found.holes)]
+      : ['—', '—', '—', '—', '—', '—'];
+    lines.push(`| ${i + 1} | ${mdCell(member.name)} | ${member.role} | ${member.harmony.score} | ${cells.join(' | ')} |`);
+  });
+  lines.push('', '## Issues', '');
+  if (analysis.issues.length === 0) lines.push('No inconsistencies found.');
+  else analysis.issues.forEach(issue => lines.push(`- **${mdCell(members[issue.member].name)}** (${issue.kind}): ${issue.detail}`));
+  lines.push('');
+  return lines.join('\n');
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const HTML_STYLE = `
+body{margin:0;background:#fafafa;color:#111;font:14px/1.6 Inter,system-ui,sans-serif}
+main{max-width:880px;margin:0 auto;padding:48px 24px}
+h1{font-size:28px;margin:0 0 4px;text-transform:uppercase;letter-spacing:-.02em}
+h2{font:700 11px/1 "JetBrains Mono",monospace;text-transform:uppercase;letter-spacing:.3em;color:#999;border-bottom:1px solid #eee;padding-bottom:8px;margin:40px 0 16px}
+.meta{font:11px "JetBrains Mono",monospace;text-transform:uppercase;letter-spacing:.15em;color:#888}
+.score{font-size:96px;font-weight:900;font-style:italic;line-height:1;margin:24px 0 0}
+figure{margin:24px 0;border:1px solid #000;background:#fff}figure img{display:block;width:100%}
+figcaption{font:10px "JetBrains Mono",monospace;text-transform:uppercase;letter-spacing:.2em;color:#999;padding:8px}
+table{width:100%;border-collapse:collapse;font:12px "JetBrains Mono",monospace}td{padding:4px 8px;border-bottom:1px solid #f0f0f0}
+td:first-child{color:#999;text-transform:uppercase;font-size:10px}td:last-child{text-align:right}
+.tag{background:#ea580c;color:#fff;font:700 10px "JetBrains Mono",monospace;padding:1px 4px;margin-right:6px}
+a{color:#111}`;
+
+// Single file with the figure inlined as a data URL, so it can be dropped into a wiki as-is.
+export const reportToHtml = (report: ReportDocument, figure?: string): string => {
+  const { analysis } = report;
+  const title = `${report.name || 'Untitled artifact'} — Axiom Structural Report`;
+  const section = (heading: string, body: string) => `<h2>${escapeHtml(heading)}</h2>\n${body}`;
+  const parts = [
+    `<h1>${escapeHtml(report.name || 'Untitled artifact')}</h1>`,
+    `<div class="meta">Axiom Structural Report · ${escapeHtml(report.report_id)} · ${new Date(report.exported_at).toISOString()}</div>`,
+    `<div class="score">${analysis.score}<span class="meta"> SHI</span></div>`
+  ];
+  if (figure) parts.push(`<figure><img src="${figure}" alt="Euclidean Trace"><figcaption>Fig.01 / Euclidean Trace</figcaption></figure>`);
+  parts.push(section('Remedial Actions', `<ol>${analysis.remedial_actions.map(a => `<li>${escapeHtml(a)}</li>`).join('')}</ol>`));
+  if (analysis.regions_of_interest?.length) {
+    parts.push(section('Regions of Interest', `<ul>${analysis.regions_of_interest.map((r, i) => `<li><span class="tag">R${i + 1}</span><strong>${escapeHtml(r.label)}</strong>: ${escapeHtml(r.note)}</li>`).join('')}</ul>`));
+  }
+  NARRATIVE.forEach(({ title: heading, field }) => {
+    if (analysis[field]) parts.push(section(heading, `<p>${escapeHtml(analysis[field]!)}</p>`));
+  });
+  parts.push(section('Telemetry', `<table>${reportRows(report).map(row => `<tr><td>${escapeHtml(row.group)}</td><td>${escapeHtml(row.label)}</td><td>${escapeHtml(row.value)}</td></tr>`).join('')}</table>`));
+  const citations = webLinks(analysis.groundingUrls);
+  if (citations.length) {
+    parts.push(section('Citations', `<ol>${citations.map(link => `<li><a href="${escapeHtml(link.uri)}" rel="noopener noreferrer">${escapeHtml(link.title || 'Source')}</a></li>`).join('')}</ol>`));
+  }
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<main>
+${parts.join('\n')}
+</main>
+</body>
+</html>
+`;
+};
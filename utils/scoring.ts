@@ -0,0 +1,78 @@
+import { HarmonyCriterion, HarmonyIndex, LogoMetrics } from "../types";
+
+/*
+ * Structural Harmony Index (SHI), rubric v1. Each criterion maps one metric to 0-100;
+ * the index is the weighted mean of the criteria the metrics can support, rounded.
+ *
+ *   centroid     20  distance of the centroid from canvas centre; 0% → 100, ≥10% → 0
+ *   symmetry     20  best-fit mirror IoU (or the better of n-fold rotation), scaled 0.4 → 0, 1.0 → 100
+ *   balance      15  100 − mean of |L−R| and |T−B| quadrant imbalance (percentage points)
+ *   density      15  fill ratio inside the bounding box; 35–75% → 100, tapering to 0 at 5% and 100%
+ *   complexity   15  edge complexity (perimeter / hull perimeter); ≤1.3 → 100, tapering to 0 at 2.5
+ *   legibility   15  mask IoU of the 32px render; 0.5 → 0, 0.9 → 100
+ *
+ * Rubric v2 is the same table fed by optical weighting: centroid and balance then read the
+ * contrast-weighted offsets and quadrant weights, so its scores are not comparable with v1.
+ */
+export const HARMONY_RUBRIC_VERSION = 1;
+export const OPTICAL_HARMONY_RUBRIC_VERSION = 2;
+
+const clamp = (value: number) => Math.max(0, Math.min(100, value));
+const ramp = (value: number, zeroAt: number, fullAt: number) => clamp(((value - zeroAt) / (fullAt - zeroAt)) * 100);
+
+const BUCKET_SCORES = { high: 100, medium: 65, low: 30 };
+
+type Criterion = Omit<HarmonyCriterion, 'score'> & { score: number | null };
+
+const scoreCentroid = (m: LogoMetrics): Criterion => {
+  const offset = Math.hypot(m.center_offset_x, m.center_offset_y);
+  return { id: 'centroid', label: 'Centroid Alignment', weight: 20, value: offset, score: ramp(offset, 10, 0) };
+};
+
+const scoreSymmetry = (m: LogoMetrics): Criterion => {
+  if (!m.symmetry) {
+    // Pre-IoU records only carry buckets; average the two axes.
+    const score = (BUCKET_SCORES[m.symmetry_vertical] + BUCKET_SCORES[m.symmetry_horizontal]) / 2;
+    return { id: 'symmetry', label: 'Symmetry', weight: 20, value: score / 100, score };
+  }
+  const rotational = Math.max(...Object.values(m.symmetry.rotational_scores));
+  const best = Math.max(m.symmetry.axis_score, rotational);
+  return { id: 'symmetry', label: 'Symmetry', weight: 20, value: best, score: ramp(best, 0.4, 1) };
+};
+
+const scoreBalance = (m: LogoMetrics): Criterion => {
+  const imbalance = (Math.abs(m.weight_left - m.weight_right) + Math.abs(m.weight_top - m.weight_bottom)) / 2;
+  return { id: 'balance', label: 'Volumetric Balance', weight: 15, value: imbalance, score: clamp(100 - imbalance) };
+};
+
+const scoreDensity = (m: LogoMetrics): Criterion => {
+  const d = m.density;
+  const score = d < 35 ? ramp(d, 5, 35) : d > 75 ? ramp(d, 100, 75) : 100;
+  return { id: 'density', label: 'Density Band', weight: 15, value: d, score };
+};
+
+const scoreComplexity = (m: LogoMetrics): Criterion => {
+  const value = m.shape?.edge_complexity;
+  return { id: 'complexity', label: 'Edge Economy', weight: 15, value: value ?? 0, score: value === undefined ? null : ramp(value, 2.5, 1.3) };
+};
+
+const scoreLegibility = (m: LogoMetrics): Criterion => {
+  const sample = m.legibility?.samples.find(s => s.size === 32);
+  return { id: 'legibility', label: 'Micro-Scale Legibility', weight: 15, value: sample?.iou ?? 0, score: sample ? ramp(sample.iou, 0.5, 0.9) : null };
+};
+
+// Deterministic: identical metrics always produce the identical index.
+export const computeHarmonyIndex = (metrics: LogoMetrics): HarmonyIndex => {
+  const criteria = [scoreCentroid, scoreSymmetry, scoreBalance, scoreDensity, scoreComplexity, scoreLegibility]
+    .map(rule => rule(metrics))
+    .filter((c): c is HarmonyCriterion => c.score !== null);
+
+  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+  const weighted = criteria.reduce((sum, c) => sum + c.score * c.weight, 0);
+
+  return {
+    version: metrics.weighting === 'optical' ? OPTICAL_HARMONY_RUBRIC_VERSION : HARMONY_RUBRIC_VERSION,
+    score: totalWeight > 0 ? Math.round(weighted / totalWeight) : 0,
+    criteria: criteria.map(c => ({ ...c, score: Math.round(c.score * 10) / 10 }))
+  };
+};
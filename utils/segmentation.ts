@@ -0,0 +1,117 @@
+import { ForegroundMask, RasterImage, RGB, SegmentationMode, SegmentationOptions } from "../types";
+
+export const DEFAULT_SEGMENTATION: SegmentationOptions = { mode: 'auto', threshold: 32 };
+
+// Rec. 709 luma on gamma-encoded channels; adequate for separating flat marks from flat grounds.
+export const luminance = (r: number, g: number, b: number) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Samples the one-pixel frame of the canvas; logos are almost always set on a uniform ground.
+const sampleBorder = (raster: RasterImage) => {
+  const { width, height, data } = raster;
+  const r: number[] = [], g: number[] = [], b: number[] = [];
+  let translucent = 0;
+
+  const sample = (x: number, y: number) => {
+    const idx = (y * width + x) * 4;
+    r.push(data[idx]);
+    g.push(data[idx + 1]);
+    b.push(data[idx + 2]);
+    if (data[idx + 3] < 255) translucent++;
+  };
+
+  for (let x = 0; x < width; x++) {
+    sample(x, 0);
+    if (height > 1) sample(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    sample(0, y);
+    if (width > 1) sample(width - 1, y);
+  }
+
+  return {
+    background: { r: median(r), g: median(g), b: median(b) } as RGB,
+    translucentRatio: translucent / r.length
+  };
+};
+
+export const estimateBackground = (raster: RasterImage): RGB => sampleBorder(raster).background;
+
+// Otsu's method: the cut that maximises between-class variance of a 256-bin histogram.
+export const otsuThreshold = (histogram: ArrayLike<number>): number => {
+  let total = 0, sum = 0;
+  for (let i = 0; i < 256; i++) {
+    total += histogram[i];
+    sum += i * histogram[i];
+  }
+
+  let sumB = 0, weightB = 0, best = 0, bestVariance = -1;
+  for (let t = 0; t < 256; t++) {
+    weightB += histogram[t];
+    if (weightB === 0) continue;
+    const weightF = total - weightB;
+    if (weightF === 0) break;
+    sumB += t * histogram[t];
+    const meanB = sumB / weightB;
+    const meanF = (sum - sumB) / weightF;
+    const variance = weightB * weightF * (meanB - meanF) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = t;
+    }
+  }
+  return best;
+};
+
+// Separates the mark from its ground. Mask weights carry the source alpha so the
+// metric loop keeps weighting anti-aliased edges proportionally.
+export const segmentForeground = (raster: RasterImage, options: SegmentationOptions = DEFAULT_SEGMENTATION): ForegroundMask => {
+  const { width, height, data } = raster;
+  const pixelCount = width * height;
+  const weights = new Uint8Array(pixelCount);
+  const { background, translucentRatio } = sampleBorder(raster);
+
+  const mode: Exclude<SegmentationMode, 'auto'> = options.mode === 'auto'
+    ? (translucentRatio > 0 ? 'alpha' : 'otsu')
+    : options.mode;
+
+  if (mode === 'alpha') {
+    for (let i = 0; i < pixelCount; i++) {
+      const alpha = data[i * 4 + 3];
+      if (alpha > options.threshold) weights[i] = alpha;
+    }
+    return { width, height, data: weights, mode, threshold: options.threshold, background: null };
+  }
+
+  // Distance of every pixel from the estimated ground, composited over that ground and scaled to 0-255.
+  const distances = new Uint8Array(pixelCount);
+  const bgLuma = luminance(background.r, background.g, background.b);
+  for (let i = 0; i < pixelCount; i++) {
+    const idx = i * 4;
+    const a = data[idx + 3] / 255;
+    const r = data[idx] * a + background.r * (1 - a);
+    const g = data[idx + 1] * a + background.g * (1 - a);
+    const b = data[idx + 2] * a + background.b * (1 - a);
+
+    distances[i] = mode === 'luminance'
+      ? Math.round(Math.abs(luminance(r, g, b) - bgLuma))
+      : Math.round(Math.sqrt((r - background.r) ** 2 + (g - background.g) ** 2 + (b - background.b) ** 2) / Math.sqrt(3));
+  }
+
+  let threshold = options.threshold;
+  if (mode === 'otsu') {
+    const histogram = new Uint32Array(256);
+    for (let i = 0; i < pixelCount; i++) histogram[distances[i]]++;
+    threshold = otsuThreshold(histogram);
+  }
+
+  for (let i = 0; i < pixelCount; i++) {
+    if (distances[i] > threshold) weights[i] = data[i * 4 + 3];
+  }
+
+  return { width, height, data: weights, mode, threshold, background };
+};
@@ -0,0 +1,425 @@
+import { SvgGeometry, SvgWarning } from "../types";
+
+// Affine matrix [a, b, c, d, e, f]: x' = a·x + c·y + e, y' = b·x + d·y + f.
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+// Containers whose children are templates, not rendered geometry.
+const NON_RENDERING = new Set(['defs', 'clippath', 'mask', 'symbol', 'pattern', 'marker', 'lineargradient', 'radialgradient', 'filter']);
+const SHAPES = new Set(['path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon']);
+const TAG_PATTERN = /<(\/?)([A-Za-z][\w:.-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/g;
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+const DEFAULT_RESOLUTION = 1024;
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5]
+];
+
+const apply = (m: Matrix, x: number, y: number): [number, number] => [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+
+const numbers = (text: string) => (text.match(/[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g) || []).map(Number);
+
+export const parseTransform = (value: string | undefined): Matrix => {
+  if (!value) return IDENTITY;
+  let matrix = IDENTITY;
+  const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value))) {
+    const args = numbers(match[2]);
+    let next: Matrix = IDENTITY;
+    switch (match[1]) {
+      case 'matrix':
+        if (args.length === 6) next = args as Matrix;
+        break;
+      case 'translate':
+        next = [1, 0, 0, 1, args[0] || 0, args[1] || 0];
+        break;
+      case 'scale':
+        next = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0];
+        break;
+      case 'rotate': {
+        const rad = ((args[0] || 0) * Math.PI) / 180;
+        const cos = Math.cos(rad), sin = Math.sin(rad);
+        const [cx, cy] = [args[1] || 0, args[2] || 0];
+        next = multiply(multiply([1, 0, 0, 1, cx, cy], [cos, sin, -sin, cos, 0, 0]), [1, 0, 0, 1, -cx, -cy]);
+        break;
+      }
+      case 'skewX':
+        next = [1, 0, Math.tan(((args[0] || 0) * Math.PI) / 180), 1, 0, 0];
+        break;
+      case 'skewY':
+        next = [1, Math.tan(((args[0] || 0) * Math.PI) / 180), 0, 1, 0, 0];
+        break;
+    }
+    matrix = multiply(matrix, next);
+  }
+  return matrix;
+};
+
+const parseAttributes = (source: string) => {
+  const attributes: Record<string, string> = {};
+  let match: RegExpExecArray | null;
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  while ((match = ATTRIBUTE_PATTERN.exec(source))) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+};
+
+// Percentages and font-relative units cannot be resolved without a layout; treat them as absent.
+const length = (value: string | undefined) => {
+  if (value === undefined || /%|em|ex/.test(value)) return NaN;
+  return parseFloat(value);
+};
+
+class BoundsAccumulator {
+  minX = Infinity;
+  minY = Infinity;
+  maxX = -Infinity;
+  maxY = -Infinity;
+
+  add(x: number, y: number) {
+    if (!Number.isFinite(x) || !Number.isFinite(y)) return;
+    if (x < this.minX) this.minX = x;
+    if (y < this.minY) this.minY = y;
+    if (x > this.maxX) this.maxX = x;
+    if (y > this.maxY) this.maxY = y;
+  }
+
+  get empty() {
+    return this.minX > this.maxX;
+  }
+}
+
+// Parameters t in (0,1) where a 1-D cubic Bézier has a turning point.
+const cubicExtrema = (p0: number, p1: number, p2: number, p3: number) => {
+  const a = 3 * (-p0 + 3 * p1 - 3 * p2 + p3);
+  const b = 6 * (p0 - 2 * p1 + p2);
+  const c = 3 * (p1 - p0);
+  const roots: number[] = [];
+  if (Math.abs(a) < 1e-12) {
+    if (Math.abs(b) > 1e-12) roots.push(-c / b);
+  } else {
+    const disc = b * b - 4 * a * c;
+    if (disc >= 0) {
+      const sq = Math.sqrt(disc);
+      roots.push((-b + sq) / (2 * a), (-b - sq) / (2 * a));
+    }
+  }
+  return roots.filter(t => t > 0 && t < 1);
+};
+
+const cubicAt = (p0: number, p1: number, p2: number, p3: number, t: number) => {
+  const u = 1 - t;
+  return u * u * u * p0 + 3 * u * u * t * p1 + 3 * u * t * t * p2 + t * t * t * p3;
+};
+
+// Bézier curves are affine-invariant, so control points are transformed first and extrema taken after.
+const addCubic = (acc: BoundsAccumulator, pts: [number, number][]) => {
+  const [p0, p1, p2, p3] = pts;
+  acc.add(p0[0], p0[1]);
+  acc.add(p3[0], p3[1]);
+  for (const t of [...cubicExtrema(p0[0], p1[0], p2[0], p3[0]), ...cubicExtrema(p0[1], p1[1], p2[1], p3[1])]) {
+    acc.add(cubicAt(p0[0], p1[0], p2[0], p3[0], t), cubicAt(p0[1], p1[1], p2[1], p3[1], t));
+  }
+};
+
+// Endpoint-to-centre conversion (SVG 1.1 F.6.5), then dense sampling of the swept angle.
+const arcPoints = (x1: number, y1: number, rx: number, ry: number, phiDeg: number, largeArc: boolean, sweep: boolean, x2: number, y2: number) => {
+  if (rx === 0 || ry === 0) return [[x2, y2]] as [number, number][];
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  const phi = (phiDeg * Math.PI) / 180;
+  const cos = Math.cos(phi), sin = Math.sin(phi);
+  const dx = (x1 - x2) / 2, dy = (y1 - y2) / 2;
+  const x1p = cos * dx + sin * dy;
+  const y1p = -sin * dx + cos * dy;
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+  const num = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const den = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const coef = (largeArc !== sweep ? 1 : -1) * Math.sqrt(Math.max(0, num / den));
+  const cxp = (coef * rx * y1p) / ry;
+  const cyp = (-coef * ry * x1p) / rx;
+  const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+  const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const theta1 = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let delta = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  const steps = 48;
+  const points: [number, number][] = [];
+  for (let i = 1; i <= steps; i++) {
+    const t = theta1 + (delta * i) / steps;
+    points.push([cx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin, cy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos]);
+  }
+  return points;
+};
+
+// Walks path data and feeds exact segment bounds (arcs sampled) into `acc`.
+const addPathBounds = (d: string, matrix: Matrix, acc: BoundsAccumulator) => {
+  const tokens = d.match(/[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g) || [];
+  let i = 0;
+  let cmd = '';
+  let x = 0, y = 0, startX = 0, startY = 0;
+  let lastCtrlX = 0, lastCtrlY = 0, lastCmd = '';
+  const isCommand = (token: string | undefined) => token !== undefined && /^[A-Za-z]$/.test(token);
+  const next = () => Number(tokens[i++]);
+  // Arc flags may be written without separators ("a1 1 0 011 1"); peel off one digit at a time.
+  const flag = () => {
+    const token = tokens[i];
+    if (token && token.length > 1 && (token[0] === '0' || token[0] === '1')) {
+      tokens[i] = token.slice(1);
+      return token[0] === '1';
+    }
+    i++;
+    return token === '1';
+  };
+  const point = (px: number, py: number) => apply(matrix, px, py);
+  const moveTo = (px: number, py: number) => acc.add(...point(px, py));
+
+  while (i < tokens.length) {
+    if (isCommand(tokens[i])) cmd = tokens[i++];
+    else if (!cmd) break;
+    const rel = cmd === cmd.toLowerCase();
+    const ox = rel ? x : 0, oy = rel ? y : 0;
+
+    switch (cmd.toUpperCase()) {
+      case 'M': {
+        x = ox + next(); y = oy + next();
+        startX = x; startY = y;
+        moveTo(x, y);
+        cmd = rel ? 'l' : 'L'; // subsequent pairs are implicit line-tos
+        break;
+      }
+      case 'L': x = ox + next(); y = oy + next(); moveTo(x, y); break;
+      case 'H': x = ox + next(); moveTo(x, y); break;
+      case 'V': y = oy + next(); moveTo(x, y); break;
+      case 'C': {
+        const c1x = ox + next(), c1y = oy + next(), c2x = ox + next(), c2y = oy + next();
+        const ex = ox + next(), ey = oy + next();
+        addCubic(acc, [point(x, y), point(c1x, c1y), point(c2x, c2y), point(ex, ey)]);
+        lastCtrlX = c2x; lastCtrlY = c2y; x = ex; y = ey;
+        break;
+      }
+      case 'S': {
+        const reflect = /[CcSs]/.test(lastCmd);
+        const c1x = reflect ? 2 * x - lastCtrlX : x, c1y = reflect ? 2 * y - lastCtrlY : y;
+        const c2x = ox + next(), c2y = oy + next(), ex = ox + next(), ey = oy + next();
+        addCubic(acc, [point(x, y), point(c1x, c1y), point(c2x, c2y), point(ex, ey)]);
+        lastCtrlX = c2x; lastCtrlY = c2y; x = ex; y = ey;
+        break;
+      }
+      case 'Q': {
+        const qx = ox + next(), qy = oy + next(), ex = ox + next(), ey = oy + next();
+        // Degree-elevate to a cubic so one extrema routine covers both.
+        addCubic(acc, [point(x, y), point(x + (2 / 3) * (qx - x), y + (2 / 3) * (qy - y)), point(ex + (2 / 3) * (qx - ex), ey + (2 / 3) * (qy - ey)), point(ex, ey)]);
+        lastCtrlX = qx; lastCtrlY = qy; x = ex; y = ey;
+        break;
+      }
+      case 'T': {
+        const reflect = /[QqTt]/.test(lastCmd);
+        const qx = reflect ? 2 * x - lastCtrlX : x, qy = reflect ? 2 * y - lastCtrlY : y;
+        const ex = ox + next(), ey = oy + next();
+        addCubic(acc, [point(x, y), point(x + (2 / 3) * (qx - x), y + (2 / 3) * (qy - y)), point(ex + (2 / 3) * (qx - ex), ey + (2 / 3) * (qy - ey)), point(ex, ey)]);
+        lastCtrlX = qx; lastCtrlY = qy; x = ex; y = ey;
+        break;
+      }
+      case 'A': {
+        const rx = next(), ry = next(), rotation = next();
+        const large = flag(), sweep = flag();
+        const ex = ox + next(), ey = oy + next();
+        for (const [px, py] of arcPoints(x, y, rx, ry, rotation, large, sweep, ex, ey)) moveTo(px, py);
+        x = ex; y = ey;
+        break;
+      }
+      case 'Z': x = startX; y = startY; break;
+      default: i++;
+    }
+    lastCmd = cmd;
+    if (cmd.toUpperCase() === 'Z') cmd = '';
+    if (Number.isNaN(x) || Number.isNaN(y)) break;
+  }
+};
+
+const addShapeBounds = (tag: string, attrs: Record<string, string>, matrix: Matrix, acc: BoundsAccumulator) => {
+  switch (tag) {
+    case 'path':
+      if (attrs.d) addPathBounds(attrs.d, matrix, acc);
+      break;
+    case 'rect': {
+      const x = length(attrs.x) || 0, y = length(attrs.y) || 0, w = length(attrs.width), h = length(attrs.height);
+      if (!(w > 0 && h > 0)) break;
+      for (const [px, py] of [[x, y], [x + w, y], [x, y + h], [x + w, y + h]]) acc.add(...apply(matrix, px, py));
+      break;
+    }
+    case 'circle':
+    case 'ellipse': {
+      const cx = length(attrs.cx) || 0, cy = length(attrs.cy) || 0;
+      const rx = tag === 'circle' ? length(attrs.r) : length(attrs.rx);
+      const ry = tag === 'circle' ? length(attrs.r) : length(attrs.ry);
+      if (!(rx > 0 && ry > 0)) break;
+      // Exact extent of an affinely transformed ellipse.
+      const [tx, ty] = apply(matrix, cx, cy);
+      const hw = Math.hypot(matrix[0] * rx, matrix[2] * ry);
+      const hh = Math.hypot(matrix[1] * rx, matrix[3] * ry);
+      acc.add(tx - hw, ty - hh);
+      acc.add(tx + hw, ty + hh);
+      break;
+    }
+    case 'line':
+      acc.add(...apply(matrix, length(attrs.x1) || 0, length(attrs.y1) || 0));
+      acc.add(...apply(matrix, length(attrs.x2) || 0, length(attrs.y2) || 0));
+      break;
+    case 'polyline':
+    case 'polygon': {
+      const values = numbers(attrs.points || '');
+      for (let i = 0; i + 1 < values.length; i += 2) acc.add(...apply(matrix, values[i], values[i + 1]));
+      break;
+    }
+  }
+};
+
+const isExternal = (href: string) => href !== '' && !href.startsWith('#') && !href.startsWith('data:');
+
+// Reads geometry straight from the markup. String-based so it runs without a DOM (CLI, workers).
+export const parseSvg = (source: string): SvgGeometry => {
+  const text = source.replace(/<!--[\s\S]*?-->/g, '');
+  const warnings: SvgWarning[] = [];
+  const acc = new BoundsAccumulator();
+  const stack: { tag: string; matrix: Matrix; hidden: boolean }[] = [];
+  let root: Record<string, string> | null = null;
+  let pathCount = 0;
+  let shapeCount = 0;
+  let embedded = 0;
+  let textCount = 0;
+  const external = new Set<string>();
+
+  let match: RegExpExecArray | null;
+  TAG_PATTERN.lastIndex = 0;
+  while ((match = TAG_PATTERN.exec(text))) {
+    const [, closing, rawTag, rawAttrs, selfClosing] = match;
+    const tag = rawTag.toLowerCase().replace(/^svg:/, '');
+
+    if (closing) {
+      const index = stack.map(entry => entry.tag).lastIndexOf(tag);
+      if (index >= 0) stack.length = index;
+      continue;
+    }
+
+    const attrs = parseAttributes(rawAttrs);
+    const parent = stack[stack.length - 1];
+    const hidden = (parent?.hidden ?? false) || NON_RENDERING.has(tag) || attrs.display === 'none';
+    const matrix = multiply(parent?.matrix ?? IDENTITY, parseTransform(attrs.transform));
+
+    if (tag === 'svg' && !root) root = attrs;
+
+    const href = attrs.href ?? attrs['xlink:href'] ?? '';
+    if (tag === 'image') {
+      if (/^data:image\/(?!svg)/i.test(href)) embedded++;
+      else if (isExternal(href)) external.add(href);
+    } else if (tag === 'use' && isExternal(href)) {
+      external.add(href);
+    }
+    for (const value of Object.values(attrs)) {
+      const url = /url\(\s*['"]?([^'")]+)['"]?\s*\)/.exec(value);
+      if (url && isExternal(url[1])) external.add(url[1]);
+    }
+    if (tag === 'text') textCount++;
+
+    if (SHAPES.has(tag)) {
+      shapeCount++;
+      if (tag === 'path') pathCount++;
+      if (!hidden) addShapeBounds(tag, attrs, matrix, acc);
+    }
+
+    if (!selfClosing) stack.push({ tag, matrix, hidden });
+  }
+
+  for (const style of text.match(/<style[^>]*>[\s\S]*?<\/style>/gi) || []) {
+    for (const ref of style.match(/@import\s+(?:url\()?\s*['"]?[^'");\s]+|url\(\s*['"]?[^'")]+/g) || []) {
+      const target = ref.replace(/^@import\s+(?:url\()?|^url\(/, '').replace(/^\s*['"]?/, '');
+      if (isExternal(target)) external.add(target);
+    }
+  }
+
+  const viewBoxValues = root?.viewbox ? numbers(root.viewbox) : [];
+  const viewBox = viewBoxValues.length === 4 && viewBoxValues[2] > 0 && viewBoxValues[3] > 0
+    ? { x: viewBoxValues[0], y: viewBoxValues[1], width: viewBoxValues[2], height: viewBoxValues[3] }
+    : null;
+  const intrinsicWidth = length(root?.width);
+  const intrinsicHeight = length(root?.height);
+
+  if (!root) warnings.push({ code: 'NOT_SVG', message: 'No <svg> root element found.' });
+  if (root && !viewBox) warnings.push({ code: 'MISSING_VIEWBOX', message: 'No viewBox; scaling falls back to width/height attributes.' });
+  if (embedded > 0) warnings.push({ code: 'EMBEDDED_RASTER', message: `${embedded} embedded raster image(s); those regions are not vector geometry.` });
+  if (external.size > 0) warnings.push({ code: 'EXTERNAL_REFERENCE', message: `External reference(s) will not load when rasterized: ${[...external].slice(0, 3).join(', ')}${external.size > 3 ? '…' : ''}` });
+  if (textCount > 0) warnings.push({ code: 'LIVE_TEXT', message: `${textCount} <text> element(s) depend on installed fonts; outline them before analysis.` });
+
+  return {
+    viewBox,
+    intrinsic_width: Number.isFinite(intrinsicWidth) ? intrinsicWidth : null,
+    intrinsic_height: Number.isFinite(intrinsicHeight) ? intrinsicHeight : null,
+    path_count: pathCount,
+    shape_count: shapeCount,
+    bounds: acc.empty ? null : { x: acc.minX, y: acc.minY, width: acc.maxX - acc.minX, height: acc.maxY - acc.minY },
+    raster_scale: 1,
+    warnings
+  };
+};
+
+// Canvas size for rasterizing at `resolution` px on the longest side, and the user-unit -> px factor.
+export const svgRasterSize = (geometry: SvgGeometry, resolution: number = DEFAULT_RESOLUTION) => {
+  const frameWidth = geometry.viewBox?.width ?? geometry.intrinsic_width ?? geometry.bounds?.width ?? resolution;
+  const frameHeight = geometry.viewBox?.height ?? geometry.intrinsic_height ?? geometry.bounds?.height ?? resolution;
+  const scale = resolution / Math.max(frameWidth, frameHeight);
+  return {
+    width: Math.max(1, Math.round(frameWidth * scale)),
+    height: Math.max(1, Math.round(frameHeight * scale)),
+    scale
+  };
+};
+
+// Rewrites the root size so any rasterizer renders at exactly the requested analysis resolution.
+export const resizeSvgSource = (source: string, resolution: number = DEFAULT_RESOLUTION) => {
+  const geometry = parseSvg(source);
+  const size = svgRasterSize(geometry, resolution);
+  const resized = source.replace(/<svg\b([^>]*)>/i, (_, attrs: string) => {
+    // A self-closing root keeps its slash at the end, after the rewritten size.
+    const selfClosing = /\/\s*$/.test(attrs);
+    let rest = attrs.replace(/\/\s*$/, '').replace(/\s(width|height)\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/gi, '');
+    // Without a viewBox the explicit size would crop rather than scale; synthesize one from the frame.
+    if (!geometry.viewBox) {
+      const frameWidth = size.width / size.scale;
+      const frameHeight = size.height / size.scale;
+      rest += ` viewBox="0 0 ${frameWidth} ${frameHeight}"`;
+    }
+    return `<svg${rest} width="${size.width}" height="${size.height}"${selfClosing ? '/' : ''}>`;
+  });
+  return {
+    source: resized,
+    geometry: { ...geometry, raster_scale: size.scale },
+    width: size.width,
+    height: size.height
+  };
+};
+
+// Browser form: the resized source as a data URL an <img> can load.
+export const prepareSvgSource = (source: string, resolution: number = DEFAULT_RESOLUTION) => {
+  const { source: resized, ...prepared } = resizeSvgSource(source, resolution);
+  const bytes = new TextEncoder().encode(resized);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return { src: `data:image/svg+xml;base64,${btoa(binary)}`, ...prepared };
+};
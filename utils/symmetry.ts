@@ -0,0 +1,137 @@
+import { ForegroundMask, SymmetryMetrics } from "../types";
+
+const ROTATIONAL_FOLDS = [2, 3, 4, 6];
+const ROTATIONAL_MATCH = 0.8;
+// The axis search is O(points x angles); sample the mask down to this many points.
+const AXIS_SAMPLE_BUDGET = 20000;
+
+interface PointSet {
+  xs: Int32Array;
+  ys: Int32Array;
+}
+
+const collectPoints = (mask: ForegroundMask): PointSet => {
+  const { width, height, data } = mask;
+  let count = 0;
+  for (let i = 0; i < data.length; i++) if (data[i] > 0) count++;
+
+  const xs = new Int32Array(count);
+  const ys = new Int32Array(count);
+  let n = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[y * width + x] > 0) {
+        xs[n] = x;
+        ys[n] = y;
+        n++;
+      }
+    }
+  }
+  return { xs, ys };
+};
+
+const samplePoints = (points: PointSet, budget: number): PointSet => {
+  const stride = Math.ceil(points.xs.length / budget);
+  if (stride <= 1) return points;
+  const size = Math.ceil(points.xs.length / stride);
+  const xs = new Int32Array(size);
+  const ys = new Int32Array(size);
+  for (let i = 0, j = 0; i < points.xs.length; i += stride, j++) {
+    xs[j] = points.xs[i];
+    ys[j] = points.ys[i];
+  }
+  return { xs, ys };
+};
+
+// IoU of the mask against its image under `transform`. Since the transform is a rigid
+// motion |T(A)| = |A|, so the union is 2|A| - |A ∩ T(A)|; points mapped off-canvas never overlap.
+const overlapScore = (mask: ForegroundMask, points: PointSet, transform: (x: number, y: number) => [number, number]) => {
+  const { width, height, data } = mask;
+  const total = points.xs.length;
+  if (total === 0) return 0;
+
+  let intersection = 0;
+  for (let i = 0; i < total; i++) {
+    const [tx, ty] = transform(points.xs[i], points.ys[i]);
+    const rx = Math.round(tx);
+    const ry = Math.round(ty);
+    if (rx >= 0 && ry >= 0 && rx < width && ry < height && data[ry * width + rx] > 0) intersection++;
+  }
+  return intersection / (2 * total - intersection);
+};
+
+const mirrorAcross = (cx: number, cy: number, angleDeg: number) => {
+  // Axis direction; 0° is vertical, angles grow clockwise in image space.
+  const rad = (angleDeg * Math.PI) / 180;
+  const dx = Math.sin(rad);
+  const dy = Math.cos(rad);
+  return (x: number, y: number): [number, number] => {
+    const px = x - cx;
+    const py = y - cy;
+    const dot = px * dx + py * dy;
+    return [cx + 2 * dot * dx - px, cy + 2 * dot * dy - py];
+  };
+};
+
+const rotateAbout = (cx: number, cy: number, angleDeg: number) => {
+  const rad = (angleDeg * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return (x: number, y: number): [number, number] => {
+    const px = x - cx;
+    const py = y - cy;
+    return [cx + px * cos - py * sin, cy + px * sin + py * cos];
+  };
+};
+
+const findBestAxis = (mask: ForegroundMask, points: PointSet, cx: number, cy: number) => {
+  const sampled = samplePoints(points, AXIS_SAMPLE_BUDGET);
+  let bestAngle = 0;
+  let bestScore = -1;
+
+  const scan = (from: number, to: number, step: number) => {
+    for (let angle = from; angle <= to; angle += step) {
+      const score = overlapScore(mask, sampled, mirrorAcross(cx, cy, angle));
+      if (score > bestScore) {
+        bestScore = score;
+        bestAngle = angle;
+      }
+    }
+  };
+
+  // Coarse sweep over the half-turn, then refine around the winner.
+  scan(0, 178, 2);
+  const coarse = bestAngle;
+  scan(coarse - 2, coarse + 2, 0.25);
+
+  const angle = ((bestAngle % 180) + 180) % 180;
+  return { angle, score: overlapScore(mask, points, mirrorAcross(cx, cy, angle)) };
+};
+
+// Pixel-wise reflective and rotational symmetry of the foreground mask.
+export const computeSymmetry = (mask: ForegroundMask, centroid: { x: number; y: number }): SymmetryMetrics => {
+  const points = collectPoints(mask);
+  const canvasX = (mask.width - 1) / 2;
+  const canvasY = (mask.height - 1) / 2;
+
+  const rotational_scores: Record<number, number> = {};
+  let rotational_order = 1;
+  for (const fold of ROTATIONAL_FOLDS) {
+    const score = overlapScore(mask, points, rotateAbout(centroid.x, centroid.y, 360 / fold));
+    rotational_scores[fold] = score;
+    if (score >= ROTATIONAL_MATCH) rotational_order = fold;
+  }
+
+  const axis = findBestAxis(mask, points, centroid.x, centroid.y);
+
+  return {
+    mirror_vertical: overlapScore(mask, points, mirrorAcross(canvasX, canvasY, 0)),
+    mirror_horizontal: overlapScore(mask, points, mirrorAcross(canvasX, canvasY, 90)),
+    mirror_vertical_centroid: overlapScore(mask, points, mirrorAcross(centroid.x, centroid.y, 0)),
+    mirror_horizontal_centroid: overlapScore(mask, points, mirrorAcross(centroid.x, centroid.y, 90)),
+    rotational_order,
+    rotational_scores,
+    axis_angle: axis.angle,
+    axis_score: axis.score
+  };
+};
@@ -0,0 +1,198 @@
+import { ComponentGap, ComponentRegion, ForegroundMask, TopologyMetrics } from "../types";
+
+// Regions smaller than this share of the foreground are treated as speckle (JPEG noise, stray pixels).
+const MIN_REGION_RATIO = 0.001;
+const MIN_REGION_PIXELS = 4;
+// Gap search is pairwise over boundary samples; keep it bounded on noisy marks.
+const MAX_GAP_COMPONENTS = 24;
+const BOUNDARY_SAMPLE_BUDGET = 400;
+
+const NEIGHBOURS_8 = [[-1, -1], [0, -1], [1, -1], [-1, 0], [1, 0], [-1, 1], [0, 1], [1, 1]];
+const NEIGHBOURS_4 = [[0, -1], [-1, 0], [1, 0], [0, 1]];
+
+export interface ComponentLabels {
+  labels: Int32Array; // 0 = background, otherwise index into regions + 1
+  regions: ComponentRegion[];
+  holes: number[][]; // pixel indices of each significant enclosed counter
+  noise: number;
+}
+
+// Flood-fills every region where `inside` holds. Returns per-pixel labels and pixel lists.
+const floodLabel = (width: number, height: number, inside: (i: number) => boolean, neighbours: number[][]) => {
+  const labels = new Int32Array(width * height);
+  const stack = new Int32Array(width * height);
+  const regions: number[][] = [];
+
+  for (let start = 0; start < labels.length; start++) {
+    if (labels[start] !== 0 || !inside(start)) continue;
+    const label = regions.length + 1;
+    const pixels: number[] = [];
+    let top = 0;
+    stack[top++] = start;
+    labels[start] = label;
+
+    while (top > 0) {
+      const i = stack[--top];
+      pixels.push(i);
+      const x = i % width;
+      const y = (i - x) / width;
+      for (const [dx, dy] of neighbours) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const n = ny * width + nx;
+        if (labels[n] === 0 && inside(n)) {
+          labels[n] = label;
+          stack[top++] = n;
+        }
+      }
+    }
+    regions.push(pixels);
+  }
+  return { labels, regions };
+};
+
+// Unfiltered 8-connected labelling; for derived rasters where every pixel counts (e.g. favicon renders).
+export const labelBinary = (width: number, height: number, inside: (i: number) => boolean) =>
+  floodLabel(width, height, inside, NEIGHBOURS_8);
+
+const minimumArea = (foreground: number) => Math.max(MIN_REGION_PIXELS, foreground * MIN_REGION_RATIO);
+
+// 8-connected labelling of the foreground, with 4-connected background holes attributed
+// to the component that encloses them (the dual connectivity keeps the Euler number consistent).
+export const labelComponents = (mask: ForegroundMask): ComponentLabels => {
+  const { width, height, data } = mask;
+  const fg = floodLabel(width, height, i => data[i] > 0, NEIGHBOURS_8);
+  const foregroundArea = fg.regions.reduce((sum, pixels) => sum + pixels.length, 0);
+  const minArea = minimumArea(foregroundArea);
+
+  const labels = new Int32Array(width * height);
+  const regions: ComponentRegion[] = [];
+  const remap = new Int32Array(fg.regions.length + 1);
+  let noise = 0;
+
+  fg.regions.forEach((pixels, index) => {
+    if (pixels.length < minArea) {
+      noise++;
+      return;
+    }
+    let minX = width, minY = height, maxX = -1, maxY = -1, sumX = 0, sumY = 0;
+    for (const i of pixels) {
+      const x = i % width;
+      const y = (i - x) / width;
+      if (x < minX) minX = x;
+      if (y < minY) minY = y;
+      if (x > maxX) maxX = x;
+      if (y > maxY) maxY = y;
+      sumX += x;
+      sumY += y;
+    }
+    const id = regions.length + 1;
+    remap[index + 1] = id;
+    regions.push({
+      id,
+      area: pixels.length,
+      boundingBox: { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 },
+      centroid: { x: sumX / pixels.length, y: sumY / pixels.length },
+      holes: 0
+    });
+  });
+
+  for (let i = 0; i < labels.length; i++) labels[i] = remap[fg.labels[i]];
+
+  // Background regions that never touch the canvas frame are enclosed counters.
+  const bg = floodLabel(width, height, i => data[i] === 0, NEIGHBOURS_4);
+  const holes: number[][] = [];
+  for (const pixels of bg.regions) {
+    if (pixels.length < minArea) continue;
+    let enclosing = 0;
+    let open = false;
+    for (const i of pixels) {
+      const x = i % width;
+      const y = (i - x) / width;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) {
+        open = true;
+        break;
+      }
+      if (enclosing === 0) {
+        for (const [dx, dy] of NEIGHBOURS_4) {
+          const owner = labels[(y + dy) * width + x + dx];
+          if (owner > 0) {
+            enclosing = owner;
+            break;
+          }
+        }
+      }
+    }
+    if (!open && enclosing > 0) {
+      regions[enclosing - 1].holes++;
+      holes.push(pixels);
+    }
+  }
+
+  return { labels, regions, holes, noise };
+};
+
+const boundarySamples = (labels: Int32Array, width: number, height: number, region: ComponentRegion) => {
+  const points: [number, number][] = [];
+  const { x: bx, y: by, width: bw, height: bh } = region.boundingBox;
+  for (let y = by; y < by + bh; y++) {
+    for (let x = bx; x < bx + bw; x++) {
+      if (labels[y * width + x] !== region.id) continue;
+      const edge = NEIGHBOURS_4.some(([dx, dy]) => {
+        const nx = x + dx;
+        const ny = y + dy;
+        return nx < 0 || ny < 0 || nx >= width || ny >= height || labels[ny * width + nx] !== region.id;
+      });
+      if (edge) points.push([x, y]);
+    }
+  }
+  const stride = Math.ceil(points.length / BOUNDARY_SAMPLE_BUDGET);
+  return stride <= 1 ? points : points.filter((_, i) => i % stride === 0);
+};
+
+// Nearest-neighbour clearance for each significant component, deduplicated per pair.
+const measureGaps = (labels: Int32Array, width: number, height: number, regions: ComponentRegion[], markSize: number): ComponentGap[] => {
+  const candidates = [...regions].sort((a, b) => b.area - a.area).slice(0, MAX_GAP_COMPONENTS);
+  if (candidates.length < 2) return [];
+  const samples = candidates.map(region => boundarySamples(labels, width, height, region));
+
+  const nearest = new Map<string, ComponentGap>();
+  for (let a = 0; a < candidates.length; a++) {
+    let best: ComponentGap | null = null;
+    for (let b = 0; b < candidates.length; b++) {
+      if (a === b) continue;
+      let min = Infinity;
+      for (const [ax, ay] of samples[a]) {
+        for (const [bx, by] of samples[b]) {
+          const d = (ax - bx) ** 2 + (ay - by) ** 2;
+          if (d < min) min = d;
+        }
+      }
+      // Centre-to-centre distance minus one pixel: the clear run between the two edges.
+      const distance = Math.max(0, Math.sqrt(min) - 1);
+      if (!best || distance < best.distance) {
+        const from = Math.min(candidates[a].id, candidates[b].id);
+        const to = Math.max(candidates[a].id, candidates[b].id);
+        best = { from, to, distance, relative: distance / markSize };
+      }
+    }
+    if (best) nearest.set(`${best.from}-${best.to}`, best);
+  }
+
+  return [...nearest.values()].sort((a, b) => a.distance - b.distance);
+};
+
+export const computeTopology = (mask: ForegroundMask, labelling: ComponentLabels, markSize: number): TopologyMetrics => {
+  const { labels, regions, noise } = labelling;
+  const holeCount = regions.reduce((sum, region) => sum + region.holes, 0);
+
+  return {
+    component_count: regions.length,
+    hole_count: holeCount,
+    euler_number: regions.length - holeCount,
+    noise_components: noise,
+    components: regions,
+    gaps: measureGaps(labels, mask.width, mask.height, regions, markSize)
+  };
+};